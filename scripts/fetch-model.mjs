@@ -0,0 +1,34 @@
+// Downloads the pinned MediaPipe hand landmarker model into public/models so
+// Vite serves it in dev and copies it into the build. Runs before `dev` and
+// `build`; does nothing if the file is already there.
+//
+// A failed download only warns: the game still works with mouse/keyboard
+// input, and the build plugin reports the missing model again.
+
+import { existsSync, mkdirSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+// float16 v1 — bump deliberately, together with @mediapipe/tasks-vision
+const MODEL_URL =
+  "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const dest = join(root, "public", "models", "hand_landmarker.task");
+
+if (existsSync(dest)) process.exit(0);
+
+try {
+  console.log(`Fetching hand model -> ${dest}`);
+  const res = await fetch(MODEL_URL, { signal: AbortSignal.timeout(60_000) });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const data = new Uint8Array(await res.arrayBuffer());
+  mkdirSync(dirname(dest), { recursive: true });
+  // write then rename so an interrupted download never looks complete
+  writeFileSync(`${dest}.part`, data);
+  renameSync(`${dest}.part`, dest);
+  console.log(`Hand model saved (${(data.length / 1048576).toFixed(1)} MB)`);
+} catch (e) {
+  console.warn(`Could not fetch the hand model (${e instanceof Error ? e.message : e}).`);
+  console.warn(`Camera input won't work until ${dest} exists.`);
+}
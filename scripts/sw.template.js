@@ -0,0 +1,49 @@
+// Service worker template. scripts/viteOffline.mjs fills in the placeholders
+// and emits the result as sw.js at the root of the build.
+
+const VERSION = __VERSION__;
+const PRECACHE = __PRECACHE__;
+const CACHE = `windstrike-${VERSION}`;
+const scope = new URL(self.registration.scope);
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then((cache) => cache.addAll(PRECACHE.map((p) => new URL(p, scope).href)))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((k) => k.startsWith("windstrike-") && k !== CACHE).map((k) => caches.delete(k)),
+      ))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (req.method !== "GET" || new URL(req.url).origin !== scope.origin) return;
+
+  // pages: network first so a new deploy shows up, cached shell when offline
+  if (req.mode === "navigate") {
+    event.respondWith(
+      fetch(req).catch(() => caches.match(new URL("index.html", scope).href)),
+    );
+    return;
+  }
+
+  // everything else is content-hashed or pinned: cache first
+  event.respondWith(
+    caches.match(req).then((hit) => hit ?? fetch(req).then((res) => {
+      if (res.ok) {
+        const copy = res.clone();
+        caches.open(CACHE).then((cache) => cache.put(req, copy));
+      }
+      return res;
+    })),
+  );
+});
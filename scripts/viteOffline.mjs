@@ -0,0 +1,85 @@
+// Vite plugin that makes the game work without a network:
+//   - serves the pinned @mediapipe/tasks-vision WASM fileset under
+//     <base>mediapipe/wasm/ in dev, and copies it into the build
+//   - emits sw.js (from sw.template.js) precaching the whole build, including
+//     the WASM and public/ (hand model, manifest, icon)
+
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { dirname, join, relative } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const here = dirname(fileURLToPath(import.meta.url));
+const WASM_PREFIX = "mediapipe/wasm/";
+const MODEL_FILE = "models/hand_landmarker.task";
+
+function listFiles(dir) {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true }).flatMap((d) =>
+    d.isDirectory() ? listFiles(join(dir, d.name)) : [join(dir, d.name)]);
+}
+
+function contentType(file) {
+  if (file.endsWith(".wasm")) return "application/wasm";
+  if (file.endsWith(".js")) return "text/javascript";
+  return "application/octet-stream";
+}
+
+export function offline() {
+  let config;
+  let wasmDir;
+
+  return {
+    name: "windstrike-offline",
+
+    configResolved(resolved) {
+      config = resolved;
+      wasmDir = join(resolved.root, "node_modules", "@mediapipe", "tasks-vision", "wasm");
+      if (!existsSync(join(resolved.publicDir, MODEL_FILE))) {
+        resolved.logger.warn(
+          `[offline] public/${MODEL_FILE} is missing — run "node scripts/fetch-model.mjs". Camera input won't work.`);
+      }
+    },
+
+    configureServer(server) {
+      server.middlewares.use(`${config.base}${WASM_PREFIX}`, (req, res, next) => {
+        const name = (req.url ?? "").split("?")[0].replace(/^\/+/, "");
+        const file = join(wasmDir, name);
+        if (!name || name.includes("..") || !existsSync(file)) return next();
+        res.setHeader("Content-Type", contentType(file));
+        res.end(readFileSync(file));
+      });
+    },
+
+    generateBundle(_options, bundle) {
+      for (const file of listFiles(wasmDir)) {
+        this.emitFile({
+          type: "asset",
+          fileName: WASM_PREFIX + relative(wasmDir, file),
+          source: readFileSync(file),
+        });
+      }
+
+      const publicFiles = config.publicDir ? listFiles(config.publicDir) : [];
+      // index.html is emitted by a later plugin, so it's listed explicitly
+      const precache = [...new Set([
+        "./",
+        "index.html",
+        ...Object.keys(bundle),
+        ...publicFiles.map((f) => relative(config.publicDir, f).split("\\").join("/")),
+      ])].filter((f) => f !== "sw.js" && !f.endsWith(".map"));
+
+      // bundle names are content-hashed; public files and the WASM aren't, so
+      // fold their sizes in too
+      const hash = createHash("sha256");
+      for (const f of precache) hash.update(f);
+      for (const f of [...publicFiles, ...listFiles(wasmDir)]) hash.update(`${f}:${statSync(f).size}`);
+      const version = hash.digest("hex").slice(0, 12);
+
+      const sw = readFileSync(join(here, "sw.template.js"), "utf8")
+        .replace("__VERSION__", JSON.stringify(version))
+        .replace("__PRECACHE__", JSON.stringify(precache, null, 2));
+      this.emitFile({ type: "asset", fileName: "sw.js", source: sw });
+    },
+  };
+}
@@ -1,16 +1,68 @@
+import "@fontsource/press-start-2p";
 import "./style.css";
-import { HandWind } from "./wind/handWind";
+import { HandWind, listCameras } from "./wind/handWind";
 import type { HandWindConfig } from "./wind/handWind";
-import { Game } from "./wind/game";
-import { startMusic } from "./wind/sounds";
+import type { LoadProgress } from "./wind/assets";
+import { PointerWind } from "./wind/pointerWind";
+import { KeyboardWind } from "./wind/keyboardWind";
+import type { InputMode, WindInput } from "./wind/windInput";
+import { Game, PLAYER_COLORS } from "./wind/game";
+import { PLAYER_COUNT } from "./wind/sim";
+import type { PlayMode } from "./wind/sim";
+import { parseReplay } from "./wind/replay";
+import { seconds } from "./wind/clock";
+import { formatDuration } from "./wind/stats";
+import { loadLevelPackFile } from "./wind/levelPack";
+import { WaveEditor } from "./wind/waveEditor";
+import { ScoreScreens } from "./wind/scoreScreens";
+import { CalibrationWizard } from "./wind/calibration";
+import { activeProfiles, deleteProfile, findProfile, loadProfiles, saveProfile, setActiveProfile } from "./wind/profiles";
+import { setMix } from "./wind/sounds";
+import type { Mix } from "./wind/sounds";
+import { loadMix, saveMix } from "./wind/audioPrefs";
+import { SettingsStore } from "./wind/settings";
+import type { Settings } from "./wind/settings";
+import { SettingsScreen } from "./wind/settingsScreen";
 
 const canvas = document.querySelector<HTMLCanvasElement>("#game")!;
 const video = document.querySelector<HTMLVideoElement>("#webcam")!;
 const btnStart = document.querySelector<HTMLButtonElement>("#btnStart")!;
 const btnStop = document.querySelector<HTMLButtonElement>("#btnStop")!;
-const sens = document.querySelector<HTMLInputElement>("#sens")!;
-const debug = document.querySelector<HTMLInputElement>("#debug")!;
+const inputMode = document.querySelector<HTMLSelectElement>("#inputMode")!;
+const playMode = document.querySelector<HTMLSelectElement>("#playMode")!;
+const profileSelects = [
+  document.querySelector<HTMLSelectElement>("#profileP1")!,
+  document.querySelector<HTMLSelectElement>("#profileP2")!,
+];
+const profileP2Row = document.querySelector<HTMLLabelElement>("#profileP2Row")!;
+const btnCalibrate = document.querySelector<HTMLButtonElement>("#btnCalibrate")!;
+const btnDeleteProfile = document.querySelector<HTMLButtonElement>("#btnDeleteProfile")!;
+const stage = document.querySelector<HTMLDivElement>("#stage")!;
+const btnSettings = document.querySelector<HTMLButtonElement>("#btnSettings")!;
+const camBox = document.querySelector<HTMLDivElement>(".camBox")!;
+const volMaster = document.querySelector<HTMLInputElement>("#volMaster")!;
+const volMusic = document.querySelector<HTMLInputElement>("#volMusic")!;
+const volSfx = document.querySelector<HTMLInputElement>("#volSfx")!;
+const muteAll = document.querySelector<HTMLInputElement>("#muteAll")!;
+const muteMusic = document.querySelector<HTMLInputElement>("#muteMusic")!;
+const muteSfx = document.querySelector<HTMLInputElement>("#muteSfx")!;
 const statusEl = document.querySelector<HTMLDivElement>("#status")!;
+// one-off messages (load errors etc.) that the per-frame status would overwrite
+const noticeEl = document.querySelector<HTMLDivElement>("#notice")!;
+const loadBox = document.querySelector<HTMLDivElement>("#loadBox")!;
+const loadProgress = document.querySelector<HTMLProgressElement>("#loadProgress")!;
+const loadText = document.querySelector<HTMLDivElement>("#loadText")!;
+const btnLoadReplay = document.querySelector<HTMLButtonElement>("#btnLoadReplay")!;
+const replayFile = document.querySelector<HTMLInputElement>("#replayFile")!;
+const btnLoadPack = document.querySelector<HTMLButtonElement>("#btnLoadPack")!;
+const packFile = document.querySelector<HTMLInputElement>("#packFile")!;
+const btnEditor = document.querySelector<HTMLButtonElement>("#btnEditor")!;
+const btnSaveReplay = document.querySelector<HTMLButtonElement>("#btnSaveReplay")!;
+const replayControls = document.querySelector<HTMLDivElement>("#replayControls")!;
+const btnReplayPause = document.querySelector<HTMLButtonElement>("#btnReplayPause")!;
+const replaySeek = document.querySelector<HTMLInputElement>("#replaySeek")!;
+const replayTime = document.querySelector<HTMLSpanElement>("#replayTime")!;
+const replaySpeed = document.querySelector<HTMLSelectElement>("#replaySpeed")!;
 
 const overlay = document.querySelector<HTMLCanvasElement>("#handOverlay")!;
 const overlayCtx: CanvasRenderingContext2D = (() => {
@@ -33,13 +85,180 @@ function resizeCanvasToDisplaySize(c: HTMLCanvasElement) {
 
 const game = new Game(canvas);
 
+const scores = new ScoreScreens(
+  document.querySelector<HTMLDivElement>("#results")!,
+  document.querySelector<HTMLDivElement>("#history")!,
+);
+game.onGameOver((summary) => scores.showResults(summary));
+document.querySelector<HTMLButtonElement>("#btnHistory")!.onclick = () => scores.showHistory();
+
+const editor = new WaveEditor(document.querySelector<HTMLDivElement>("#editor")!, game.getLevelPack(), {
+  onPlay: (pack) => {
+    game.setLevelPack(pack);
+    editor.hide();
+    noticeEl.textContent = `Playing edited pack (${pack.waves.length} waves)`;
+  },
+  onError: (msg) => { noticeEl.textContent = msg; },
+});
+
+function showLoadProgress({ stage, loaded, total }: LoadProgress) {
+  const label = stage === "wasm" ? "hand tracker" : "hand model";
+  const mb = (n: number) => (n / 1048576).toFixed(1);
+  loadBox.hidden = false;
+  if (total > 0) {
+    loadProgress.value = loaded / total;
+    loadText.textContent = `Loading ${label} ${mb(loaded)}/${mb(total)} MB`;
+  } else {
+    loadProgress.removeAttribute("value"); // indeterminate
+    loadText.textContent = `Loading ${label} ${mb(loaded)} MB`;
+  }
+}
+
+const settings = new SettingsStore();
+
 const windCfg: HandWindConfig = {
   maxWind: 20,
-  smooth: 0.18,
+  smooth: settings.get().smoothing,
+  detectHz: settings.get().trackingRate,
+  deviceId: settings.get().cameraId,
+  onLoadProgress: showLoadProgress,
 };
 
 const handWind = new HandWind(video, windCfg);
 
+const inputs: Record<InputMode, WindInput> = {
+  camera: handWind,
+  mouse: new PointerWind(stage, { maxPump: 3, dragRange: 0.35, smooth: 0.25 }),
+  keyboard: new KeyboardWind({ maxPump: 2.5, pointerSpeed: 0.9, spreadSpeed: 1.5, smooth: 0.2 }),
+};
+let input: WindInput = inputs[inputMode.value as InputMode];
+
+const START_LABELS: Record<InputMode, string> = {
+  camera: "\u25B6 Start Camera",
+  mouse: "\u25B6 Start (Mouse)",
+  keyboard: "\u25B6 Start (Keyboard)",
+};
+const STOP_LABELS: Record<InputMode, string> = {
+  camera: "\u25A0 Stop Camera",
+  mouse: "\u25A0 Stop Input",
+  keyboard: "\u25A0 Stop Input",
+};
+
+function syncInputLabels() {
+  const mode = inputMode.value as InputMode;
+  // back at the title with the input still running: just play again
+  btnStart.textContent = input.isRunning() ? "\u25B6 Play" : START_LABELS[mode];
+  btnStop.textContent = STOP_LABELS[mode];
+}
+syncInputLabels();
+
+// two-player modes need a hand per player, so they're camera-only
+function syncPlayMode() {
+  const camera = input === handWind;
+  if (!camera && playMode.value !== "solo") {
+    playMode.value = "solo";
+    applyPlayMode();
+  }
+  playMode.disabled = !camera || game.isStarted();
+}
+
+function applyPlayMode() {
+  const mode = playMode.value as PlayMode;
+  game.setMode(mode);
+  handWind.setHands(PLAYER_COUNT[mode] as 1 | 2).catch((e) => {
+    console.error(e);
+    noticeEl.textContent = "Could not switch hand tracking to that many hands.";
+  });
+  profileP2Row.hidden = PLAYER_COUNT[mode] < 2;
+}
+
+// --- calibration profiles (one per player slot) ---
+
+function fillProfileSelects() {
+  const profiles = loadProfiles();
+  const active = activeProfiles();
+  profileSelects.forEach((sel, i) => {
+    sel.replaceChildren(new Option("Default (auto)", ""), ...profiles.map(p => new Option(p.name, p.name)));
+    sel.value = profiles.some(p => p.name === active[i]) ? active[i] : "";
+  });
+  btnDeleteProfile.disabled = profileSelects[0].value === "";
+}
+
+function applyProfile(player: number) {
+  const profile = findProfile(profileSelects[player].value);
+  // smoothing is a setting, so it wins over the one saved with the profile
+  if (profile) handWind.configureHand(player, { ...profile.hand, handSize: profile.handSize, smooth: settings.get().smoothing });
+  else handWind.resetHandConfig(player);
+  // the sim sees wind after the sensitivity, so its dead zone scales with it
+  game.setDeadZone(player, profile ? profile.deadZone * settings.get().sensitivity : undefined);
+}
+
+profileSelects.forEach((sel, i) => {
+  sel.onchange = () => {
+    setActiveProfile(i, sel.value);
+    applyProfile(i);
+    if (i === 0) btnDeleteProfile.disabled = sel.value === "";
+  };
+});
+
+// Deletes P1's profile; any player slot using it goes back to the defaults.
+btnDeleteProfile.onclick = () => {
+  const name = profileSelects[0].value;
+  if (!name || !confirm(`Delete calibration profile "${name}"?`)) return;
+  deleteProfile(name);
+  activeProfiles().forEach((active, i) => { if (active === name) setActiveProfile(i, ""); });
+  fillProfileSelects();
+  profileSelects.forEach((_, i) => applyProfile(i));
+  noticeEl.textContent = `Deleted profile "${name}"`;
+};
+fillProfileSelects();
+profileSelects.forEach((_, i) => applyProfile(i));
+
+const calibration = new CalibrationWizard(document.querySelector<HTMLDivElement>("#calibration")!, handWind, {
+  smooth: () => settings.get().smoothing,
+  onSave: (profile, player) => {
+    saveProfile(profile);
+    setActiveProfile(player, profile.name);
+    fillProfileSelects();
+    applyProfile(player);
+    noticeEl.textContent = `Saved profile "${profile.name}" for P${player + 1}`;
+  },
+});
+
+btnCalibrate.onclick = async () => {
+  if (input !== handWind) {
+    noticeEl.textContent = "Calibration needs the Webcam (hand) input.";
+    return;
+  }
+  if (!handWind.isRunning()) {
+    btnCalibrate.disabled = true;
+    inputMode.disabled = true;
+    try {
+      await handWind.start();
+      btnStop.disabled = false;
+      syncInputLabels();
+    } catch (e) {
+      console.error(e);
+      inputMode.disabled = false;
+      noticeEl.textContent = "Failed to start camera (check permissions).";
+      return;
+    } finally {
+      loadBox.hidden = true;
+      btnCalibrate.disabled = false;
+    }
+  }
+  noticeEl.textContent = "";
+  calibration.show(0, profileSelects[0].value);
+};
+
+inputMode.onchange = () => {
+  input = inputs[inputMode.value as InputMode];
+  syncInputLabels();
+  syncPlayMode();
+};
+
+playMode.onchange = applyPlayMode;
+
 function drawHandOverlay() {
   resizeCanvasToDisplaySize(overlay);
   const w = overlay.width;
@@ -47,121 +266,428 @@ function drawHandOverlay() {
 
   overlayCtx.clearRect(0, 0, w, h);
 
-  // HandWind must expose getLastHand2D() for this to work
-  const hand2d =
-    (handWind as any).getLastHand2D && typeof (handWind as any).getLastHand2D === "function"
-      ? (handWind as any).getLastHand2D()
-      : null;
+  if (!input.isRunning()) return;
 
-  if (!hand2d || !hand2d.length) return;
+  // only the webcam backend has landmarks to draw; one set per tracked hand
+  const hands = input === handWind ? handWind.getHands2D() : [];
+  const twoHands = hands.length > 1;
+  const colorFor = (i: number) => (twoHands ? PLAYER_COLORS[i] : "#e8eef5");
 
   overlayCtx.save();
 
-  // draw points (mirror X to match CSS-mirrored video)
+  // draw points (mirror X to match the CSS-mirrored video, see applySettings)
+  const mirror = settings.get().mirror;
   overlayCtx.globalAlpha = 0.92;
-  overlayCtx.fillStyle = "#e8eef5";
-
-  for (let i = 0; i < hand2d.length; i++) {
-    const p = hand2d[i];
-    const x = (1 - p.x) * w; // mirror to match video transform scaleX(-1)
-    const y = p.y * h;
-
-    const r = i === 8 || i === 12 ? 6 : 3;
-    overlayCtx.beginPath();
-    overlayCtx.arc(x, y, r, 0, Math.PI * 2);
-    overlayCtx.fill();
-  }
-
-  // optional: aim line based on pointerX (also mirrored)
-  const pointerX =
-    (handWind as any).getPointerX && typeof (handWind as any).getPointerX === "function"
-      ? (handWind as any).getPointerX()
-      : 0.5;
-
+  hands.forEach((hand2d, hi) => {
+    overlayCtx.fillStyle = colorFor(hi);
+    for (let i = 0; hand2d && i < hand2d.length; i++) {
+      const p = hand2d[i];
+      const x = (mirror ? 1 - p.x : p.x) * w;
+      const y = p.y * h;
+
+      const r = i === 8 || i === 12 ? 6 : 3;
+      overlayCtx.beginPath();
+      overlayCtx.arc(x, y, r, 0, Math.PI * 2);
+      overlayCtx.fill();
+    }
+  });
+
+  // aim line based on pointerX (mirrored only for the camera)
+  const sources = twoHands ? [handWind.getHand(0), handWind.getHand(1)] : [input];
+  const flip = input.mirrored && mirror;
   overlayCtx.globalAlpha = 0.5;
-  overlayCtx.strokeStyle = "#e8eef5";
   overlayCtx.lineWidth = Math.max(1, Math.floor(window.devicePixelRatio || 1));
-  const aimX = (1 - pointerX) * w;
-  overlayCtx.beginPath();
-  overlayCtx.moveTo(aimX, 0);
-  overlayCtx.lineTo(aimX, h);
-  overlayCtx.stroke();
+  sources.forEach((src, i) => {
+    const aimX = (flip ? 1 - src.getPointerX() : src.getPointerX()) * w;
+    overlayCtx.strokeStyle = colorFor(i);
+    overlayCtx.beginPath();
+    overlayCtx.moveTo(aimX, 0);
+    overlayCtx.lineTo(aimX, h);
+    overlayCtx.stroke();
+  });
 
   overlayCtx.restore();
 }
 
+// pose being held on the (first) hand, for the status line
+function heldGesture() {
+  const held = input === handWind ? handWind.gestures.current(0) : null;
+  return held ? ` ${held.pose} ${Math.round(held.confidence * 100)}%` : "";
+}
+
 function loop() {
   resizeCanvasToDisplaySize(canvas);
 
-  const sensitivity = Number(sens.value);
-
-  const wind = handWind.getWind();
-  game.setDebug(debug.checked);
-
-  const spread =
-    (handWind as any).getSpread && typeof (handWind as any).getSpread === "function"
-      ? (handWind as any).getSpread()
-      : 1;
-
-  const pointerX =
-    (handWind as any).getPointerX && typeof (handWind as any).getPointerX === "function"
-      ? (handWind as any).getPointerX()
-      : 0.5;
-
-  // Invert pointerX so left hand movement produces left sand movement
-  game.setWind(wind.x * sensitivity, wind.z * sensitivity, spread, 1 - pointerX);
+  const sensitivity = settings.get().sensitivity;
+  // the camera reports camera-space x; mirrored, it's flipped to match the preview
+  const flip = input.mirrored && settings.get().mirror;
+
+  const wind = input.getWind();
+
+  const spread = input.getSpread();
+  const pointerX = input.getPointerX();
+  // un-mirrored, sideways hand motion turns around along with the aim
+  const wx = input.mirrored && !flip ? -wind.x : wind.x;
+
+  // Invert camera pointerX so left hand movement produces left sand movement
+  if (input === handWind && handWind.getHandCount() > 1) {
+    // two-player: the left hand drives P1, the right hand P2
+    for (let i = 0; i < 2; i++) {
+      const hand = handWind.getHand(i);
+      const hw = hand.getWind();
+      const hx = flip ? hw.x : -hw.x;
+      game.setWind(hx * sensitivity, hw.z * sensitivity, hand.getSpread(), flip ? 1 - hand.getPointerX() : hand.getPointerX(), i);
+    }
+  } else {
+    game.setWind(wx * sensitivity, wind.z * sensitivity, spread, flip ? 1 - pointerX : pointerX);
+  }
 
-  game.tick();
+  if (editor.isOpen()) editor.tick(wx * sensitivity, wind.z * sensitivity, spread, flip ? 1 - pointerX : pointerX);
+  else game.tick();
+  syncReplayControls();
 
   // Draw the tracking overlay on the preview
   drawHandOverlay();
 
-  statusEl.textContent = handWind.isRunning()
+  const player = game.getReplayPlayer();
+  statusEl.textContent = player
+    ? `Replay ${player.position()}/${player.length()}${player.paused ? " (paused)" : ""}`
+    : input.isRunning()
     ? `Wind: (${(wind.x * sensitivity).toFixed(2)}, ${(wind.z * sensitivity).toFixed(
         2
-      )}) spread:${spread.toFixed(2)} px:${pointerX.toFixed(2)}`
-    : `Camera stopped`;
+      )}) spread:${spread.toFixed(2)} px:${pointerX.toFixed(2)}${heldGesture()}`
+    : `Input stopped`;
 
   requestAnimationFrame(loop);
 }
 
 loop();
 
+function showGameScreen() {
+  if (calibration.isOpen()) calibration.hide();
+  game.start();
+  playMode.disabled = true;
+  btnCalibrate.disabled = true;
+  // hide start screen, show game
+  document.querySelector(".panel")!.classList.add("game-started");
+  document.getElementById("startScreen")!.style.display = "none";
+  document.getElementById("game")!.style.display = "block";
+  btnStart.classList.remove("btn-glow");
+  btnStart.disabled = true;
+}
+
+// --- lifecycle ---
+
+function restartRun() {
+  if (!game.isStarted()) return;
+  scores.hideResults();
+  game.restart();
+  statusEl.textContent = "Running";
+}
+
+function returnToTitle() {
+  scores.hideResults();
+  game.toTitle();
+  document.querySelector(".panel")!.classList.remove("game-started");
+  document.getElementById("startScreen")!.style.display = "";
+  document.getElementById("game")!.style.display = "none";
+  btnStart.classList.add("btn-glow");
+  btnStart.disabled = false;
+  btnCalibrate.disabled = false;
+  syncInputLabels();
+  syncPlayMode();
+}
+
+document.querySelector<HTMLButtonElement>("#btnRestart")!.onclick = restartRun;
+document.querySelector<HTMLButtonElement>("#btnTitle")!.onclick = returnToTitle;
+document.querySelector<HTMLButtonElement>("#resultsRetry")!.onclick = restartRun;
+document.querySelector<HTMLButtonElement>("#resultsTitle")!.onclick = returnToTitle;
 
 btnStart.onclick = async () => {
   btnStart.disabled = true;
+  inputMode.disabled = true;
   try {
-    await handWind.start();
-    game.start();
-    // hide start screen, show game
-    document.querySelector(".panel")!.classList.add("game-started");
-    document.getElementById("startScreen")!.style.display = "none";
-    document.getElementById("game")!.style.display = "block";
-    btnStart.classList.remove("btn-glow");
-    startMusic(); 
+    if (!input.isRunning()) await input.start();
+    loadBox.hidden = true;
+    showGameScreen();
+    noticeEl.textContent = "";
     btnStop.disabled = false;
   } catch (e) {
     console.error(e);
+    loadBox.hidden = true;
     btnStart.disabled = false;
-    statusEl.textContent = `Failed to start camera (check permissions).`;
+    inputMode.disabled = false;
+    noticeEl.textContent = input === handWind
+      ? `Failed to start camera (check permissions, or pick another input).`
+      : `Failed to start input.`;
   }
 };
 
 btnStop.onclick = async () => {
   btnStop.disabled = true;
-  await handWind.stop();
+  await input.stop();
   btnStart.disabled = false;
+  inputMode.disabled = false;
+  syncInputLabels();
+};
+
+
+// --- replays ---
+
+function syncReplayControls() {
+  const player = game.getReplayPlayer();
+  replayControls.hidden = !player;
+  btnSaveReplay.hidden = !!player;
+  if (!player) return;
+  replaySeek.max = String(player.length());
+  if (document.activeElement !== replaySeek) replaySeek.value = String(player.position());
+  syncReplayTime();
+  btnReplayPause.textContent = player.paused || player.done() ? "\u25B6 Play" : "\u275A\u275A Pause";
+}
+
+// Where the seek slider points (not necessarily where playback is while it's
+// being dragged) and the replay's length.
+function syncReplayTime() {
+  const player = game.getReplayPlayer();
+  if (!player) return;
+  replayTime.textContent = `${formatDuration(seconds(Number(replaySeek.value)))} / ${formatDuration(seconds(player.length()))}`;
+}
+
+btnSaveReplay.onclick = () => {
+  const rec = game.getRecording();
+  if (!rec) return;
+  const blob = new Blob([JSON.stringify(rec)], { type: "application/json" });
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = `windstrike-${rec.seed}.replay.json`;
+  a.click();
+  URL.revokeObjectURL(a.href);
 };
 
+btnLoadReplay.onclick = () => replayFile.click();
+
+replayFile.onchange = async () => {
+  const file = replayFile.files?.[0];
+  replayFile.value = "";
+  if (!file) return;
+  try {
+    game.playReplay(parseReplay(await file.text()));
+    noticeEl.textContent = "";
+    game.getReplayPlayer()!.speed = Number(replaySpeed.value);
+    showGameScreen();
+  } catch (e) {
+    console.error(e);
+    noticeEl.textContent = `Failed to load replay: ${(e as Error).message}`;
+  }
+};
+
+btnReplayPause.onclick = () => {
+  const player = game.getReplayPlayer();
+  if (!player) return;
+  if (player.done()) {
+    game.seekReplay(0);
+    player.paused = false;
+    return;
+  }
+  player.paused = !player.paused;
+};
+
+// dragging only moves the label; the run is rebuilt once the slider is let go
+replaySeek.oninput = () => syncReplayTime();
+replaySeek.onchange = () => game.seekReplay(Number(replaySeek.value));
+replaySpeed.onchange = () => {
+  const player = game.getReplayPlayer();
+  if (player) player.speed = Number(replaySpeed.value);
+};
+
+// --- level packs ---
+
+btnEditor.onclick = () => editor.show(game.getLevelPack());
+
+btnLoadPack.onclick = () => packFile.click();
+
+packFile.onchange = async () => {
+  const file = packFile.files?.[0];
+  packFile.value = "";
+  if (!file) return;
+  try {
+    const pack = await loadLevelPackFile(file);
+    game.setLevelPack(pack);
+    noticeEl.textContent = `Level pack "${pack.name}" loaded (${pack.waves.length} waves)`;
+  } catch (e) {
+    // LevelPackError lists every problem on its own line
+    console.error(e);
+    noticeEl.textContent = (e as Error).message;
+  }
+};
+
+// --- settings ---
+// Everything in the settings screen applies live; difficulty from the next run.
+
+const settingsScreen = new SettingsScreen(document.querySelector<HTMLDivElement>("#settings")!, settings, { listCameras });
+
+function applySettings(s: Settings, changed: (keyof Settings)[]) {
+  if (changed.includes("smoothing")) windCfg.smooth = s.smoothing;
+  if (changed.includes("smoothing") || changed.includes("sensitivity")) profileSelects.forEach((_, i) => applyProfile(i));
+  windCfg.detectHz = s.trackingRate;
+  if (changed.includes("cameraId")) {
+    handWind.setCamera(s.cameraId).catch((e) => {
+      console.error(e);
+      noticeEl.textContent = "Could not open that camera.";
+    });
+  }
+  handWind.gestures.enabled = s.gestures;
+  camBox.classList.toggle("unmirrored", !s.mirror);
+  game.setDebug(s.debug);
+  game.setDifficulty(s.difficulty);
+  game.setDisplay({
+    particleDensity: s.particleDensity, reduceFlashing: s.reduceFlashing, largeText: s.largeText, charGrid: s.charGrid,
+  });
+  if (game.setRenderer(s.renderer) !== s.renderer && changed.includes("renderer")) {
+    noticeEl.textContent = "WebGL isn't available here; drawing with Canvas 2D.";
+  }
+}
+
+settings.on(applySettings);
+applySettings(settings.get(), []);
+btnSettings.onclick = () => settingsScreen.show();
+
+// --- audio mixer ---
+
+let mix = loadMix();
+
+function syncMixControls() {
+  volMaster.value = String(mix.master);
+  volMusic.value = String(mix.music);
+  volSfx.value = String(mix.sfx);
+  muteAll.checked = mix.muted;
+  muteMusic.checked = mix.musicMuted;
+  muteSfx.checked = mix.sfxMuted;
+}
+
+function updateMix(patch: Partial<Mix>) {
+  mix = { ...mix, ...patch };
+  setMix(mix);
+  saveMix(mix);
+  syncMixControls();
+}
+
+setMix(mix);
+syncMixControls();
+
+// audio can only start after a user gesture, so the title theme waits for one
+window.addEventListener("pointerdown", () => game.playTitleMusic(), { once: true });
+window.addEventListener("keydown", () => game.playTitleMusic(), { once: true });
+
+volMaster.oninput = () => updateMix({ master: Number(volMaster.value) });
+volMusic.oninput = () => updateMix({ music: Number(volMusic.value) });
+volSfx.oninput = () => updateMix({ sfx: Number(volSfx.value) });
+muteAll.onchange = () => updateMix({ muted: muteAll.checked });
+muteMusic.onchange = () => updateMix({ musicMuted: muteMusic.checked });
+muteSfx.onchange = () => updateMix({ sfxMuted: muteSfx.checked });
+
+function nudgeMasterVolume(delta: number) {
+  const master = Math.round(Math.max(0, Math.min(1, mix.master + delta)) * 20) / 20;
+  updateMix({ master, muted: false });
+  noticeEl.textContent = `Volume ${Math.round(master * 100)}%`;
+}
+
+function togglePause() {
+  const player = game.getReplayPlayer();
+  if (player) {
+    player.paused = !player.paused;
+    return;
+  }
+  if (game.isStarted()) game.setPaused(!game.isPaused());
+}
+
+// Copies the current frame, as plain text, for pasting into chats and issues.
+function copyFrameText() {
+  navigator.clipboard.writeText(game.frameText()).then(
+    () => { noticeEl.textContent = "Frame copied as text (C)"; },
+    () => { noticeEl.textContent = "Could not copy to the clipboard."; },
+  );
+}
 
 window.addEventListener("keydown", (e) => {
-  if (e.key === "Escape") {
-    const next = !game.isPaused();
-    game.setPaused(next);
-    statusEl.textContent = next ? "Paused — press Esc to resume" : "Running";
+  // don't treat typing (e.g. wave labels in the editor) as shortcuts
+  if (e.target instanceof HTMLInputElement && e.target.type === "text") return;
+
+  if (settingsScreen.isOpen()) {
+    if (e.key === "Escape") settingsScreen.hide();
+    return;
   }
+  // the game is hidden behind the wave editor
+  if (editor.isOpen()) return;
+
+  if (e.key === "Escape") togglePause();
 
   if (e.key === "r" || e.key === "R") {
-    window.location.reload();
+    restartRun();
   }
-});
\ No newline at end of file
+
+  if (e.key === "t" || e.key === "T") {
+    if (game.isStarted()) returnToTitle();
+  }
+
+  if (e.key === "m" || e.key === "M") {
+    updateMix({ muted: !mix.muted });
+    noticeEl.textContent = mix.muted ? "Sound muted (M)" : "Sound on";
+  }
+
+  if (e.key === "n" || e.key === "N") {
+    updateMix({ musicMuted: !mix.musicMuted });
+    noticeEl.textContent = mix.musicMuted ? "Music muted (N)" : "Music on";
+  }
+
+  if ((e.key === "c" || e.key === "C") && game.isStarted()) copyFrameText();
+
+  if (e.key === "-" || e.key === "_") nudgeMasterVolume(-0.1);
+  if (e.key === "=" || e.key === "+") nudgeMasterVolume(0.1);
+});
+
+// --- hand gestures (camera only) ---
+// Mid-run only pause and burst are live; swipes and thumbs up act as menu
+// controls while paused, after game over or on the title screen.
+
+const gestures = handWind.gestures;
+
+function inMenu() {
+  return !game.isStarted() || game.isPaused() || game.getSimulation().isOver();
+}
+
+gestures.on("openPalm", () => {
+  if (game.isStarted() && !game.getSimulation().isOver()) togglePause();
+});
+
+gestures.on("fist", (e) => {
+  if (game.isStarted() && !inMenu()) game.triggerBurst(handWind.getHandCount() > 1 ? e.hand : 0);
+});
+
+gestures.on("thumbsUp", () => {
+  if (!game.isStarted()) {
+    if (!btnStart.disabled) btnStart.click();
+  } else if (game.getSimulation().isOver()) {
+    restartRun();
+  } else if (game.isPaused()) {
+    togglePause();
+  }
+});
+
+gestures.on("swipeRight", () => {
+  if (game.isStarted() && inMenu()) restartRun();
+});
+
+gestures.on("swipeLeft", () => {
+  if (game.isStarted() && inMenu()) returnToTitle();
+});
+
+// Offline support: the service worker is generated by the production build
+// (scripts/viteOffline.mjs), so there's nothing to register in dev.
+if (import.meta.env.PROD && "serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch((e) => {
+      console.warn("Service worker registration failed", e);
+    });
+  });
+}
@@ -0,0 +1,45 @@
+// Self-hosted MediaPipe assets. The WASM fileset is copied out of the pinned
+// @mediapipe/tasks-vision package by the Vite build (scripts/viteOffline.mjs)
+// and the hand model is fetched into public/models by scripts/fetch-model.mjs,
+// so nothing is loaded from a CDN at runtime.
+
+export const MEDIAPIPE_WASM_BASE = `${import.meta.env.BASE_URL}mediapipe/wasm`;
+export const HAND_MODEL_URL = `${import.meta.env.BASE_URL}models/hand_landmarker.task`;
+
+export type LoadStage = "wasm" | "model";
+
+export type LoadProgress = {
+  stage: LoadStage;
+  loaded: number; // bytes
+  total: number;  // bytes, 0 if the server didn't say
+};
+
+// fetch() that reports download progress and returns the whole body.
+export async function fetchWithProgress(
+  url: string,
+  onProgress?: (loaded: number, total: number) => void,
+): Promise<Uint8Array> {
+  const res = await fetch(url);
+  if (!res.ok || !res.body) throw new Error(`Failed to load ${url} (HTTP ${res.status})`);
+  const total = Number(res.headers.get("Content-Length")) || 0;
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  onProgress?.(0, total);
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress?.(loaded, total);
+  }
+
+  const out = new Uint8Array(loaded);
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+}
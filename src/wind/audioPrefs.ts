@@ -0,0 +1,37 @@
+// Mixer settings (volumes and mutes) persisted in localStorage.
+
+import { DEFAULT_MIX } from "./sounds";
+import type { Mix } from "./sounds";
+
+const STORAGE_KEY = "windstrike.audio.v1";
+
+const LEVELS = ["master", "music", "sfx"] as const;
+const MUTES = ["muted", "musicMuted", "sfxMuted"] as const;
+
+// Whatever was saved, field by field; anything missing or broken falls back
+// to the default so a bad value never silences the game for good.
+export function loadMix(): Mix {
+  const mix = { ...DEFAULT_MIX };
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") as Partial<Record<keyof Mix, unknown>>;
+    for (const k of LEVELS) {
+      const v = raw[k];
+      if (typeof v === "number" && Number.isFinite(v)) mix[k] = Math.max(0, Math.min(1, v));
+    }
+    for (const k of MUTES) {
+      const v = raw[k];
+      if (typeof v === "boolean") mix[k] = v;
+    }
+  } catch {
+    // keep the defaults
+  }
+  return mix;
+}
+
+export function saveMix(mix: Mix) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(mix));
+  } catch (e) {
+    console.warn("Could not save audio settings", e);
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { makeBoss, updateBoss } from "./bosses";
+import type { BossContext } from "./bosses";
+import { Rng } from "./rng";
+import { steps } from "./clock";
+
+// A context that only counts what the boss fires.
+function context(slow: number) {
+  const fired = { volleys: 0 };
+  const ctx: BossContext = {
+    rng: new Rng(1), laneEdge: 14, slow,
+    spawnMinion() {},
+    fireProjectile() { fired.volleys++; },
+    phaseChanged() {},
+  };
+  return { ctx, fired };
+}
+
+describe("updateBoss", () => {
+  it("moves and attacks at half rate under the slow power-up", () => {
+    const runs = [1, 0.5].map(slow => {
+      const b = makeBoss(4, 1, new Rng(7));
+      const { ctx, fired } = context(slow);
+      const z0 = b.z;
+      updateBoss(b, ctx);
+      const approach = z0 - b.z;
+      b.z = b.def.phases[0].holdZ;
+      for (let i = 0; i < steps(30); i++) updateBoss(b, ctx);
+      return { approach, volleys: fired.volleys };
+    });
+    expect(runs[1].approach).toBeCloseTo(runs[0].approach / 2);
+    expect(runs[0].volleys).toBeGreaterThan(0);
+    expect(runs[1].volleys).toBe(runs[0].volleys / 2);
+  });
+});
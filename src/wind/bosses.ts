@@ -0,0 +1,239 @@
+// Bosses: large multi-line ASCII enemies that close out every BOSS_EVERY-th
+// wave. A boss has several HP phases; each phase has its own movement and a
+// set of attack patterns on timers (`every` is in seconds):
+//   minions  - spawn regular enemies around the boss
+//   volley   - fire projectile glyphs down the lane (blow them back with sand
+//              and they hurt the boss instead)
+//   sweep    - dash across the lane
+//   shield   - raise a shield that only focused sand can break
+// The simulation owns the Boss object and calls updateBoss() once per step
+// through a small BossContext, so this module stays free of Simulation.
+
+import { steps } from "./clock";
+import type { Rng } from "./rng";
+import type { EnemyKind } from "./sim";
+
+export const BOSS_EVERY = 5;     // waves 5, 10, 15, ... end with a boss
+export const BOSS_DEPTH = 1.6;   // hit box half-depth (lane units)
+
+export type BossAttack =
+  | { type: "minions"; kind: EnemyKind; count: number; every: number }
+  | { type: "volley"; count: number; every: number; speed: number; damage: number }
+  | { type: "sweep"; every: number; speed: number }
+  | { type: "shield"; every: number; hp: number };
+
+export type BossPhase = {
+  at: number;         // phase starts once hp / hpMax drops to this
+  holdZ: number;      // distance the boss advances to and holds
+  strafeSpeed: number;
+  attacks: BossAttack[];
+};
+
+export type BossDef = {
+  name: string;
+  art: string[];      // multi-line body, top to bottom
+  color: string;
+  hp: number;
+  halfWidth: number;  // hit box half-width (lane units)
+  speed: number;      // approach speed
+  score: number;
+  phases: BossPhase[];
+};
+
+export const BOSSES: BossDef[] = [
+  {
+    name: "DUNE GOLEM",
+    art: [
+      "  _/###\\_  ",
+      " [ o   o ] ",
+      "/|  ___  |\\",
+      " |_|   |_| ",
+    ],
+    color: "#d9a066",
+    hp: 2400,
+    halfWidth: 2.6,
+    speed: 0.05,
+    score: 40,
+    phases: [
+      { at: 1, holdZ: 20, strafeSpeed: 0.03, attacks: [
+        { type: "minions", kind: "small", count: 2, every: 4 },
+        { type: "volley", count: 1, every: 2.5, speed: 0.09, damage: 8 },
+      ] },
+      { at: 0.6, holdZ: 18, strafeSpeed: 0.05, attacks: [
+        { type: "shield", every: 10, hp: 300 },
+        { type: "volley", count: 2, every: 2, speed: 0.1, damage: 8 },
+      ] },
+      { at: 0.3, holdZ: 16, strafeSpeed: 0.07, attacks: [
+        { type: "minions", kind: "rusher", count: 2, every: 5 },
+        { type: "sweep", every: 4.33, speed: 0.25 },
+        { type: "volley", count: 3, every: 1.83, speed: 0.11, damage: 8 },
+      ] },
+    ],
+  },
+  {
+    name: "STORM HYDRA",
+    art: [
+      " (o)  (o)  (o) ",
+      "  \\\\  ||  //  ",
+      "   \\\\_||_//   ",
+      "   {~~~~~~}   ",
+      "    \\____/    ",
+    ],
+    color: "#66cfff",
+    hp: 3200,
+    halfWidth: 3.2,
+    speed: 0.05,
+    score: 60,
+    phases: [
+      { at: 1, holdZ: 21, strafeSpeed: 0.05, attacks: [
+        { type: "volley", count: 3, every: 2.33, speed: 0.1, damage: 7 },
+        { type: "sweep", every: 6, speed: 0.2 },
+      ] },
+      { at: 0.5, holdZ: 18, strafeSpeed: 0.07, attacks: [
+        { type: "minions", kind: "dodger", count: 2, every: 4.33 },
+        { type: "volley", count: 4, every: 2, speed: 0.12, damage: 7 },
+        { type: "shield", every: 9, hp: 380 },
+      ] },
+    ],
+  },
+  {
+    name: "SAND OVERLORD",
+    art: [
+      "  /\\ /\\ /\\  ",
+      " <[ >_<  ]> ",
+      "==|#####|== ",
+      "  |#####|   ",
+      "  /_/ \\_\\   ",
+    ],
+    color: "#ff7f7f",
+    hp: 4000,
+    halfWidth: 3,
+    speed: 0.05,
+    score: 80,
+    phases: [
+      { at: 1, holdZ: 22, strafeSpeed: 0.04, attacks: [
+        { type: "minions", kind: "shielded", count: 1, every: 5.33 },
+        { type: "volley", count: 2, every: 2, speed: 0.1, damage: 9 },
+      ] },
+      { at: 0.66, holdZ: 19, strafeSpeed: 0.06, attacks: [
+        { type: "shield", every: 8, hp: 450 },
+        { type: "sweep", every: 5, speed: 0.24 },
+        { type: "volley", count: 3, every: 1.83, speed: 0.11, damage: 9 },
+      ] },
+      { at: 0.33, holdZ: 15, strafeSpeed: 0.08, attacks: [
+        { type: "minions", kind: "rusher", count: 3, every: 4.67 },
+        { type: "volley", count: 5, every: 1.67, speed: 0.13, damage: 9 },
+      ] },
+    ],
+  },
+];
+
+export type Boss = {
+  def: BossDef;
+  x: number;
+  z: number;
+  hp: number;
+  hpMax: number;
+  phase: number;
+  flash: number;
+  strafeDir: number;
+  sweepTarget: number | null; // lane x the boss is dashing to
+  shieldHP: number;
+  shieldHPMax: number;
+  shieldFlash: number;
+  timers: number[];           // steps since each attack of the current phase
+};
+
+// What a boss can do to the world.
+export type BossContext = {
+  rng: Rng;
+  laneEdge: number;
+  readonly slow: number; // movement and attack timer multiplier (the slow power-up)
+  spawnMinion(kind: EnemyKind, x: number, z: number): void;
+  fireProjectile(x: number, z: number, speed: number, damage: number): void;
+  phaseChanged(phase: number): void;
+};
+
+export function isBossWave(index: number) {
+  return (index + 1) % BOSS_EVERY === 0;
+}
+
+// Boss for wave `index`; bosses cycle and get tougher each time round.
+export function makeBoss(index: number, hpScale: number, rng: Rng): Boss {
+  const n = Math.floor((index + 1) / BOSS_EVERY) - 1;
+  const def = BOSSES[n % BOSSES.length];
+  const hp = def.hp * hpScale * (1 + Math.floor(n / BOSSES.length) * 0.5);
+  return {
+    def, x: rng.range(-3, 3), z: 40, hp, hpMax: hp, phase: 0, flash: steps(0.33),
+    strafeDir: rng.chance(0.5) ? -1 : 1, sweepTarget: null,
+    shieldHP: 0, shieldHPMax: 0, shieldFlash: 0,
+    timers: def.phases[0].attacks.map(() => 0),
+  };
+}
+
+function runAttack(b: Boss, a: BossAttack, ctx: BossContext) {
+  switch (a.type) {
+    case "minions":
+      for (let i = 0; i < a.count; i++) {
+        const x = Math.max(-ctx.laneEdge + 1, Math.min(ctx.laneEdge - 1, b.x + ctx.rng.range(-4, 4)));
+        ctx.spawnMinion(a.kind, x, b.z - 1);
+      }
+      break;
+    case "volley":
+      for (let i = 0; i < a.count; i++) {
+        const spread = a.count > 1 ? (i / (a.count - 1) - 0.5) * b.def.halfWidth * 2 : 0;
+        ctx.fireProjectile(b.x + spread, b.z - BOSS_DEPTH, a.speed, a.damage);
+      }
+      break;
+    case "sweep":
+      b.sweepTarget = b.x > 0 ? -ctx.laneEdge + b.def.halfWidth : ctx.laneEdge - b.def.halfWidth;
+      break;
+    case "shield":
+      if (b.shieldHP <= 0) { b.shieldHP = a.hp; b.shieldHPMax = a.hp; b.shieldFlash = steps(0.2); }
+      break;
+  }
+}
+
+export function updateBoss(b: Boss, ctx: BossContext) {
+  // phase from remaining HP
+  const frac = b.hp / b.hpMax;
+  let phase = b.phase;
+  while (phase + 1 < b.def.phases.length && frac <= b.def.phases[phase + 1].at) phase++;
+  if (phase !== b.phase) {
+    b.phase = phase;
+    b.timers = b.def.phases[phase].attacks.map(() => 0);
+    b.flash = steps(0.33);
+    ctx.phaseChanged(phase);
+  }
+  const p = b.def.phases[b.phase];
+
+  // approach, then hold
+  if (b.z > p.holdZ) b.z = Math.max(p.holdZ, b.z - b.def.speed * ctx.slow);
+
+  // sweep dash overrides the slow strafe
+  const edge = ctx.laneEdge - b.def.halfWidth;
+  if (b.sweepTarget !== null) {
+    const sweep = p.attacks.find(a => a.type === "sweep");
+    const speed = (sweep?.type === "sweep" ? sweep.speed : 0.2) * ctx.slow;
+    const d = b.sweepTarget - b.x;
+    if (Math.abs(d) <= speed) { b.x = b.sweepTarget; b.sweepTarget = null; }
+    else b.x += Math.sign(d) * speed;
+  } else {
+    b.x += b.strafeDir * p.strafeSpeed * ctx.slow;
+    if (b.x > edge) { b.x = edge; b.strafeDir = -1; }
+    if (b.x < -edge) { b.x = -edge; b.strafeDir = 1; }
+  }
+
+  // attacks only once in range
+  if (b.z <= p.holdZ + 2) {
+    p.attacks.forEach((a, i) => {
+      if ((b.timers[i] += ctx.slow) >= steps(a.every)) {
+        b.timers[i] = 0;
+        runAttack(b, a, ctx);
+      }
+    });
+  }
+
+  b.flash = Math.max(0, b.flash - 1);
+  b.shieldFlash = Math.max(0, b.shieldFlash - 1);
+}
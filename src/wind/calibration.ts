@@ -0,0 +1,271 @@
+// Guided calibration: walks one hand through still / wide / pinch / push /
+// sweep, measures the raw HandWind readings for each and turns them into a
+// CalibrationProfile (spread range, push strength, pointer range, pump dead
+// zone). Markup lives in index.html (#calibration).
+
+import type { HandWind } from "./handWind";
+import type { CalibrationProfile } from "./profiles";
+import { statRow } from "./scoreScreens";
+
+type StepId = "still" | "wide" | "pinch" | "push" | "sweep";
+
+type Step = { id: StepId; title: string; hint: string; ms: number };
+
+const STEPS: Step[] = [
+  { id: "still", title: "Hold still", hint: "Hand up at your usual distance, index finger out, don't move", ms: 2000 },
+  { id: "wide", title: "Fingers wide", hint: "Spread your index and middle fingers as wide as is comfortable", ms: 2000 },
+  { id: "pinch", title: "Pinch", hint: "Hold index and middle fingertips together", ms: 2000 },
+  { id: "push", title: "Push", hint: "Push your hand toward the camera a few times, like you're playing", ms: 3000 },
+  { id: "sweep", title: "Sweep", hint: "Sweep your hand all the way left and right", ms: 3000 },
+];
+const GET_READY_MS = 1200;
+
+export type CalibrationOptions = {
+  smooth: () => number;       // current hand smoothing, kept as-is in the profile
+  onSave: (profile: CalibrationProfile, player: number) => void;
+  onClose?: () => void;
+};
+
+function q<T extends Element>(root: ParentNode, sel: string): T {
+  const el = root.querySelector<T>(sel);
+  if (!el) throw new Error(`Calibration markup is missing ${sel}`);
+  return el;
+}
+
+function percentile(xs: number[], p: number) {
+  if (xs.length === 0) return 0;
+  const sorted = [...xs].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+}
+
+function clamp(v: number, lo: number, hi: number) {
+  return Math.max(lo, Math.min(hi, v));
+}
+
+export function cameraDistanceLabel(handSize: number) {
+  if (handSize < 0.07) return "far — move closer";
+  if (handSize > 0.22) return "very close";
+  return "good";
+}
+
+type Samples = {
+  stillWind: number[];
+  handSize: number[];
+  wide: number[];
+  pinch: number[];
+  push: number[];
+  sweep: number[];
+};
+
+function emptySamples(): Samples {
+  return { stillWind: [], handSize: [], wide: [], pinch: [], push: [], sweep: [] };
+}
+
+export class CalibrationWizard {
+  private root: HTMLElement;
+  private hands: HandWind;
+  private opts: CalibrationOptions;
+  private stepEl: HTMLElement;
+  private hintEl: HTMLElement;
+  private progress: HTMLProgressElement;
+  private meterEl: HTMLElement;
+  private resultEl: HTMLElement;
+  private statsEl: HTMLElement;
+  private nameInput: HTMLInputElement;
+  private beginBtn: HTMLButtonElement;
+  private playerSel: HTMLSelectElement;
+
+  private player = 0;
+  private stepIndex = -1;
+  private stepStart = 0;
+  private measured = 0; // ms of the current step with the hand in view
+  private lastT = 0;
+  private samples = emptySamples();
+  private profile: CalibrationProfile | null = null;
+  private raf = 0;
+  private gesturesWereOn = true;
+
+  constructor(root: HTMLElement, hands: HandWind, opts: CalibrationOptions) {
+    this.root = root;
+    this.hands = hands;
+    this.opts = opts;
+    this.stepEl = q(root, "#calStep");
+    this.hintEl = q(root, "#calHint");
+    this.progress = q(root, "#calProgress");
+    this.meterEl = q(root, "#calMeter");
+    this.resultEl = q(root, "#calResult");
+    this.statsEl = q(root, "#calStats");
+    this.nameInput = q(root, "#calName");
+    this.beginBtn = q(root, "#calBegin");
+    this.playerSel = q(root, "#calPlayer");
+
+    this.beginBtn.onclick = () => this.begin();
+    q<HTMLButtonElement>(root, "#calCancel").onclick = () => this.hide();
+    q<HTMLButtonElement>(root, "#calSave").onclick = () => this.save();
+    this.nameInput.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") this.save();
+    });
+  }
+
+  isOpen() {
+    return !this.root.hidden;
+  }
+
+  show(player = 0, name = "") {
+    this.player = player;
+    this.playerSel.value = String(player);
+    q<HTMLElement>(this.root, "#calPlayerRow").hidden = this.hands.getHandCount() < 2;
+    this.nameInput.value = name;
+    this.stepIndex = -1;
+    this.profile = null;
+    this.stepEl.textContent = "Calibrate your hand";
+    this.hintEl.textContent = "Five short steps, about 15 seconds. Sit or stand where you'll play.";
+    this.progress.value = 0;
+    this.meterEl.textContent = "";
+    this.resultEl.hidden = true;
+    this.beginBtn.hidden = false;
+    this.beginBtn.textContent = "Begin";
+    // a held pose during calibration must not start the game
+    this.gesturesWereOn = this.hands.gestures.enabled;
+    this.hands.gestures.enabled = false;
+    this.root.hidden = false;
+  }
+
+  hide() {
+    cancelAnimationFrame(this.raf);
+    this.stepIndex = -1;
+    this.hands.gestures.enabled = this.gesturesWereOn;
+    this.root.hidden = true;
+    this.opts.onClose?.();
+  }
+
+  private begin() {
+    this.player = Number(this.playerSel.value) || 0;
+    this.samples = emptySamples();
+    this.profile = null;
+    this.resultEl.hidden = true;
+    this.beginBtn.hidden = true;
+    this.startStep(0);
+    this.lastT = performance.now();
+    cancelAnimationFrame(this.raf);
+    this.raf = requestAnimationFrame(this.tick);
+  }
+
+  private startStep(i: number) {
+    this.stepIndex = i;
+    this.stepStart = performance.now();
+    this.measured = 0;
+    const step = STEPS[i];
+    this.stepEl.textContent = `${i + 1}/${STEPS.length} ${step.title}`;
+    this.hintEl.textContent = step.hint;
+    this.progress.value = 0;
+  }
+
+  private tick = () => {
+    if (this.stepIndex < 0) return;
+    const now = performance.now();
+    const dt = now - this.lastT;
+    this.lastT = now;
+
+    const step = STEPS[this.stepIndex];
+    const reading = this.hands.getReading(this.player);
+    const ready = now - this.stepStart >= GET_READY_MS;
+
+    if (!reading) {
+      this.meterEl.textContent = "Hand not visible";
+    } else if (!ready) {
+      this.meterEl.textContent = "Get ready…";
+    } else {
+      this.measured += dt;
+      this.record(step.id);
+      this.meterEl.textContent = `distance ${cameraDistanceLabel(reading.handSize)}`;
+    }
+    this.progress.value = Math.min(1, this.measured / step.ms);
+
+    if (this.measured >= step.ms) {
+      if (this.stepIndex + 1 < STEPS.length) this.startStep(this.stepIndex + 1);
+      else return this.finish();
+    }
+    this.raf = requestAnimationFrame(this.tick);
+  };
+
+  private record(id: StepId) {
+    const r = this.hands.getReading(this.player)!;
+    const s = this.samples;
+    s.handSize.push(r.handSize);
+    if (id === "still") s.stillWind.push(Math.abs(this.hands.getHand(this.player).getWind().z));
+    if (id === "wide") s.wide.push(r.fingerDist);
+    if (id === "pinch") s.pinch.push(r.fingerDist);
+    if (id === "push") s.push.push(Math.abs(r.tipVz));
+    if (id === "sweep") s.sweep.push(r.tipX);
+  }
+
+  private finish() {
+    this.stepIndex = -1;
+    const s = this.samples;
+    const wide = percentile(s.wide, 0.5);
+    const pinch = percentile(s.pinch, 0.9);
+
+    if (wide - pinch < 0.02) {
+      this.stepEl.textContent = "Couldn't tell wide from pinched";
+      this.hintEl.textContent = "Make the difference bigger and try again.";
+      this.beginBtn.hidden = false;
+      this.beginBtn.textContent = "Try again";
+      return;
+    }
+
+    // keep a sensible minimum range so a tiny sweep can't make aiming twitchy
+    let pointerMin = percentile(s.sweep, 0.05);
+    let pointerMax = percentile(s.sweep, 0.95);
+    if (pointerMax - pointerMin < 0.3) {
+      const mid = (pointerMin + pointerMax) / 2;
+      pointerMin = clamp(mid - 0.15, 0, 0.7);
+      pointerMax = pointerMin + 0.3;
+    }
+
+    const handSize = percentile(s.handSize, 0.5);
+    this.profile = {
+      name: "",
+      date: new Date().toISOString(),
+      hand: {
+        maxWind: clamp(percentile(s.push, 0.95) * 0.8, 8, 40),
+        smooth: this.opts.smooth(),
+        spreadMin: pinch,
+        spreadMax: wide,
+        spreadCurve: 0.8,
+        pointerMin,
+        pointerMax,
+      },
+      // hand jitter while still, with some margin (before sensitivity)
+      deadZone: clamp(percentile(s.stillWind, 0.9) * 1.25, 0.025, 0.5),
+      handSize,
+    };
+
+    const p = this.profile;
+    this.stepEl.textContent = "Done";
+    this.hintEl.textContent = "Name this profile to save it.";
+    this.meterEl.textContent = "";
+    this.statsEl.replaceChildren(
+      statRow("SPREAD", `${p.hand.spreadMin.toFixed(3)} – ${p.hand.spreadMax.toFixed(3)}`),
+      statRow("PUSH", p.hand.maxWind.toFixed(1)),
+      statRow("AIM", `${Math.round(p.hand.pointerMin * 100)}% – ${Math.round(p.hand.pointerMax * 100)}%`),
+      statRow("DEAD ZONE", p.deadZone.toFixed(2)),
+      statRow("DISTANCE", cameraDistanceLabel(handSize)),
+    );
+    this.resultEl.hidden = false;
+    this.beginBtn.hidden = false;
+    this.beginBtn.textContent = "Redo";
+    this.nameInput.focus();
+  }
+
+  private save() {
+    if (!this.profile) return;
+    const name = this.nameInput.value.trim();
+    if (!name) {
+      this.nameInput.focus();
+      return;
+    }
+    this.opts.onSave({ ...this.profile, name }, this.player);
+    this.hide();
+  }
+}
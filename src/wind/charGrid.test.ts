@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { CharGrid, SAND_RAMP, cellWidth, textWidth } from "./charGrid";
+import { SOLO_SAND } from "./palette";
+import { Simulation } from "./sim";
+
+describe("CharGrid", () => {
+  it("writes text into cells and trims trailing spaces in toText()", () => {
+    const g = new CharGrid(8, 3);
+    g.text(1, 0, "abc", "#ff0000");
+    g.put(7, 2, "z");
+    expect(g.toText()).toBe(" abc\n\n       z");
+    expect(g.colors[1]).toBe("#ff0000");
+    expect(g.colors[7]).toBe("");
+  });
+
+  it("drops whatever falls off the grid", () => {
+    const g = new CharGrid(4, 2);
+    g.text(2, 0, "wxyz");
+    g.put(-1, 1, "a");
+    g.put(0, 2, "b");
+    expect(g.toText()).toBe("  wx\n");
+  });
+
+  it("centres text on a cell", () => {
+    const g = new CharGrid(9, 1);
+    g.centred(4, 0, "abc");
+    expect(g.toText()).toBe("   abc");
+  });
+
+  it("gives wide glyphs two cells and never leaves half of one", () => {
+    const g = new CharGrid(6, 1);
+    g.text(0, 0, "漢x");
+    expect(g.chars.slice(0, 3)).toEqual(["漢", "", "x"]);
+    expect(g.toText()).toBe("漢x");
+    // overwriting either half blanks the other
+    g.put(1, 0, "a");
+    expect(g.chars.slice(0, 3)).toEqual([" ", "a", "x"]);
+    g.put(3, 0, "字");
+    g.put(3, 0, "b");
+    expect(g.chars.slice(3, 5)).toEqual(["b", " "]);
+    // no room for the right half in the last column
+    g.put(5, 0, "字");
+    expect(g.chars[5]).toBe(" ");
+  });
+
+  it("clamps its size to at least one cell", () => {
+    const g = new CharGrid(0, -3);
+    expect([g.cols, g.rows]).toEqual([1, 1]);
+  });
+
+  it("renders a simulation: horizon, sand and a frame of the right size", () => {
+    const sim = new Simulation({ seed: 1, viewWidth: 800 });
+    const g = new CharGrid(80, 30);
+    g.render(sim);
+    const lines = g.toText().split("\n");
+    expect(lines).toHaveLength(30);
+    expect(lines.some(l => /^-{80}$/.test(l))).toBe(true);
+    // sand shares glyphs with the floor, so it's told apart by colour
+    const sand = () => g.chars.filter((ch, i) => g.colors[i] === SOLO_SAND && SAND_RAMP.includes(ch));
+    expect(sand()).toHaveLength(0);
+    for (let i = 0; i < 120; i++) sim.step({ wx: 0, wz: -3, spread: 0.5, pointerX: 0.5 });
+    g.render(sim);
+    expect(sand().length).toBeGreaterThan(0);
+    // the same state always draws the same frame
+    const again = new CharGrid(80, 30);
+    again.render(sim);
+    expect(again.toText()).toBe(g.toText());
+  });
+});
+
+describe("cellWidth", () => {
+  it("counts East Asian wide characters and emoji as two columns", () => {
+    expect(cellWidth("a")).toBe(1);
+    expect(cellWidth("ಠ")).toBe(1);
+    expect(cellWidth("漢")).toBe(2);
+    expect(cellWidth("한")).toBe(2);
+    expect(cellWidth("🙂")).toBe(2);
+    expect(textWidth("(ಠ益ಠ)")).toBe(6);
+  });
+});
@@ -0,0 +1,215 @@
+// Terminal-style view of a Simulation: the scene rasterised into a fixed
+// grid of monospace cells, one character and colour each. Sand becomes a
+// density ramp (more grains in a cell, heavier glyph), the floor a depth ramp,
+// and enemies, bosses, pickups and shots are snapped to whole cells. Game
+// draws the grid in its character grid mode, and toText() turns any frame
+// into plain text. Nothing here touches the DOM, so it runs in Node too.
+
+import { VIEW, project } from "./projection";
+import { PLAYER_COLORS, SOLO_SAND } from "./palette";
+import { POWER_UPS } from "./powerups";
+import { enemySprite, enemyType } from "./enemies";
+import type { Simulation } from "./sim";
+
+// sparse to dense; a cell's grain count picks the step
+export const SAND_RAMP = ".:-=+*#%@";
+
+// a cell's size in the pixels the perspective is worked out in; 1:2 like a
+// terminal font
+export const CELL_W = 10;
+export const CELL_H = 20;
+
+// the Canvas renderer's horizon (0.35) and lane lines (0.18) pre-blended over
+// the background, since a cell has no alpha
+const HORIZON_COLOR = "#585d63";
+const LANE_COLOR = "#33373c";
+// sand that moved further than this in a step was recycled: no interpolation
+const SNAP_DIST = 4;
+
+type Pos = { x: number; z: number };
+
+export type GridViewOptions = {
+  flashing?: boolean;      // show hit flashes (default true)
+  pos?: (o: Pos) => Pos;   // where to place movers (default: where they are)
+  alpha?: number;          // sand: how far between its last two steps (default 1)
+};
+
+export class CharGrid {
+  readonly cols: number;
+  readonly rows: number;
+  // row-major; "" is the right half of a double-width glyph
+  readonly chars: string[];
+  // "" = the default colour
+  readonly colors: string[];
+  private grains: Uint16Array;
+  private owners: Uint16Array; // grains in the cell from player 2
+
+  constructor(cols: number, rows: number) {
+    this.cols = Math.max(1, Math.floor(cols));
+    this.rows = Math.max(1, Math.floor(rows));
+    const n = this.cols * this.rows;
+    this.chars = new Array<string>(n).fill(" ");
+    this.colors = new Array<string>(n).fill("");
+    this.grains = new Uint16Array(n);
+    this.owners = new Uint16Array(n);
+  }
+
+  clear() {
+    this.chars.fill(" ");
+    this.colors.fill("");
+  }
+
+  // One character at a cell; double-width glyphs (CJK, emoji) take two.
+  // Anything off the grid is dropped, and a wide glyph cut in half by an
+  // overwrite leaves a space rather than a broken cell.
+  put(col: number, row: number, ch: string, color = "") {
+    const wide = cellWidth(ch) === 2;
+    if (row < 0 || row >= this.rows || col < 0 || col + (wide ? 1 : 0) >= this.cols) return;
+    const i = row * this.cols + col;
+    this.release(i);
+    if (wide) this.release(i + 1);
+    this.chars[i] = ch;
+    this.colors[i] = color;
+    if (wide) { this.chars[i + 1] = ""; this.colors[i + 1] = color; }
+  }
+
+  // Text starting at a cell, one code point per cell (two if wide).
+  text(col: number, row: number, s: string, color = "") {
+    for (const ch of s) {
+      this.put(col, row, ch, color);
+      col += cellWidth(ch);
+    }
+  }
+
+  // Text centred on a cell.
+  centred(col: number, row: number, s: string, color = "") {
+    this.text(col - Math.floor(textWidth(s) / 2), row, s, color);
+  }
+
+  // The frame as plain text, trailing spaces trimmed.
+  toText(): string {
+    const lines: string[] = [];
+    for (let r = 0; r < this.rows; r++) {
+      lines.push(this.chars.slice(r * this.cols, (r + 1) * this.cols).join("").trimEnd());
+    }
+    return lines.join("\n");
+  }
+
+  // Rasterises the world (floor, sand, pickups, boss, enemies, shots) into
+  // the grid, replacing what was there.
+  render(sim: Simulation, opts: GridViewOptions = {}) {
+    const flashing = opts.flashing ?? true;
+    const pos = opts.pos ?? ((o: Pos) => o);
+    this.clear();
+    this.renderFloor(sim.laneEdge);
+    this.renderSand(sim, opts.alpha ?? 1);
+
+    for (const u of sim.pickups) {
+      const c = this.cellAt(pos(u));
+      const def = POWER_UPS[u.kind];
+      this.centred(c.col, c.row, def.glyph, def.color);
+    }
+
+    const b = sim.boss;
+    if (b) {
+      const c = this.cellAt(pos(b));
+      const color = flashing && b.flash > 0 ? "#ff9a9a" : b.def.color;
+      const top = c.row - Math.floor(b.def.art.length / 2);
+      b.def.art.forEach((line, i) => this.centred(c.col, top + i, line, color));
+    }
+
+    for (const e of [...sim.enemies].sort((a, b) => b.z - a.z)) {
+      const c = this.cellAt(pos(e));
+      const def = sim.pack.enemies[e.kind];
+      const lines = enemySprite(e, def, flashing);
+      const color = flashing && e.flash > 0 ? "#ff9a9a" : def.color;
+      const top = c.row - Math.floor(lines.length / 2);
+      lines.forEach((line, i) => this.centred(c.col, top + i, line, color));
+      // a raised shield brackets the face
+      const shield = enemyType(e.kind).shield?.(e);
+      if (shield) {
+        const half = Math.ceil(textWidth(lines[0]) / 2);
+        const sc = shield.flash && flashing ? "#ffe066" : "#66cfff";
+        this.put(c.col - half - 1, top, "{", sc);
+        this.put(c.col + half, top, "}", sc);
+      }
+    }
+
+    for (const pr of sim.projectiles) {
+      const c = this.cellAt(pos(pr));
+      if (pr.reflected) this.put(c.col, c.row, "*", sim.players.length > 1 ? PLAYER_COLORS[pr.owner] : "#ffe066");
+      else this.centred(c.col, c.row, pr.glyph, pr.age % 10 < 5 ? "#ff5555" : "#ff9a4c");
+    }
+  }
+
+  // Horizon row, then each lane line down the floor: dots far away, colons
+  // nearer, and slanted strokes close up.
+  private renderFloor(laneEdge: number) {
+    const W = this.cols * CELL_W, H = this.rows * CELL_H;
+    const horizonY = H * VIEW.horizonPct;
+    const horizonRow = Math.floor(horizonY / CELL_H);
+    for (let col = 0; col < this.cols; col++) this.put(col, horizonRow, "-", HORIZON_COLOR);
+    for (let row = horizonRow + 1; row < this.rows; row++) {
+      const p = ((row + 0.5) * CELL_H - horizonY) / (H * VIEW.floorSpanPct);
+      const z = VIEW.fov / p - VIEW.zNear;
+      for (let x = -laneEdge; x <= laneEdge; x += 2) {
+        const col = Math.floor((W * 0.5 + x * p * VIEW.xScale) / CELL_W);
+        const ch = z > 60 ? "." : z > 20 ? ":" : x < 0 ? "/" : x > 0 ? "\\" : "|";
+        this.put(col, row, ch, LANE_COLOR);
+      }
+    }
+  }
+
+  private renderSand(sim: Simulation, alpha: number) {
+    const ps = sim.particles;
+    const W = this.cols * CELL_W, H = this.rows * CELL_H;
+    this.grains.fill(0);
+    this.owners.fill(0);
+    for (let i = 0; i < ps.count; i++) {
+      let x = ps.x[i], z = ps.z[i];
+      const dx = x - ps.px[i], dz = z - ps.pz[i];
+      if (Math.abs(dx) <= SNAP_DIST && Math.abs(dz) <= SNAP_DIST) { x -= dx * (1 - alpha); z -= dz * (1 - alpha); }
+      const s = project(x, z, W, H);
+      const col = Math.floor(s.screenX / CELL_W), row = Math.floor(s.screenY / CELL_H);
+      if (col < 0 || col >= this.cols || row < 0 || row >= this.rows) continue;
+      const c = row * this.cols + col;
+      if (this.grains[c] < 0xffff) this.grains[c]++;
+      if (ps.owner[i] === 1 && this.owners[c] < 0xffff) this.owners[c]++;
+    }
+    const multi = sim.players.length > 1;
+    for (let c = 0; c < this.grains.length; c++) {
+      const n = this.grains[c];
+      if (n === 0) continue;
+      const step = Math.max(0, Math.min(SAND_RAMP.length - 1, Math.floor(Math.sqrt(n) * 2) - 2));
+      const color = multi ? PLAYER_COLORS[this.owners[c] * 2 > n ? 1 : 0] : SOLO_SAND;
+      this.put(c % this.cols, Math.floor(c / this.cols), SAND_RAMP[step], color);
+    }
+  }
+
+  private cellAt(o: Pos) {
+    const s = project(o.x, o.z, this.cols * CELL_W, this.rows * CELL_H);
+    return { col: Math.floor(s.screenX / CELL_W), row: Math.floor(s.screenY / CELL_H) };
+  }
+
+  // Blanks whatever glyph covers cell i, so half of a wide one never remains.
+  private release(i: number) {
+    const row = Math.floor(i / this.cols);
+    if (this.chars[i] === "" && i % this.cols > 0) this.chars[i - 1] = " ";
+    else if (cellWidth(this.chars[i]) === 2 && (i + 1) < (row + 1) * this.cols) this.chars[i + 1] = " ";
+    this.chars[i] = " ";
+  }
+}
+
+// Terminal columns a code point takes: 2 for East Asian wide and most emoji.
+export function cellWidth(ch: string): number {
+  const c = ch.codePointAt(0) ?? 0;
+  return (c >= 0x1100 && c <= 0x115f) || (c >= 0x2e80 && c <= 0xa4cf) || (c >= 0xac00 && c <= 0xd7a3) ||
+    (c >= 0xf900 && c <= 0xfaff) || (c >= 0xfe30 && c <= 0xfe4f) || (c >= 0xff00 && c <= 0xff60) ||
+    (c >= 0xffe0 && c <= 0xffe6) || (c >= 0x1f300 && c <= 0x1faff) || (c >= 0x20000 && c <= 0x3fffd) ? 2 : 1;
+}
+
+export function textWidth(s: string): number {
+  let w = 0;
+  for (const ch of s) w += cellWidth(ch);
+  return w;
+}
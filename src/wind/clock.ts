@@ -0,0 +1,17 @@
+// The simulation clock. The game advances in fixed steps of STEP_SEC whatever
+// the display's refresh rate (Game.tick runs as many steps as real time
+// allows and interpolates the picture between them). Durations are written in
+// seconds and turned into whole steps with steps(); speeds stay per step.
+
+export const STEP_HZ = 60;
+export const STEP_SEC = 1 / STEP_HZ;
+
+// Whole steps for a duration in seconds.
+export function steps(seconds: number): number {
+  return Math.round(seconds * STEP_HZ);
+}
+
+// Seconds for a number of steps.
+export function seconds(n: number): number {
+  return n / STEP_HZ;
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { generateWave } from "./endless";
+import { enemyKinds } from "./enemies";
+import { DEFAULT_PACK, parseLevelPack } from "./levelPack";
+import { Rng } from "./rng";
+
+describe("generateWave", () => {
+  it("spends the budget on a non-empty wave", () => {
+    const rng = new Rng(3);
+    for (let i = DEFAULT_PACK.waves.length; i < DEFAULT_PACK.waves.length + 20; i++) {
+      const w = generateWave(i, DEFAULT_PACK, rng);
+      expect(w.label).toBe(`WAVE ${i + 1}`);
+      expect(w.enemies.length).toBeGreaterThan(0);
+    }
+  });
+
+  it("sends one of the cheapest kind when every kind is over the budget", () => {
+    const enemies = Object.fromEntries(enemyKinds().map(k => [k, { score: k === "big" ? 80 : 90 }]));
+    const pack = parseLevelPack({ waves: [{ label: "W", enemies: [{ kind: "normal", delay: 0 }] }], enemies });
+    const w = generateWave(1, pack, new Rng(1));
+    expect(w.enemies).toEqual([{ kind: "big", delay: 0, x: expect.any(Number) }]);
+  });
+});
@@ -0,0 +1,136 @@
+// Procedural waves for endless mode (everything after the pack's last wave).
+// Each wave gets a difficulty budget that grows with depth; formations of
+// enemies are bought from it until it runs out. Enemy cost is its score, which
+// already tracks how tough a kind is. Pacing rules keep it fair:
+//   - groups are spaced by a minimum gap that scales with what was just sent
+//   - at most MAX_GROUP enemies share a formation
+//   - enemies in a line formation keep MIN_LANE_GAP lane units apart
+// Timings here are in seconds; entry delays are converted to steps (clock.ts),
+// the unit level packs use.
+
+import { steps } from "./clock";
+import { LANE_X_LIMIT } from "./levelPack";
+import { enemyKinds } from "./enemies";
+import type { LevelPack } from "./levelPack";
+import type { Rng } from "./rng";
+import type { EnemyKind, Wave, WaveEntry } from "./sim";
+
+type Formation = "single" | "line" | "column" | "pincer" | "mixed";
+
+const MAX_GROUP = 4;
+const MIN_LANE_GAP = 3;
+const BASE_BUDGET = 9;
+const BUDGET_PER_WAVE = 2.5;
+// between enemies of a column / of a mixed group
+const COLUMN_GAP = 0.58;
+const MIXED_GAP = 0.33;
+// extra pause after a group per point of its cost
+const GAP_PER_COST = 0.2;
+
+export type EndlessScaling = { budget: number; hpScale: number; speedScale: number; minGap: number };
+
+// depth = 1 for the first generated wave
+export function endlessScaling(depth: number): EndlessScaling {
+  return {
+    budget: BASE_BUDGET + depth * BUDGET_PER_WAVE,
+    hpScale: Math.min(2.5, 1 + depth * 0.08),
+    speedScale: Math.min(1.5, 1 + depth * 0.03),
+    // seconds between formations, shrinking with depth but never below 0.75
+    minGap: Math.max(0.75, 2.33 - depth * 0.1),
+  };
+}
+
+function pick<T>(rng: Rng, items: T[]): T {
+  return items[rng.int(items.length)];
+}
+
+function laneSpread(rng: Rng, n: number): number[] {
+  // evenly spaced lanes at a random offset
+  const span = Math.min(2 * LANE_X_LIMIT, (n - 1) * (MIN_LANE_GAP + 1.5));
+  const start = rng.range(-LANE_X_LIMIT, LANE_X_LIMIT - span);
+  const xs: number[] = [];
+  for (let i = 0; i < n; i++) xs.push(n === 1 ? rng.range(-6, 6) : start + (span * i) / (n - 1));
+  return xs;
+}
+
+function formationFor(rng: Rng, depth: number): Formation {
+  const options: Formation[] = ["single", "line", "column"];
+  if (depth >= 2) options.push("pincer");
+  if (depth >= 3) options.push("mixed");
+  return pick(rng, options);
+}
+
+function buildGroup(rng: Rng, formation: Formation, kinds: EnemyKind[], delay: number, size: number): WaveEntry[] {
+  const kind = pick(rng, kinds);
+  switch (formation) {
+    case "single":
+      return [{ kind, delay, x: rng.range(-6, 6) }];
+    case "line":
+      return laneSpread(rng, size).map(x => ({ kind, delay, x }));
+    case "column": {
+      const x = rng.range(-6, 6);
+      return Array.from({ length: size }, (_, i) => ({ kind, delay: delay + i * steps(COLUMN_GAP), x }));
+    }
+    case "pincer": {
+      const edge = LANE_X_LIMIT - 1;
+      return [
+        { kind, delay, x: -edge + rng.range(0, 2) },
+        { kind, delay, x: edge - rng.range(0, 2) },
+      ];
+    }
+    case "mixed":
+      return laneSpread(rng, size).map((x, i) => ({ kind: pick(rng, kinds), delay: delay + i * steps(MIXED_GAP), x }));
+  }
+}
+
+// Builds wave `index` (0-based, absolute) for a pack whose authored waves ran out.
+export function generateWave(index: number, pack: LevelPack, rng: Rng): Wave {
+  const depth = index - pack.waves.length + 1;
+  const s = endlessScaling(depth);
+  const cost = (k: EnemyKind) => Math.max(1, pack.enemies[k].score);
+
+  let budget = s.budget;
+  let delay = 0;
+  const enemies: WaveEntry[] = [];
+
+  while (budget >= 1) {
+    const affordable = enemyKinds().filter(k => cost(k) <= budget);
+    if (affordable.length === 0) break;
+
+    let formation = formationFor(rng, depth);
+    const cheapest = Math.min(...affordable.map(cost));
+    const maxSize = Math.min(MAX_GROUP, Math.floor(budget / cheapest));
+    if (maxSize < 2) formation = "single";
+    let size = formation === "single" ? 1 : formation === "pincer" ? 2 : 2 + rng.int(maxSize - 1);
+
+    // only kinds we can afford `size` of
+    let kinds = affordable.filter(k => cost(k) * size <= budget);
+    if (kinds.length === 0) {
+      formation = "single";
+      size = 1;
+      kinds = affordable;
+    }
+    const group = buildGroup(rng, formation, kinds, delay, size);
+
+    const groupCost = group.reduce((sum, e) => sum + cost(e.kind), 0);
+    budget -= groupCost;
+    enemies.push(...group);
+
+    // fair pacing: heavier groups buy the player more breathing room
+    const lastDelay = Math.max(...group.map(e => e.delay));
+    delay = lastDelay + steps(s.minGap) + steps(groupCost * GAP_PER_COST / s.speedScale);
+  }
+
+  // a pack whose kinds all cost more than the budget still gets one enemy
+  if (enemies.length === 0) {
+    const cheapest = enemyKinds().reduce((a, b) => (cost(b) < cost(a) ? b : a));
+    enemies.push(...buildGroup(rng, "single", [cheapest], 0, 1));
+  }
+
+  return {
+    label: `WAVE ${index + 1}`,
+    enemies,
+    hpScale: s.hpScale,
+    speedScale: s.speedScale,
+  };
+}
@@ -0,0 +1,13 @@
+// Big: slow, lots of HP, hits hard.
+
+import { defineEnemyType } from "./registry";
+
+export const big = defineEnemyType({
+  kind: "big",
+  stats: {
+    hp: 60, speed: 0.04, radius: 2.35, scale: 1.38, contactDamage: 25, score: 4,
+    face: "(ಠ益ಠ)",
+    body: ["\\O/", "=|=", " | "],
+    color: "#ffb347",
+  },
+});
@@ -0,0 +1,31 @@
+// Dodger: strafes left and right while it advances, turning at a random
+// period and at the lane edges.
+
+import { steps } from "../clock";
+import { defineEnemyType } from "./registry";
+
+type DodgerState = { strafeSpeed: number; strafeTimer: number; strafePeriod: number };
+
+export const dodger = defineEnemyType<DodgerState>({
+  kind: "dodger",
+  stats: {
+    hp: 28, speed: 0.058, radius: 1.35, scale: 0.92, contactDamage: 15, score: 3,
+    face: "(°▽°)",
+    body: [" ~ ", "\\|/"],
+    color: "#a8f0c8",
+  },
+  init: (_def, rng) => ({
+    strafeSpeed: 0.04 + rng.next() * 0.025,
+    strafeTimer: 0,
+    strafePeriod: steps(0.92) + rng.int(steps(0.67)),
+  }),
+  update(e, ctx) {
+    const s = e.state;
+    e.z -= e.speed * ctx.slow;
+    s.strafeTimer++;
+    if (s.strafeTimer >= s.strafePeriod) { e.dir *= -1; s.strafeTimer = 0; }
+    e.x += e.dir * s.strafeSpeed * ctx.slow;
+    if (e.x > ctx.laneEdge - 1) { e.x = ctx.laneEdge - 1; e.dir = -1; }
+    if (e.x < -ctx.laneEdge + 1) { e.x = -ctx.laneEdge + 1; e.dir = 1; }
+  },
+});
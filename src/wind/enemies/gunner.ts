@@ -0,0 +1,39 @@
+// Gunner: advances to firing range, then holds there, drifting sideways and
+// shooting single "o" shots down the lane. Push them back into it, or pull
+// your sand back to break them.
+
+import { steps } from "../clock";
+import { defineEnemyType } from "./registry";
+
+const HOLD_Z = 18;
+const FIRE_EVERY = steps(2.5);
+const SHOT_SPEED = 0.1;
+const SHOT_DAMAGE = 6;
+
+type GunnerState = { reload: number };
+
+export const gunner = defineEnemyType<GunnerState>({
+  kind: "gunner",
+  stats: {
+    hp: 30, speed: 0.05, radius: 1.4, scale: 1.0, contactDamage: 10, score: 4,
+    face: "(◉_◉)",
+    body: ["-|=", "/ \\"],
+    color: "#ff9ad5",
+  },
+  init: (_def, rng) => ({ reload: steps(0.67) + rng.int(steps(1)) }),
+  update(e, ctx) {
+    if (e.z > HOLD_Z) {
+      e.z = Math.max(HOLD_Z, e.z - e.speed * ctx.slow);
+    } else {
+      e.x += e.dir * 0.02 * ctx.slow;
+      if (e.x > ctx.laneEdge - 2) { e.x = ctx.laneEdge - 2; e.dir = -1; }
+      if (e.x < -ctx.laneEdge + 2) { e.x = -ctx.laneEdge + 2; e.dir = 1; }
+    }
+    if (e.z < 34 && --e.state.reload <= 0) {
+      e.state.reload = FIRE_EVERY;
+      ctx.fire(e.x, e.z - e.r, SHOT_SPEED, SHOT_DAMAGE, "o");
+    }
+  },
+  // aiming: the face narrows just before a shot
+  face: (e) => (e.z < 34 && e.state.reload < steps(0.33) ? "(◉_<)" : undefined),
+});
@@ -0,0 +1,17 @@
+// Built-in enemy types, registered in the order the editor palette and
+// endless mode list them. Register custom types here too.
+
+import { registerEnemyType } from "./registry";
+import { small } from "./small";
+import { normal } from "./normal";
+import { big } from "./big";
+import { dodger } from "./dodger";
+import { rusher } from "./rusher";
+import { shielded } from "./shielded";
+import { gunner } from "./gunner";
+import { spitter } from "./spitter";
+
+for (const type of [small, normal, big, dodger, rusher, shielded, gunner, spitter]) registerEnemyType(type);
+
+export { defaultEnemyDefs, defineEnemyType, enemyKinds, enemySprite, enemyType, isEnemyKind, registerEnemyType } from "./registry";
+export type { Enemy, EnemyContext, EnemyHit, EnemyKind, EnemyType } from "./registry";
@@ -0,0 +1,13 @@
+// Normal: the baseline enemy.
+
+import { defineEnemyType } from "./registry";
+
+export const normal = defineEnemyType({
+  kind: "normal",
+  stats: {
+    hp: 36, speed: 0.06, radius: 1.6, scale: 1.0, contactDamage: 15, score: 2,
+    face: "(ಠ_ಠ)",
+    body: [" O ", "/|\\", " | "],
+    color: "#e8eef5",
+  },
+});
@@ -0,0 +1,123 @@
+// Enemy type registry. Each enemy type is one module (see the built-ins next
+// to this file) declaring its default stats and appearance plus optional
+// hooks; Simulation and Game only ever go through the type, never through
+// `kind` checks. To add a type, write a module that calls defineEnemyType()
+// and register it in enemies/index.ts. Level packs can still override any of
+// its stats by kind name.
+
+import type { EnemyDef } from "../levelPack";
+import type { Rng } from "../rng";
+
+export type EnemyKind = string;
+
+export type Enemy<S = unknown> = {
+  kind: EnemyKind;
+  x: number;
+  z: number;
+  r: number;
+  hp: number;
+  hpMax: number;
+  flash: number;
+  scale: number;
+  speed: number;
+  dir: number;  // -1 or 1, picked at spawn; free for the type to use (strafing etc.)
+  state: S;     // whatever the type's init() returned
+};
+
+// One grain (or other hit) landing on an enemy.
+export type EnemyHit = {
+  damage: number;
+  player: number;
+  focused: boolean; // the stream was below FOCUS_SPREAD
+};
+
+// What a hook can see and do. `slow` already includes the slow power-up.
+export type EnemyContext = {
+  readonly rng: Rng;
+  readonly laneEdge: number;
+  readonly slow: number;
+  enemies(): readonly Enemy[];
+  spawn(kind: EnemyKind, x: number, z: number): Enemy;
+  // shoots a projectile glyph at the player (speed in lane units per step)
+  fire(x: number, z: number, speed: number, damage: number, glyph: string): void;
+};
+
+export type EnemyType<S = unknown> = {
+  kind: EnemyKind;
+  stats: EnemyDef; // defaults, overridable per kind by level packs
+  // per-enemy behaviour state; `def` is after pack overrides and wave scaling
+  init?(def: EnemyDef, rng: Rng): S;
+  // movement; without it the enemy walks straight at its speed
+  update?(e: Enemy<S>, ctx: EnemyContext): void;
+  // returns how much of the hit gets through to hp (default: all of it)
+  onHit?(e: Enemy<S>, hit: EnemyHit, ctx: EnemyContext): number;
+  // killed by the player (not when it reaches the player)
+  onDeath?(e: Enemy<S>, ctx: EnemyContext): void;
+  // appearance; defaults are the pack's face / body
+  face?(e: Enemy<S>, def: EnemyDef): string | undefined;
+  body?(e: Enemy<S>, def: EnemyDef): string[];
+  // drawn as a glow and a bar over the HP bar while up
+  shield?(e: Enemy<S>): { pct: number; flash: boolean } | null;
+};
+
+// Lets a module type its hooks against its own state. The registry only
+// holds EnemyType<unknown>, so each hook is wrapped to hand back the state
+// its own init() made.
+export function defineEnemyType<S>(type: EnemyType<S>): EnemyType {
+  const { update, onHit, onDeath, face, body, shield } = type;
+  const own = (e: Enemy) => e as Enemy<S>;
+  return {
+    kind: type.kind,
+    stats: type.stats,
+    init: type.init,
+    update: update && ((e, ctx) => update(own(e), ctx)),
+    onHit: onHit && ((e, hit, ctx) => onHit(own(e), hit, ctx)),
+    onDeath: onDeath && ((e, ctx) => onDeath(own(e), ctx)),
+    face: face && ((e, def) => face(own(e), def)),
+    body: body && ((e, def) => body(own(e), def)),
+    shield: shield && (e => shield(own(e))),
+  };
+}
+
+const types = new Map<EnemyKind, EnemyType>();
+
+export function registerEnemyType(type: EnemyType) {
+  if (types.has(type.kind)) throw new Error(`Enemy type "${type.kind}" is already registered`);
+  types.set(type.kind, type);
+}
+
+export function enemyType(kind: EnemyKind): EnemyType {
+  const type = types.get(kind);
+  if (!type) throw new Error(`Unknown enemy type "${kind}"`);
+  return type;
+}
+
+export function isEnemyKind(kind: string): boolean {
+  return types.has(kind);
+}
+
+// Registered kinds in registration order.
+export function enemyKinds(): EnemyKind[] {
+  return [...types.keys()];
+}
+
+// What an enemy looks like right now, top to bottom: the type's own face if
+// it has one (else the shared hurt / dying faces), then its body. `flashing`
+// is whether a fresh hit shows (off with the reduce flashing setting).
+export function enemySprite(e: Enemy, def: EnemyDef, flashing: boolean): string[] {
+  const type = enemyType(e.kind);
+  let face = type.face?.(e, def);
+  if (face === undefined) {
+    if (flashing && e.flash > 0) face = "(ಠ益ಠ)";
+    else if (e.hp < Math.max(6, e.hpMax * 0.2)) face = "(x_x)";
+    else face = def.face;
+  }
+  return [face, ...(type.body?.(e, def) ?? def.body)];
+}
+
+// Default stats for every registered kind (the base of the default pack).
+export function defaultEnemyDefs(): Record<EnemyKind, EnemyDef> {
+  const defs: Record<EnemyKind, EnemyDef> = {};
+  for (const [kind, type] of types) defs[kind] = type.stats;
+  return defs;
+}
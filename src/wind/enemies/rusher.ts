@@ -0,0 +1,16 @@
+// Rusher: starts slow and accelerates over the last 30 lane units.
+
+import { defineEnemyType } from "./registry";
+
+export const rusher = defineEnemyType({
+  kind: "rusher",
+  stats: {
+    hp: 32, speed: 0.045, radius: 1.45, scale: 1.05, contactDamage: 15, score: 3,
+    face: "(▶▶▶)",
+    body: [">-<", "/=\\"],
+    color: "#ff7f7f",
+  },
+  update(e, ctx) {
+    e.z -= (e.speed + Math.max(0, 1 - e.z / 30) * 0.12) * ctx.slow;
+  },
+});
@@ -0,0 +1,44 @@
+// Shielded: carries a shield (stats.shield HP) that only a focused stream
+// can wear down; until it breaks, unfocused sand does nothing.
+
+import { steps } from "../clock";
+import { defineEnemyType } from "./registry";
+
+type ShieldState = { shieldHP: number; shieldHPMax: number; shieldFlash: number };
+
+export const shielded = defineEnemyType<ShieldState>({
+  kind: "shielded",
+  stats: {
+    hp: 45, speed: 0.048, radius: 1.7, scale: 1.1, contactDamage: 15, score: 5,
+    face: "(#_#)",
+    body: ["/|\\", " | "],
+    color: "#b0c8ff",
+    shield: 18,
+  },
+  init: (def) => ({ shieldHP: def.shield ?? 0, shieldHPMax: def.shield ?? 0, shieldFlash: 0 }),
+  update(e, ctx) {
+    e.z -= e.speed * ctx.slow;
+    e.state.shieldFlash = Math.max(0, e.state.shieldFlash - 1);
+  },
+  onHit(e, hit) {
+    const s = e.state;
+    if (s.shieldHP <= 0) return hit.damage;
+    if (hit.focused) {
+      s.shieldHP -= hit.damage;
+      s.shieldFlash = steps(0.13);
+      if (s.shieldHP <= 0) { s.shieldHP = 0; e.flash = steps(0.2); }
+    }
+    return 0;
+  },
+  body(e, def) {
+    const s = e.state;
+    if (s.shieldHPMax <= 0) return def.body;
+    const full = Math.round((s.shieldHP / s.shieldHPMax) * 5);
+    return s.shieldHP > 0
+      ? [`[${"|".repeat(full)}${" ".repeat(5 - full)}]`, ...def.body]
+      : ["[   ]", ...def.body];
+  },
+  shield: (e) => (e.state.shieldHP > 0
+    ? { pct: e.state.shieldHP / e.state.shieldHPMax, flash: e.state.shieldFlash > 0 }
+    : null),
+});
@@ -0,0 +1,13 @@
+// Small: fast, fragile, walks straight in.
+
+import { defineEnemyType } from "./registry";
+
+export const small = defineEnemyType({
+  kind: "small",
+  stats: {
+    hp: 22, speed: 0.075, radius: 1.15, scale: 0.82, contactDamage: 10, score: 1,
+    face: "(>_<)",
+    body: [" o ", "/|\\"],
+    color: "#e8eef5",
+  },
+});
@@ -0,0 +1,30 @@
+// Spitter: keeps walking in like a normal enemy but now and then spits a fan
+// of three "~" globs across the lane.
+
+import { steps } from "../clock";
+import { defineEnemyType } from "./registry";
+
+const SPIT_EVERY = steps(3.67);
+const SPIT_SPEED = 0.08;
+const SPIT_DAMAGE = 5;
+const FAN = [-2, 0, 2];
+
+type SpitterState = { reload: number };
+
+export const spitter = defineEnemyType<SpitterState>({
+  kind: "spitter",
+  stats: {
+    hp: 40, speed: 0.04, radius: 1.6, scale: 1.1, contactDamage: 15, score: 5,
+    face: "(°o°)",
+    body: ["{#}", "/ \\"],
+    color: "#c6ff66",
+  },
+  init: (_def, rng) => ({ reload: steps(1.33) + rng.int(steps(1.33)) }),
+  update(e, ctx) {
+    e.z -= e.speed * ctx.slow;
+    if (e.z < 30 && e.z > 12 && --e.state.reload <= 0) {
+      e.state.reload = SPIT_EVERY;
+      for (const dx of FAN) ctx.fire(e.x + dx, e.z - e.r, SPIT_SPEED, SPIT_DAMAGE, "~");
+    }
+  },
+});
@@ -1,438 +1,553 @@
-import { playEnemyDeath, playPlayerHit, playWaveStart, playGameOver } from "./sounds";
-import { startMusic, stopMusic } from "./sounds";
-function rand(a: number, b: number) {
-  return a + Math.random() * (b - a);
-}
-
-type Particle = {
-  x: number;
-  z: number;
-  vx: number;
-  vz: number;
-  life: number;
-  ch: string;
-  screenX?: number;
-  screenY?: number;
-  size?: number;
+import { playBurst, playEnemyDeath, playPlayerHit, playPowerUp, playWaveStart, playGameOver } from "./sounds";
+import { playBossDefeated, playBossRoar, playBossStinger } from "./sounds";
+import { resetAudio, playMusic, stopMusic, setMusicMood, setWindSound, stopWindSound } from "./sounds";
+import type { SoundPos } from "./sounds";
+import { combatSong } from "./songs";
+import type { SongId } from "./songs";
+import { BURST_COOLDOWN, DEFAULT_DEAD_ZONE, PROJECTILE_HP, Simulation } from "./sim";
+import type { Difficulty, Enemy, PlayMode, Projectile, SimSnapshot, WindSample } from "./sim";
+import { VIEW, project } from "./projection";
+import { PLAYER_COLORS, SOLO_SAND } from "./palette";
+import { PARTICLE_CHARS } from "./particles";
+import { SandView, drawKey } from "./sandView";
+import { GlyphAtlas } from "./glyphAtlas";
+import { GLRenderer } from "./glRenderer";
+import { CharGrid, cellWidth } from "./charGrid";
+import { STEP_HZ, STEP_SEC, seconds, steps } from "./clock";
+import { randomSeed } from "./rng";
+import { ReplayPlayer, ReplayRecorder } from "./replay";
+import type { ReplayFile, ReplayFrame } from "./replay";
+import { DEFAULT_PACK } from "./levelPack";
+import type { LevelPack } from "./levelPack";
+import type { RunSummary } from "./stats";
+import { PICKUP_HITS, POWER_UPS } from "./powerups";
+import type { Pickup } from "./powerups";
+import type { Boss } from "./bosses";
+import { enemySprite, enemyType } from "./enemies";
+
+export type { EnemyKind } from "./sim";
+
+export { PLAYER_COLORS } from "./palette";
+
+// audio: effects fade out towards AUDIO_FAR_Z; the music starts to pick up
+// once something is nearer than AUDIO_DANGER_Z
+const AUDIO_FAR_Z = 40;
+const AUDIO_DANGER_Z = 26;
+const AUDIO_FULL_PUMP = 0.24; // wind speed that plays the wind layer at full
+const LOW_HP = 30;
+
+// Render-only options (see settings.ts); none of them touch the simulation.
+export type DisplayOptions = {
+  particleDensity: number; // share of sand grains drawn, 0..1
+  reduceFlashing: boolean; // no hit-flash colours
+  largeText: boolean;      // bigger HUD and enemy text
+  charGrid: boolean;       // world drawn as a terminal-style character grid
 };
 
-
-export type EnemyKind = "small" | "normal" | "big" | "dodger" | "rusher" | "shielded";
-
-type EnemyBehavior = {
-  strafeDir: number;
-  strafeSpeed: number;
-  strafeTimer: number;
-  strafePeriod: number;
-  baseSpeed: number;
-  shielded: boolean;
-  shieldHP: number;
-  shieldHPMax: number;
-  shieldFlash: number;
-};
-
-type Enemy = {
-  kind: EnemyKind;
-  x: number;
-  z: number;
-  r: number;
-  hp: number;
-  hpMax: number;
-  flash: number;
-  scale: number;
-  speed: number;
-  behavior: EnemyBehavior;
-};
-
-type WaveEntry = { kind: EnemyKind; x?: number; delay: number };
-type Wave = { enemies: WaveEntry[]; label: string };
-
-const PARTICLE_CHARS = [".", ":", "*"];
-
-function makeBehavior(kind: EnemyKind): EnemyBehavior {
-  const base: EnemyBehavior = {
-    strafeDir: Math.random() < 0.5 ? -1 : 1,
-    strafeSpeed: 0,
-    strafeTimer: 0,
-    strafePeriod: 90,
-    baseSpeed: 0.06,
-    shielded: false,
-    shieldHP: 0,
-    shieldHPMax: 0,
-    shieldFlash: 0,
-  };
-  if (kind === "dodger") {
-    base.strafeSpeed = 0.04 + Math.random() * 0.025;
-    base.strafePeriod = 55 + Math.floor(Math.random() * 40);
-  }
-  if (kind === "rusher") base.baseSpeed = 0.045;
-  if (kind === "shielded") { base.shielded = true; base.shieldHP = 18; base.shieldHPMax = 18; }
-  return base;
-}
-
-function makeEnemy(kind: EnemyKind, x: number, z: number): Enemy {
-  const behavior = makeBehavior(kind);
-  const configs: Record<EnemyKind, Omit<Enemy, "kind" | "x" | "z" | "behavior">> = {
-    small:    { r: 1.15, hp: 22, hpMax: 22, flash: 0, scale: 0.82, speed: 0.075 },
-    normal:   { r: 1.60, hp: 36, hpMax: 36, flash: 0, scale: 1.00, speed: 0.060 },
-    big:      { r: 2.35, hp: 60, hpMax: 60, flash: 0, scale: 1.38, speed: 0.040 },
-    dodger:   { r: 1.35, hp: 28, hpMax: 28, flash: 0, scale: 0.92, speed: 0.058 },
-    rusher:   { r: 1.45, hp: 32, hpMax: 32, flash: 0, scale: 1.05, speed: 0.045 },
-    shielded: { r: 1.70, hp: 45, hpMax: 45, flash: 0, scale: 1.10, speed: 0.048 },
-  };
-  return { kind, x, z, ...configs[kind], behavior };
-}
-
-function buildWaves(): Wave[] {
-  return [
-    { label: "WAVE 1", enemies: [{ kind: "normal", delay: 0 }, { kind: "small", delay: 40 }] },
-    { label: "WAVE 2", enemies: [{ kind: "normal", delay: 0 }, { kind: "dodger", delay: 60 }, { kind: "small", delay: 240 }] },
-    { label: "WAVE 3", enemies: [{ kind: "rusher", delay: 0 }, { kind: "dodger", delay: 60 }, { kind: "normal", delay: 220 }] },
-    { label: "WAVE 4", enemies: [{ kind: "shielded", delay: 0 }, { kind: "rusher", delay: 60 }, { kind: "dodger", delay: 260 }] },
-    { label: "WAVE 5", enemies: [{ kind: "big", delay: 0 }, { kind: "shielded", delay: 60 }, { kind: "rusher", delay: 200 }, { kind: "dodger", delay: 300 }] },
-  ];
-}
-
+const LARGE_TEXT = 1.35;
+// character grid cells are at least the base font tall, and at most this many
+// rows fill the screen
+const GRID_MAX_ROWS = 45;
+
+// What draws the world: Canvas 2D, or WebGL2 under a transparent 2D canvas
+// that keeps the HUD and overlays (glRenderer.ts).
+export type RendererKind = "canvas" | "webgl";
+
+// The simulation runs in fixed steps of STEP_SEC; each tick runs as many as
+// the real time since the last one covers (at most MAX_FRAME_SEC worth, so a
+// hidden tab doesn't fast-forward the run) and draws everything interpolated
+// between the last two steps.
+const MAX_FRAME_SEC = 0.25;
+// replays keep a snapshot of the run this often, so seeking back only
+// replays from the nearest one
+const REPLAY_SNAPSHOT_EVERY = steps(10);
+// moves longer than this in one step are drawn as a jump (a grain recycled to
+// the front of the lane)
+const SNAP_DIST = 4;
+// screen-space easing of sand grains, per 60 Hz frame
+const PARTICLE_SMOOTH = 0.22;
+
+type Pos = { x: number; z: number };
+
+// Renderer + audio glue around a Simulation. The simulation itself
+// lives in sim.ts and knows nothing about the DOM.
 export class Game {
   private started = false;
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
+  private sim!: Simulation;
+  private pack: LevelPack = DEFAULT_PACK;
+  private mode: PlayMode = "solo";
+  // calibrated pump dead zone per player (undefined = sim default)
+  private deadZones: number[] = [];
+  private difficulty: Difficulty = "normal";
+  private display: DisplayOptions = {
+    particleDensity: 1, reduceFlashing: false, largeText: false, charGrid: false,
+  };
 
-  private particles: Particle[] = [];
-  private enemies: Enemy[] = [];
-  private score = 0;
-  private playerHP = 100;
-
-  private waves: Wave[] = buildWaves();
-  private waveIndex = 0;
-  private waveTimer = 0;
-  private pendingSpawns: Array<{ kind: EnemyKind; x?: number; spawnAt: number }> = [];
-  private betweenWaves = false;
-  private betweenWaveTimer = 0;
-  private betweenWaveDuration = 180;
-  private waveAnnounceTimer = 0;
-  private waveAnnounceLabel = "";
-
-  private laneEdge = 10;
-  private zFar = 220;
-
-  private windXZ: { x: number; z: number } = { x: 0, z: 0 };
   private debug = false;
-  private lastPump = 0;
-  private spread = 1;
-  private pointerX = 0.5;
-
-  private enemyAttackZ = 6.5;
-  
-
-  private horizonPct = 0.2;
-  private fov = 20;
-  private zNear = 2.0;
-  private xScale = 100;
-  private floorSpanPct = 0.4;
-
   private paused = false;
-  private gameOverSoundPlayed = false;
 
-  constructor(canvas: HTMLCanvasElement) {
+  // latest live wind sample per player, consumed once per simulation step
+  private inputs: WindSample[] = [0, 1].map(() => ({ wx: 0, wz: 0, spread: 1, pointerX: 0.5 }));
+  // special attacks requested since the last step, per player
+  private pendingBursts = [false, false];
+  private recorder: ReplayRecorder | null = null;
+  private player: ReplayPlayer | null = null;
+  // the replay's run by frame, every REPLAY_SNAPSHOT_EVERY frames reached
+  private snapshots = new Map<number, SimSnapshot>();
+  private gameOverHandlers: Array<(summary: RunSummary) => void> = [];
+  // suppresses sounds and music (replay seeking, editor preview)
+  private muted = false;
+  // editor preview: unrecorded runs that loop the pack's waves (setLooping)
+  private looping = false;
+
+  // fixed-step loop state: real time not simulated yet, the last tick's
+  // timestamp and its length, and how far the picture is past the last step
+  private acc = 0;
+  private lastTime: number | null = null;
+  private frameDt = 0;
+  private alpha = 1;
+  // where each drawn object was before the last step
+  private prev = new WeakMap<object, Pos>();
+  // sand drawing: eased grain positions, reused back-to-front index list,
+  // glyph atlas per colour
+  private sand = new SandView();
+  private order = new Uint32Array(0);
+  private atlases = new Map<string, GlyphAtlas>();
+  // set while the WebGL renderer draws the world
+  private gl: GLRenderer | null = null;
+  // character grid mode's frame, resized with the canvas
+  private grid: CharGrid | null = null;
+
+  constructor(canvas: HTMLCanvasElement, seed = randomSeed()) {
     this.canvas = canvas;
     const ctx = canvas.getContext("2d");
     if (!ctx) throw new Error("No 2D context");
     this.ctx = ctx;
-    this.startWave(0);
+    this.newRun(seed);
+  }
+
+  private createSim(seed: number, pack = this.pack, mode = this.mode, deadZones = this.deadZones,
+    difficulty = this.difficulty) {
+    const sim = new Simulation({ seed, pack, mode, deadZones, difficulty, viewWidth: this.canvas.width });
+    sim.on("enemyKilled", (e) => { if (!this.muted) playEnemyDeath(this.soundAt(e.enemy.x, e.enemy.z)); });
+    sim.on("burst", (e) => { if (!this.muted) playBurst(this.soundAtPlayer(e.player)); });
+    sim.on("powerUpCollected", (e) => { if (!this.muted) playPowerUp(e.kind, this.soundAtPlayer(e.player)); });
+    sim.on("playerHit", (e) => {
+      if (!this.muted) playPlayerHit(e.enemy ? this.soundAt(e.enemy.x, e.enemy.z) : undefined);
+    });
+    sim.on("bossSpawned", (e) => {
+      if (!this.muted) { playBossStinger(); playBossRoar(this.soundAt(e.boss.x, e.boss.z)); }
+    });
+    sim.on("bossPhase", (e) => { if (!this.muted) playBossRoar(this.soundAt(e.boss.x, e.boss.z)); });
+    sim.on("bossDefeated", (e) => { if (!this.muted) playBossDefeated(this.soundAt(e.boss.x, e.boss.z)); });
+    sim.on("waveStarted", (e) => { if (!this.muted && e.index > 0) playWaveStart(); });
+    sim.on("gameOver", () => {
+      if (!this.muted) { stopWindSound(); playGameOver(); playMusic("gameOver"); }
+      // only recorded live runs produce results (not replays or the editor preview)
+      if (this.recorder) for (const fn of this.gameOverHandlers) fn(sim.summary());
+    });
+    return sim;
+  }
+
+  // Starts a fresh run, recorded unless looping.
+  newRun(seed = randomSeed()) {
+    this.sim = this.createSim(seed);
+    this.recorder = this.looping ? null : new ReplayRecorder(seed, {
+      pack: this.pack === DEFAULT_PACK ? undefined : this.pack,
+      mode: this.mode,
+      // filled in densely so the file never holds gaps
+      deadZones: this.deadZones.length > 0
+        ? Array.from(this.sim.players, (_, i) => this.deadZones[i] ?? DEFAULT_DEAD_ZONE)
+        : undefined,
+      difficulty: this.difficulty,
+    });
+    this.player = null;
+    this.snapshots.clear();
+  }
+
+  // Switches level pack and starts a new run with it.
+  setLevelPack(pack: LevelPack) {
+    this.pack = pack;
+    this.newRun();
+  }
+
+  getLevelPack() { return this.pack; }
+
+  // Switches between solo and the two-player modes; starts a new run.
+  setMode(mode: PlayMode) {
+    this.mode = mode;
+    this.newRun();
+  }
+
+  getMode() { return this.mode; }
+
+  // Pump dead zone from a player's calibration profile (undefined = default).
+  // It's fixed for the length of a run, so a run that hasn't started yet is
+  // rebuilt with it; otherwise it applies from the next run.
+  setDeadZone(player: number, dz: number | undefined) {
+    if (dz === undefined) delete this.deadZones[player];
+    else this.deadZones[player] = dz;
+    if (!this.started && !this.player) this.newRun();
+  }
+
+  // Like the dead zone: rebuilds a run that hasn't started, otherwise it
+  // applies from the next run.
+  setDifficulty(d: Difficulty) {
+    if (d === this.difficulty) return;
+    this.difficulty = d;
+    if (!this.started && !this.player) this.newRun();
+  }
+
+  setDisplay(d: DisplayOptions) { this.display = { ...d }; }
+
+  onGameOver(fn: (summary: RunSummary) => void) { this.gameOverHandlers.push(fn); }
+
+  getSimulation() { return this.sim; }
+  getCanvas() { return this.canvas; }
+  setMuted(v: boolean) { this.muted = v; }
+
+  // For the wave editor's preview: runs aren't recorded, and clearing the
+  // pack's last wave starts the run over instead of going on into endless
+  // waves. Starts a new run.
+  setLooping(v: boolean) {
+    this.looping = v;
+    this.newRun();
   }
 
   setDebug(v: boolean) { this.debug = v; }
+
+  // Switches the world renderer. Returns the one actually in use: "canvas"
+  // if WebGL2 isn't available (or the GPU context is lost later on).
+  setRenderer(kind: RendererKind): RendererKind {
+    if (kind === "canvas") { this.dropGL(); return "canvas"; }
+    if (this.gl) return "webgl";
+    const layer = document.createElement("canvas");
+    layer.className = "glLayer";
+    const gl = GLRenderer.create(layer);
+    if (!gl) return "canvas";
+    gl.onLost(() => {
+      console.warn("WebGL context lost; drawing with Canvas 2D");
+      this.dropGL();
+    });
+    // under the 2D canvas, which stays on top for the HUD and input
+    this.canvas.before(layer);
+    this.gl = gl;
+    return "webgl";
+  }
+  getRenderer(): RendererKind { return this.gl ? "webgl" : "canvas"; }
+
+  private dropGL() {
+    this.gl?.canvas.remove();
+    this.gl = null;
+  }
+
+  // Keeps the WebGL canvas over the 2D canvas's content box (inside its
+  // border), shown and hidden along with it.
+  private placeGLLayer(gl: GLRenderer) {
+    const c = this.canvas, s = gl.canvas.style;
+    s.display = c.style.display;
+    s.left = `${c.offsetLeft + c.clientLeft}px`;
+    s.top = `${c.offsetTop + c.clientTop}px`;
+    s.width = `${c.clientWidth}px`;
+    s.height = `${c.clientHeight}px`;
+  }
+
   setPaused(v: boolean) {
     this.paused = v;
-    if (v) stopMusic();
-    else startMusic();
+    if (this.muted) return;
+    if (v) { stopMusic(); stopWindSound(); }
+    else playMusic(this.songForRun());
   }
   isPaused() { return this.paused; }
-  start() { this.started = true; }
-
-  setWind(wx: number, wz: number, spread = 1, pointerX = 0.5) {
-    const kx = 0.020, kz = 0.06;
-    const windX = -wx;
-    let pump = -wz;
-    const dz = 0.08;
-    if (Math.abs(pump) < dz) pump = 0;
-    else pump = Math.sign(pump) * (Math.abs(pump) - dz);
-    pump = Math.sign(pump) * Math.pow(Math.abs(pump), 1.3);
-    pump = Math.max(-4.0, Math.min(4.0, pump));
-    if (pump < 0) pump *= 0.25;
-    this.lastPump += (pump - this.lastPump) * 0.3;
-    pump = this.lastPump;
-    this.windXZ = { x: windX * kx, z: pump * kz };
-    this.spread = Math.max(0, Math.min(1, spread));
-    this.pointerX = Math.max(0, Math.min(1, pointerX));
-  }
-
-  tick() {
-    if (!this.started) return;
-    const w = this.canvas.width;
-    const h = this.canvas.height;
-    if (this.paused) { this.render(w, h); return; }
-    if (this.playerHP <= 0) {
-      if (!this.gameOverSoundPlayed) {
-        playGameOver();
-        this.gameOverSoundPlayed = true;
-      }
-      this.render(w, h);
-      return;
+  isStarted() { return this.started; }
+
+  // --- lifecycle ---
+  // start():   begin ticking the current run (music on)
+  // reset():   throw the current run away and set up a fresh one, not ticking
+  // restart(): reset() + start(); a replay rewinds to its first frame instead
+  // toTitle(): reset() and go idle with the title theme until start()
+  // The wind input is never touched, so the camera and model stay loaded.
+
+  start() {
+    this.started = true;
+    this.paused = false;
+    this.acc = 0;
+    if (!this.muted) playMusic(this.songForRun());
+  }
+
+  reset(seed = randomSeed()) {
+    if (!this.muted) resetAudio();
+    this.paused = false;
+    this.acc = 0;
+    if (this.player) {
+      this.seekReplay(0);
+      this.player.paused = false;
+    } else {
+      this.newRun(seed);
     }
+  }
 
-    this.waveTimer++;
+  restart() {
+    this.reset();
+    this.start();
+  }
 
-    if (this.betweenWaves) {
-      this.betweenWaveTimer++;
-      if (this.betweenWaveTimer >= this.betweenWaveDuration) {
-        this.betweenWaves = false;
-        const next = this.waveIndex + 1;
-        this.startWave(next < this.waves.length ? next : this.waves.length - 1);
-      }
-      this.spawnPending();
-      this.updateParticles(w, h);
-      this.render(w, h);
-      return;
-    }
+  toTitle() {
+    this.player = null;
+    this.reset();
+    this.started = false;
+    this.playTitleMusic();
+  }
 
-    this.spawnPending();
-    for (const e of this.enemies) this.updateEnemy(e);
+  // Title theme; main.ts also calls this on the first click or key press,
+  // since browsers don't allow audio before one.
+  playTitleMusic() {
+    if (!this.started && !this.muted) playMusic("title");
+  }
 
-    if (this.pendingSpawns.length === 0 && this.enemies.length === 0) {
-      this.betweenWaves = true;
-      this.betweenWaveTimer = 0;
-      this.waveAnnounceLabel = this.waveIndex + 1 < this.waves.length
-        ? `WAVE ${this.waveIndex + 2} INCOMING` : "ENDLESS MODE";
-      this.waveAnnounceTimer = 120;
-      
-    }
+  setWind(wx: number, wz: number, spread = 1, pointerX = 0.5, player = 0) {
+    this.inputs[player] = { wx, wz, spread, pointerX };
+  }
 
-    for (let i = 0; i < 6; i++) this.spawnParticle();
-    this.updateParticles(w, h);
-
-    for (const p of this.particles) {
-      if (p.life <= 0) continue;
-      for (const e of this.enemies) {
-        const d = Math.hypot(p.x - e.x, p.z - e.z);
-        if (d < e.r) {
-          p.life = 0;
-          const damage = Math.max(0.2, (0.3 + (1 - this.spread) * 0.2));
-          if (e.behavior.shielded && e.behavior.shieldHP > 0) {
-            if (this.spread < 0.45) {
-              e.behavior.shieldHP -= damage;
-              e.behavior.shieldFlash = 8;
-              if (e.behavior.shieldHP <= 0) { e.behavior.shieldHP = 0; e.behavior.shielded = false; e.flash = 12; }
-            }
-          } else {
-            e.hp -= damage;
-            e.flash = 6;
-            if (e.hp <= 0) {
-              this.score += this.scoreForKind(e.kind);
-              this.playerHP = Math.min(100, this.playerHP + 4);
-              playEnemyDeath();
-              e.hp = -999;
-            }
-          }
-          break;
-        }
-      }
-    }
+  // Requests a player's special attack on the next step (it's recorded like
+  // any other input, so replays reproduce it).
+  triggerBurst(player = 0) {
+    if (this.player || player >= this.pendingBursts.length) return;
+    this.pendingBursts[player] = true;
+  }
 
-    this.enemies = this.enemies.filter(e => e.hp > -900);
-    this.particles = this.particles.filter(p => p.life > 0);
-    for (const e of this.enemies) {
-      e.flash = Math.max(0, e.flash - 1);
-      e.behavior.shieldFlash = Math.max(0, (e.behavior.shieldFlash || 0) - 1);
-    }
-    if (this.waveAnnounceTimer > 0) this.waveAnnounceTimer--;
-    this.render(w, h);
+  // --- replays ---
+
+  getRecording(): ReplayFile | null {
+    return this.recorder ? this.recorder.toFile() : null;
   }
 
-  private startWave(index: number) {
-    this.waveIndex = index;
-    this.waveTimer = 0;
-    this.enemies = [];
-    const wave = this.waves[Math.min(index, this.waves.length - 1)];
-    const rep = Math.max(0, index - (this.waves.length - 1));
-    this.pendingSpawns = wave.enemies.map(e => ({ kind: e.kind, x: e.x, spawnAt: e.delay + rep * 20 }));
-    this.waveAnnounceLabel = wave.label + (rep > 0 ? ` +${rep}` : "");
-    this.waveAnnounceTimer = 120;
-    if (index > 0) playWaveStart();
-  }
-
-  private spawnPending() {
-    const toSpawn = this.pendingSpawns.filter(s => this.waveTimer >= s.spawnAt);
-    this.pendingSpawns = this.pendingSpawns.filter(s => this.waveTimer < s.spawnAt);
-    for (const s of toSpawn) {
-      const e = makeEnemy(s.kind, s.x !== undefined ? s.x : rand(-4, 4), rand(22, 34));
-      e.flash = 10;
-      this.enemies.push(e);
-    }
+  playReplay(file: ReplayFile) {
+    this.player = new ReplayPlayer(file);
+    this.snapshots.clear();
+    this.recorder = null;
+    this.sim = this.createSim(file.seed, this.player.pack, this.player.mode, this.player.deadZones, this.player.difficulty);
   }
 
-  private updateEnemy(e: Enemy) {
-    const b = e.behavior;
-    let speed = e.speed;
-    if (e.kind === "rusher") speed = b.baseSpeed + Math.max(0, 1 - e.z / 30) * 0.12;
-    e.z -= speed;
-    if (e.kind === "dodger") {
-      b.strafeTimer++;
-      if (b.strafeTimer >= b.strafePeriod) { b.strafeDir *= -1; b.strafeTimer = 0; }
-      e.x += b.strafeDir * b.strafeSpeed;
-      if (e.x > this.laneEdge - 1) { e.x = this.laneEdge - 1; b.strafeDir = -1; }
-      if (e.x < -this.laneEdge + 1) { e.x = -this.laneEdge + 1; b.strafeDir = 1; }
-    }
-    if (e.z <= this.enemyAttackZ) {
-      // deal a single burst of damage then remove — no more continuous draining
-      const dmg = e.kind === "big" ? 25 : e.kind === "small" ? 10 : 15;
-      this.playerHP = Math.max(0, this.playerHP - dmg);
-      playPlayerHit();
-      e.hp = -999; // mark for removal
+  getReplayPlayer() { return this.player; }
+
+  // Silently replays up to `frame`. Going forward carries on from the
+  // current frame; going back starts over from the nearest snapshot before
+  // it (or from the seed).
+  seekReplay(frame: number) {
+    const player = this.player;
+    if (!player) return;
+    const target = Math.max(0, Math.min(player.length(), Math.floor(frame)));
+    if (target < player.position()) {
+      let from = 0;
+      for (const at of this.snapshots.keys()) if (at <= target && at > from) from = at;
+      const snap = this.snapshots.get(from);
+      if (snap) this.sim.restore(snap);
+      else this.sim = this.createSim(player.seed, player.pack, player.mode, player.deadZones, player.difficulty);
+      player.rewind(from);
     }
+    const wasMuted = this.muted;
+    this.muted = true;
+    while (player.position() < target) this.replayStep(player, false);
+    this.muted = wasMuted;
   }
 
-  private updateParticles(w: number, _h: number) {
-    const drag = 0.985;
-    for (const p of this.particles) {
-      p.vx += this.windXZ.x; p.vz += this.windXZ.z; p.vz += 0.002;
-      p.vx *= drag; p.vz *= drag;
-      p.x += p.vx; p.z += p.vz;
-      const proj = this.project(p.x, p.z);
-      const worldDelta = (this.pointerX * w - proj.screenX) / Math.max(1e-6, proj.p * this.xScale);
-      if (this.spread < 0.5) {
-        const desiredVx = worldDelta * (1 - this.spread) * 0.5;
-        p.vx = p.vx * 0.78 + desiredVx * 0.22;
-      }
-      p.vx = Math.max(-0.9, Math.min(0.9, p.vx));
-      if (this.spread < 0.18) p.vx *= 0.08;
-      if (p.z > this.zFar) { p.z = rand(2, 6); p.x = rand(-8, 8); p.vx = rand(-0.04, 0.04); p.vz = rand(0, 0.02); p.life = rand(300, 800); }
-      if (p.z < 0.6) p.z = 0.6;
-      if (p.x < -this.laneEdge) { p.x = -this.laneEdge; p.vx *= 0.05; }
-      if (p.x > this.laneEdge)  { p.x = this.laneEdge;  p.vx *= 0.05; }
-      p.life -= 1;
+  // The replay's next frame (with positions kept for interpolation when
+  // `drawn`), taking a snapshot on every REPLAY_SNAPSHOT_EVERY-th.
+  private replayStep(player: ReplayPlayer, drawn: boolean) {
+    const f = player.next();
+    if (drawn) this.advance(f);
+    else this.stepWith(f);
+    const at = player.position();
+    if (at % REPLAY_SNAPSHOT_EVERY === 0 && !this.snapshots.has(at)) this.snapshots.set(at, this.sim.snapshot());
+  }
+
+  // A step as part of playback: positions are kept for interpolation first.
+  private advance(f: ReplayFrame) {
+    const sim = this.sim;
+    // (sand keeps its own previous positions in the particle pool)
+    for (const list of [sim.enemies, sim.projectiles, sim.pickups] as Pos[][]) {
+      for (const o of list) this.remember(o);
     }
+    if (sim.boss) this.remember(sim.boss);
+    this.stepWith(f);
   }
 
-  private spawnParticle() {
-    const z0 = rand(2, 6), halfW = 1 + this.spread * 5;
+  private remember(o: Pos) {
+    const p = this.prev.get(o);
+    if (p) { p.x = o.x; p.z = o.z; }
+    else this.prev.set(o, { x: o.x, z: o.z });
+  }
+
+  // Where to draw something: between its last two step positions.
+  private drawPos(o: Pos): Pos {
+    const p = this.prev.get(o);
+    if (!p || Math.abs(o.z - p.z) > SNAP_DIST || Math.abs(o.x - p.x) > SNAP_DIST) return o;
+    const a = this.alpha;
+    return { x: p.x + (o.x - p.x) * a, z: p.z + (o.z - p.z) * a };
+  }
+
+  private stepWith(f: ReplayFrame) {
+    this.sim.viewWidth = f.viewWidth;
+    this.sim.step(f.players);
+  }
+
+  // One rendered frame; `now` in ms (performance.now() / rAF timestamps).
+  tick(now = performance.now()) {
+    const dt = this.lastTime === null ? 0 : Math.max(0, Math.min(MAX_FRAME_SEC, (now - this.lastTime) / 1000));
+    this.lastTime = now;
+    this.frameDt = dt;
+    if (this.gl) this.placeGLLayer(this.gl);
+    if (!this.started) return;
     const w = this.canvas.width;
-    const pFactor = this.fov / (z0 + this.zNear);
-    const worldCenterX = (this.pointerX * w - w * 0.5) / Math.max(1e-6, pFactor * this.xScale);
-    const x0 = worldCenterX + rand(-halfW, halfW);
-    const vz0 = rand(0.02, 0.06);
-    const s1 = this.project(x0, z0 + vz0);
-    const st1 = this.sandStyleForY(s1.screenY, this.canvas.height);
-    this.particles.push({ x: x0, z: z0, vx: rand(-0.04, 0.04), vz: vz0, life: rand(300, 800), ch: PARTICLE_CHARS[Math.floor(Math.random() * 3)], screenX: s1.screenX, screenY: s1.screenY, size: st1.size });
+    const h = this.canvas.height;
+    if (this.player) {
+      const n = this.player.stepsThisFrame(dt);
+      for (let i = 0; i < n; i++) this.replayStep(this.player, true);
+      this.alpha = this.player.stepFraction();
+    } else if (!this.paused && !this.sim.isOver()) {
+      this.acc += dt;
+      while (this.acc >= STEP_SEC && !this.sim.isOver()) {
+        this.acc -= STEP_SEC;
+        // the latest sample feeds every step this frame; a burst only the first
+        const samples = this.inputs.map((s, i) => (this.pendingBursts[i] ? { ...s, burst: true } : s));
+        this.pendingBursts = [false, false];
+        this.advance(this.recorder ? this.recorder.capture(samples, w) : { viewWidth: w, players: samples });
+        if (this.looping && this.sim.betweenWaves && this.sim.waveIndex === this.sim.pack.waves.length - 1) this.newRun();
+      }
+      this.alpha = this.acc / STEP_SEC;
+    }
+    if (!this.muted && !this.paused && !this.sim.isOver()) this.updateAudio();
+    this.render(w, h);
   }
 
-  private scoreForKind(kind: EnemyKind): number {
-    return { small: 1, normal: 2, big: 4, dodger: 3, rusher: 3, shielded: 5 }[kind];
+  // --- audio ---
+
+  // Pans an effect by where it is on screen and quietens it with distance
+  // down the lane.
+  private soundAt(x: number, z: number): SoundPos {
+    const s = this.project(x, z);
+    const far = (z - this.sim.enemyAttackZ) / (AUDIO_FAR_Z - this.sim.enemyAttackZ);
+    return { pan: (s.screenX / this.canvas.width) * 2 - 1, distance: Math.max(0, Math.min(1, far)) };
   }
 
-  private enemyFace(e: Enemy): string {
-    if (e.flash > 0) return "(ಠ益ಠ)";
-    if (e.hp < Math.max(6, e.hpMax * 0.2)) return "(x_x)";
-    return { small: "(>_<)", normal: "(ಠ_ಠ)", big: "(ಠ益ಠ)", dodger: "(°▽°)", rusher: "(▶▶▶)", shielded: "(#_#)" }[e.kind];
+  private soundAtPlayer(player: number): SoundPos {
+    return { pan: this.sim.players[player].pointerX * 2 - 1, distance: 0 };
   }
 
-  private enemyBody(e: Enemy): string[] {
-    if (e.kind === "shielded") {
-      const full = Math.round((e.behavior.shieldHP / e.behavior.shieldHPMax) * 5);
-      return e.behavior.shieldHP > 0
-        ? [`[${"|".repeat(full)}${" ".repeat(5 - full)}]`, "/|\\", " | "]
-        : ["[   ]", "/|\\", " | "];
+  // Feeds the wind layer and the adaptive music from the current state, and
+  // picks the song: combat theme by wave tier, boss theme while one is up.
+  private updateAudio() {
+    const sim = this.sim;
+    let pump = 0;
+    let spread = 1;
+    for (const pl of sim.players) {
+      pump = Math.max(pump, Math.abs(pl.windXZ.z));
+      spread = Math.min(spread, pl.spread);
     }
-    return { small: [" o ", "/|\\"], normal: [" O ", "/|\\", " | "], big: ["\\O/", "=|=", " | "], dodger: [" ~ ", "\\|/"], rusher: [">-<", "/=\\"], shielded: ["/|\\", " | "] }[e.kind];
+    const intensity = Math.min(1, Math.sqrt(pump / AUDIO_FULL_PUMP));
+    setWindSound(intensity, intensity > 0 ? 1 - Math.min(1, spread) : 0);
+
+    // danger: how close the nearest enemy, boss or incoming shot is
+    let nearest = Infinity;
+    for (const e of sim.enemies) nearest = Math.min(nearest, e.z);
+    for (const pr of sim.projectiles) if (pr.damage > 0 && !pr.reflected) nearest = Math.min(nearest, pr.z);
+    if (sim.boss) nearest = Math.min(nearest, sim.boss.z);
+    const danger = (AUDIO_DANGER_Z - nearest) / (AUDIO_DANGER_Z - sim.enemyAttackZ);
+    setMusicMood({ danger: Math.max(0, Math.min(1, danger)), lowHP: sim.playerHP <= LOW_HP });
+    playMusic(this.songForRun());
+  }
+
+  private songForRun(): SongId {
+    if (this.sim.isOver()) return "gameOver";
+    return this.sim.boss ? "boss" : combatSong(this.sim.waveIndex);
+  }
+
+  private flashing(flash: number) {
+    return flash > 0 && !this.display.reduceFlashing;
   }
 
   private project(x: number, z: number) {
-    const w = this.canvas.width, h = this.canvas.height;
-    const p = this.fov / (z + this.zNear);
-    return {
-      screenX: w * 0.5 + x * p * this.xScale,
-      screenY: h * this.horizonPct + p * (h * this.floorSpanPct),
-      p,
-    };
+    return project(x, z, this.canvas.width, this.canvas.height);
   }
 
   private render(w: number, h: number) {
     const ctx = this.ctx;
+    const gl = this.gl;
     ctx.clearRect(0, 0, w, h);
-    ctx.fillStyle = "#0b0f14";
-    ctx.fillRect(0, 0, w, h);
+    if (gl) {
+      gl.begin(w, h, "#0b0f14");
+    } else {
+      ctx.fillStyle = "#0b0f14";
+      ctx.fillRect(0, 0, w, h);
+    }
 
-    const baseFont = 16;
+    const baseFont = this.display.largeText ? Math.round(16 * LARGE_TEXT) : 16;
     ctx.font = `${baseFont}px ui-monospace, monospace`;
     ctx.textAlign = "center";
     ctx.textBaseline = "middle";
 
-    // horizon
-    const horizonY = h * this.horizonPct;
-    ctx.globalAlpha = 0.35;
-    ctx.fillStyle = "#e8eef5";
-    ctx.fillRect(0, horizonY, w, 1);
-    ctx.globalAlpha = 1;
-
-    // lane grid
-    ctx.globalAlpha = 0.18;
-    ctx.strokeStyle = "#e8eef5";
-    ctx.lineWidth = 1;
-    for (let x = -this.laneEdge; x <= this.laneEdge; x += 2) {
-      ctx.beginPath();
-      let first = true;
-      for (let z = 6; z <= 2000; z += 20) {
-        const s = this.project(x, z);
-        if (first) { ctx.moveTo(s.screenX, s.screenY); first = false; }
-        else ctx.lineTo(s.screenX, s.screenY);
+    if (this.display.charGrid) {
+      this.renderGrid(w, h, baseFont);
+    } else {
+      // horizon
+      const horizonY = h * VIEW.horizonPct;
+      if (gl) {
+        gl.rect(0, horizonY, w, 1, "#e8eef5", 0.35);
+      } else {
+        ctx.globalAlpha = 0.35;
+        ctx.fillStyle = "#e8eef5";
+        ctx.fillRect(0, horizonY, w, 1);
+        ctx.globalAlpha = 1;
       }
-      ctx.stroke();
-    }
-    ctx.globalAlpha = 1;
 
-    // particles
-    this.particles.sort((a, b) => b.z - a.z);
-    ctx.fillStyle = "#e8eef5";
-    for (const p of this.particles) {
-      const s = this.project(p.x, p.z);
-      const st = this.sandStyleForY(s.screenY, h);
-      const lf = 0.22;
-      p.screenX = p.screenX !== undefined ? p.screenX + (s.screenX - p.screenX) * lf : s.screenX;
-      p.screenY = p.screenY !== undefined ? p.screenY + (s.screenY - p.screenY) * lf : s.screenY;
-      p.size    = p.size    !== undefined ? p.size    + (st.size    - p.size)    * lf : st.size;
-      const sz = Math.max(1, Math.round(p.size));
-      ctx.font = `${sz}px ui-monospace, monospace`;
-      ctx.globalAlpha = 0.22;
-      ctx.fillText(this.glyphForDepth(p.z, p.ch), p.screenX, p.screenY);
-      ctx.globalAlpha = st.alpha;
-      ctx.fillText(this.glyphForDepth(p.z, p.ch), p.screenX, p.screenY);
-    }
-    ctx.globalAlpha = 1;
+      this.renderLaneGrid();
+
+      this.renderParticles(h);
+
+      // pickups
+      for (const u of this.sim.pickups) this.renderPickup(u, baseFont);
+
+      // boss (it holds further back than its minions ever get)
+      if (this.sim.boss) this.renderBoss(this.sim.boss, baseFont);
+
+      // enemies
+      for (const e of [...this.sim.enemies].sort((a, b) => b.z - a.z)) {
+        this.renderEnemy(e, baseFont, h);
+      }
 
-    // enemies
-    for (const e of [...this.enemies].sort((a, b) => b.z - a.z)) {
-      this.renderEnemy(e, baseFont, h);
+      // projectiles
+      for (const pr of this.sim.projectiles) this.renderProjectile(pr, baseFont);
     }
+    gl?.flush();
 
     // HUD
-    this.renderHUD(w, h);
+    if (this.display.largeText) {
+      ctx.save();
+      ctx.scale(LARGE_TEXT, LARGE_TEXT);
+      this.renderHUD(w / LARGE_TEXT, h / LARGE_TEXT);
+      ctx.restore();
+    } else {
+      this.renderHUD(w, h);
+    }
 
     // wave announce
-    if (this.waveAnnounceTimer > 0) {
-      const a = Math.pow(Math.min(1, this.waveAnnounceTimer / 30), 2) * 0.92;
+    if (this.sim.waveAnnounceTimer > 0) {
+      const a = Math.pow(Math.min(1, this.sim.waveAnnounceTimer / steps(0.5)), 2) * 0.92;
       ctx.save();
       ctx.globalAlpha = a;
       ctx.fillStyle = "#e8eef5";
       ctx.textAlign = "center";
       ctx.textBaseline = "middle";
       ctx.font = `bold 22px ui-monospace, monospace`;
-      ctx.fillText(this.waveAnnounceLabel, w / 2, h * 0.42);
+      ctx.fillText(this.sim.waveAnnounceLabel, w / 2, h * 0.42);
       ctx.restore();
     }
 
-    if (this.betweenWaves) {
-      const t = this.betweenWaveTimer / this.betweenWaveDuration;
+    if (this.sim.betweenWaves) {
+      const t = this.sim.betweenWaveTimer / this.sim.betweenWaveDuration;
       ctx.save();
       ctx.globalAlpha = 0.5 * (1 - t);
       ctx.fillStyle = "#e8eef5";
@@ -453,7 +568,7 @@ export class Game {
       ctx.restore();
     }
 
-    if (this.playerHP <= 0) {
+    if (this.sim.isOver()) {
       ctx.save();
       ctx.globalAlpha = 0.72; ctx.fillStyle = "#0b0f14"; ctx.fillRect(0, 0, w, h);
       ctx.globalAlpha = 1; ctx.fillStyle = "#e8eef5";
@@ -461,33 +576,176 @@ export class Game {
       ctx.font = `20px ui-monospace, monospace`;
       ctx.fillText("GAME OVER", w / 2, h / 2 - 20);
       ctx.font = `13px ui-monospace, monospace`;
-      ctx.fillText(`Final Score: ${this.score}`, w / 2, h / 2 + 8);
+      ctx.fillText(this.finalScoreLine(), w / 2, h / 2 + 8);
     ctx.fillText("press R to restart", w / 2, h / 2 + 30);
       ctx.restore();
     }
+
+    if (this.player) {
+      const p = this.player;
+      const state = p.done() ? "END" : p.paused ? "PAUSED" : `${p.speed}x`;
+      ctx.save();
+      ctx.globalAlpha = 0.75; ctx.fillStyle = "#ffe066";
+      ctx.textAlign = "right"; ctx.textBaseline = "middle";
+      ctx.font = `11px ui-monospace, monospace`;
+      ctx.fillText(`REPLAY ${state}  ${p.position()}/${p.length()}`, w - 18, 72);
+      ctx.restore();
+    }
+  }
+
+  // Character grid mode: the world rasterised into text cells (charGrid.ts),
+  // each drawn as one glyph centred in its cell.
+  private renderGrid(w: number, h: number, baseFont: number) {
+    const cellH = Math.max(baseFont * 1.2, h / GRID_MAX_ROWS);
+    const cellW = cellH / 2;
+    const cols = Math.floor(w / cellW), rows = Math.floor(h / cellH);
+    if (!this.grid || this.grid.cols !== cols || this.grid.rows !== rows) this.grid = new CharGrid(cols, rows);
+    const grid = this.grid;
+    grid.render(this.sim, this.gridView());
+
+    const gl = this.gl, ctx = this.ctx;
+    const size = Math.round(cellH / 1.2);
+    const x0 = (w - cols * cellW) / 2, y0 = (h - rows * cellH) / 2;
+    ctx.font = `${size}px ui-monospace, monospace`;
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const i = row * cols + col;
+        const ch = grid.chars[i];
+        if (ch === " " || ch === "") continue;
+        const x = x0 + (col + cellWidth(ch) / 2) * cellW, y = y0 + (row + 0.5) * cellH;
+        const color = grid.colors[i] || "#e8eef5";
+        if (gl) {
+          gl.text(ch, x, y, size, color, 1);
+        } else {
+          ctx.fillStyle = color;
+          ctx.fillText(ch, x, y);
+        }
+      }
+    }
+  }
+
+  private gridView() {
+    return { flashing: !this.display.reduceFlashing, pos: (o: Pos) => this.drawPos(o), alpha: this.alpha };
+  }
+
+  // The current frame as plain text: the character grid as shown, or outside
+  // that mode the world rasterised at 100 x 40.
+  frameText(): string {
+    if (this.display.charGrid && this.grid) return this.grid.toText();
+    const grid = new CharGrid(100, 40);
+    grid.render(this.sim, this.gridView());
+    return grid.toText();
+  }
+
+  // Lane lines every 2 units across. Each is straight on screen too, so
+  // WebGL draws it as one segment and projects the ends in the shader.
+  private renderLaneGrid() {
+    const edge = this.sim.laneEdge;
+    if (this.gl) {
+      const segs: number[] = [];
+      for (let x = -edge; x <= edge; x += 2) segs.push(x, 6, x, 1986);
+      this.gl.lines(new Float32Array(segs), "#e8eef5", 0.18);
+      return;
+    }
+    const ctx = this.ctx;
+    ctx.globalAlpha = 0.18;
+    ctx.strokeStyle = "#e8eef5";
+    ctx.lineWidth = 1;
+    for (let x = -edge; x <= edge; x += 2) {
+      ctx.beginPath();
+      let first = true;
+      for (let z = 6; z <= 2000; z += 20) {
+        const s = this.project(x, z);
+        if (first) { ctx.moveTo(s.screenX, s.screenY); first = false; }
+        else ctx.lineTo(s.screenX, s.screenY);
+      }
+      ctx.stroke();
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  // Text in the world (enemies, bosses, pickups, shots), centred on (x, y):
+  // fillText, or glyph quads when WebGL draws the world.
+  private worldText(text: string, x: number, y: number, size: number, color: string, alpha: number, bold = false) {
+    if (this.gl) { this.gl.text(text, x, y, size, color, alpha, bold); return; }
+    const ctx = this.ctx;
+    ctx.font = `${bold ? "bold " : ""}${size}px ui-monospace, monospace`;
+    ctx.globalAlpha = alpha;
+    ctx.fillStyle = color;
+    ctx.fillText(text, x, y);
+    ctx.globalAlpha = 1;
+  }
+
+  // Sand, back to front, one atlas drawImage per grain. The draw order is a
+  // sorted index list: the simulation's own order must not depend on rendering.
+  // WebGL gets each grain's lane position and does projection, size and fade
+  // in its shader; the screen-space easing below is Canvas-only.
+  private renderParticles(h: number) {
+    const ctx = this.ctx;
+    const gl = this.gl;
+    const ps = this.sim.particles;
+    const n = ps.count;
+    if (this.order.length < n) this.order = new Uint32Array(ps.capacity);
+    const order = this.order.subarray(0, n);
+    for (let i = 0; i < n; i++) order[i] = i;
+    order.sort((a, b) => ps.z[b] - ps.z[a]);
+
+    const multi = this.sim.players.length > 1;
+    const lf = 1 - Math.pow(1 - PARTICLE_SMOOTH, this.frameDt * STEP_HZ);
+    const a = this.alpha;
+    const view = this.sand;
+    view.sync(ps);
+    for (const i of order) {
+      if (drawKey(ps.id[i]) >= this.display.particleDensity) continue;
+      let x = ps.x[i], z = ps.z[i];
+      const dx = x - ps.px[i], dz = z - ps.pz[i];
+      if (Math.abs(dx) <= SNAP_DIST && Math.abs(dz) <= SNAP_DIST) { x -= dx * (1 - a); z -= dz * (1 - a); }
+      const color = multi ? PLAYER_COLORS[ps.owner[i]] : SOLO_SAND;
+      if (gl) {
+        gl.sand(x, z, PARTICLE_CHARS[this.glyphForDepth(ps.z[i], ps.ch[i])], color);
+        view.size[i] = NaN; // eases in afresh if Canvas 2D takes over
+        continue;
+      }
+      const s = this.project(x, z);
+      const st = this.sandStyleForY(s.screenY, h);
+      const fresh = Number.isNaN(view.size[i]);
+      const sx = view.screenX[i] = fresh ? s.screenX : view.screenX[i] + (s.screenX - view.screenX[i]) * lf;
+      const sy = view.screenY[i] = fresh ? s.screenY : view.screenY[i] + (s.screenY - view.screenY[i]) * lf;
+      const size = view.size[i] = fresh ? st.size : view.size[i] + (st.size - view.size[i]) * lf;
+      // a faint pass at 0.22 under the glyph at st.alpha, folded into one draw
+      ctx.globalAlpha = 1 - 0.78 * (1 - st.alpha);
+      this.sandAtlas(color).draw(ctx, this.glyphForDepth(ps.z[i], ps.ch[i]), size, sx, sy);
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  private sandAtlas(color: string) {
+    let atlas = this.atlases.get(color);
+    if (!atlas) {
+      atlas = new GlyphAtlas(PARTICLE_CHARS, color);
+      this.atlases.set(color, atlas);
+    }
+    return atlas;
   }
 
   private renderEnemy(e: Enemy, baseFont: number, _h: number) {
     const ctx = this.ctx;
-    const es = this.project(e.x, e.z);
+    const at = this.drawPos(e);
+    const es = this.project(at.x, at.z);
     const enemySize = Math.round(Math.max(12, Math.min(28, Math.round(baseFont * (0.7 + es.p * 0.9)))) * e.scale);
     const lineH = enemySize * 1.3;
-    const lines = [this.enemyFace(e), ...this.enemyBody(e)];
+    const lines = enemySprite(e, this.sim.pack.enemies[e.kind], !this.display.reduceFlashing);
     const totalH = lines.length * lineH;
     const topY = es.screenY - totalH / 2;
 
-    ctx.font = `${enemySize}px ui-monospace, monospace`;
-
     // shadow
-    ctx.globalAlpha = 0.22;
-    ctx.fillStyle = "#000";
-    lines.forEach((line, i) => ctx.fillText(line, es.screenX + 6, topY + i * lineH + lineH / 2 + 6));
+    lines.forEach((line, i) => this.worldText(line, es.screenX + 6, topY + i * lineH + lineH / 2 + 6, enemySize, "#000", 0.22));
 
     // shield glow
-    if (e.kind === "shielded" && e.behavior.shieldHP > 0) {
-      const pct = e.behavior.shieldHP / e.behavior.shieldHPMax;
-      ctx.globalAlpha = 0.18 + pct * 0.25;
-      ctx.strokeStyle = e.behavior.shieldFlash > 0 ? "#ffe066" : "#66cfff";
+    const shield = enemyType(e.kind).shield?.(e);
+    if (shield) {
+      ctx.globalAlpha = 0.18 + shield.pct * 0.25;
+      ctx.strokeStyle = shield.flash && !this.display.reduceFlashing ? "#ffe066" : "#66cfff";
       ctx.lineWidth = 2;
       ctx.beginPath();
       ctx.ellipse(es.screenX, es.screenY, enemySize * 2.2, totalH * 0.6, 0, 0, Math.PI * 2);
@@ -495,17 +753,88 @@ export class Game {
     }
 
     // body
-    const colors: Record<EnemyKind, string> = { small: "#e8eef5", normal: "#e8eef5", big: "#ffb347", dodger: "#a8f0c8", rusher: "#ff7f7f", shielded: "#b0c8ff" };
     ctx.globalAlpha = 1;
-    ctx.fillStyle = e.flash > 0 ? "#ff9a9a" : colors[e.kind];
-    lines.forEach((line, i) => ctx.fillText(line, es.screenX, topY + i * lineH + lineH / 2));
+    const color = this.flashing(e.flash) ? "#ff9a9a" : this.sim.pack.enemies[e.kind].color;
+    lines.forEach((line, i) => this.worldText(line, es.screenX, topY + i * lineH + lineH / 2, enemySize, color, 1));
 
     // HP bar
-    if (e.z < 22 || e.hp < e.hpMax) this.renderEnemyHPBar(e, es.screenX, topY - 10, enemySize);
+    if (e.z < 22 || e.hp < e.hpMax) this.renderEnemyHPBar(e, es.screenX, topY - 10, enemySize, shield?.pct ?? 0);
+    ctx.globalAlpha = 1;
+  }
+
+  private renderPickup(u: Pickup, baseFont: number) {
+    const def = POWER_UPS[u.kind];
+    const at = this.drawPos(u);
+    const s = this.project(at.x, at.z);
+    const size = Math.round(Math.max(12, Math.min(30, baseFont * (0.8 + s.p * 1.1))));
+    const bob = Math.sin(u.age / 9) * size * 0.25;
+    // fills in as sand lands on it
+    this.worldText(def.glyph, s.screenX, s.screenY + bob, size, def.color, 0.55 + 0.45 * (1 - u.hits / PICKUP_HITS), true);
+  }
+
+  private renderBoss(b: Boss, baseFont: number) {
+    const ctx = this.ctx;
+    const at = this.drawPos(b);
+    const s = this.project(at.x, at.z);
+    const size = Math.round(Math.max(14, Math.min(34, baseFont * (0.9 + s.p * 1.2))));
+    const lineH = size * 1.1;
+    const topY = s.screenY - (b.def.art.length * lineH) / 2;
+    b.def.art.forEach((line, i) => this.worldText(line, s.screenX + 8, topY + i * lineH + lineH / 2 + 8, size, "#000", 0.22, true));
+
+    if (b.shieldHP > 0) {
+      const pct = b.shieldHP / b.shieldHPMax;
+      ctx.font = `bold ${size}px ui-monospace, monospace`;
+      const rx = ctx.measureText(b.def.art[0]).width * 0.7;
+      ctx.globalAlpha = 0.2 + pct * 0.3;
+      ctx.strokeStyle = b.shieldFlash > 0 ? "#ffe066" : "#66cfff";
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.ellipse(s.screenX, s.screenY, rx, b.def.art.length * lineH * 0.75, 0, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    ctx.globalAlpha = 1;
+    const color = this.flashing(b.flash) ? "#ff9a9a" : b.def.color;
+    b.def.art.forEach((line, i) => this.worldText(line, s.screenX, topY + i * lineH + lineH / 2, size, color, 1, true));
+  }
+
+  private renderProjectile(pr: Projectile, baseFont: number) {
+    const at = this.drawPos(pr);
+    const s = this.project(at.x, at.z);
+    const size = Math.round(Math.max(12, Math.min(30, baseFont * (0.8 + s.p * 1.1))));
+    if (pr.reflected) {
+      const color = this.sim.players.length > 1 ? PLAYER_COLORS[pr.owner] : "#ffe066";
+      this.worldText("*", s.screenX, s.screenY, size, color, 0.9, true);
+    } else {
+      // fades as guarding sand wears it down
+      const color = pr.age % 10 < 5 ? "#ff5555" : "#ff9a4c";
+      this.worldText(pr.glyph, s.screenX, s.screenY, size, color, 0.4 + 0.5 * (pr.hp / PROJECTILE_HP), true);
+    }
+  }
+
+  // Wide bar under the HUD: name, phase pips, HP and shield.
+  private renderBossBar(b: Boss, w: number, top: number) {
+    const ctx = this.ctx;
+    const barW = Math.min(420, w * 0.5), barH = 8, x = w / 2 - barW / 2, y = top + 22;
+    ctx.textAlign = "center";
+    ctx.font = `bold 11px ui-monospace, monospace`;
+    ctx.globalAlpha = 0.9; ctx.fillStyle = b.def.color;
+    const pips = b.def.phases.map((_, i) => (i <= b.phase ? "\u25C6" : "\u25C7")).join("");
+    ctx.fillText(`${b.def.name}  ${pips}`, w / 2, top + 12);
+    ctx.globalAlpha = 0.5; ctx.fillStyle = "#1a2030"; ctx.fillRect(x, y, barW, barH);
+    ctx.globalAlpha = 0.9; ctx.fillStyle = this.flashing(b.flash) ? "#ff9a9a" : "#ff5555";
+    ctx.fillRect(x, y, barW * Math.max(0, b.hp / b.hpMax), barH);
+    // phase thresholds
+    ctx.globalAlpha = 0.6; ctx.fillStyle = "#e8eef5";
+    for (const p of b.def.phases.slice(1)) ctx.fillRect(x + barW * p.at, y - 2, 1, barH + 4);
+    if (b.shieldHP > 0) {
+      ctx.globalAlpha = 0.8; ctx.fillStyle = "#66cfff";
+      ctx.fillRect(x, y + barH + 2, barW * (b.shieldHP / b.shieldHPMax), 3);
+    }
     ctx.globalAlpha = 1;
   }
 
-  private renderEnemyHPBar(e: Enemy, cx: number, y: number, size: number) {
+  private renderEnemyHPBar(e: Enemy, cx: number, y: number, size: number, shieldPct: number) {
     const ctx = this.ctx;
     const barW = size * 3.5, barH = 5, x = cx - barW / 2;
     const pct = Math.max(0, e.hp / e.hpMax);
@@ -513,9 +842,9 @@ export class Game {
     ctx.globalAlpha = 0.9;
     ctx.fillStyle = pct > 0.5 ? "#4cff8a" : pct > 0.25 ? "#ffd966" : "#ff5555";
     ctx.fillRect(x, y, barW * pct, barH);
-    if (e.kind === "shielded" && e.behavior.shieldHP > 0) {
+    if (shieldPct > 0) {
       ctx.globalAlpha = 0.7; ctx.fillStyle = "#66cfff";
-      ctx.fillRect(x, y - 7, barW * (e.behavior.shieldHP / e.behavior.shieldHPMax), 4);
+      ctx.fillRect(x, y - 7, barW * shieldPct, 4);
     }
     ctx.globalAlpha = 1;
   }
@@ -551,21 +880,33 @@ export class Game {
     ctx.globalAlpha = 0.5; ctx.fillStyle = "#e8eef5";
     ctx.font = labelFont; ctx.fillText("WAVE", PAD, LABEL_Y);
     ctx.globalAlpha = 1; ctx.fillStyle = "#ffe066";
-    ctx.font = valueFont; ctx.fillText(`${this.waveIndex + 1}`, PAD, VALUE_Y);
+    ctx.font = valueFont; ctx.fillText(`${this.sim.waveIndex + 1}`, PAD, VALUE_Y);
 
     // ---- SCORE ----
     const scoreX = PAD + 72;
     ctx.globalAlpha = 0.5; ctx.fillStyle = "#e8eef5";
     ctx.font = labelFont; ctx.fillText("SCORE", scoreX, LABEL_Y);
-    ctx.globalAlpha = 1; ctx.fillStyle = "#e8eef5";
-    ctx.font = valueFont; ctx.fillText(`${this.score}`, scoreX, VALUE_Y);
+    if (this.sim.players.length > 1) {
+      // per-player scores in their sand colours
+      ctx.font = valueFont;
+      let x = scoreX;
+      this.sim.players.forEach((pl, i) => {
+        const text = `P${i + 1} ${pl.score}`;
+        ctx.globalAlpha = 1; ctx.fillStyle = PLAYER_COLORS[i];
+        ctx.fillText(text, x, VALUE_Y);
+        x += ctx.measureText(text).width + 14;
+      });
+    } else {
+      ctx.globalAlpha = 1; ctx.fillStyle = "#e8eef5";
+      ctx.font = valueFont; ctx.fillText(`${this.sim.score}`, scoreX, VALUE_Y);
+    }
 
     // ---- CENTER: HP bar + label ----
     const hpBarW = Math.min(260, w * 0.30);
     const hpBarH = 12;
     const hpBarX = w / 2 - hpBarW / 2;
     const hpBarY = VALUE_Y - hpBarH / 2;
-    const hpPct = Math.max(0, this.playerHP / 100);
+    const hpPct = Math.max(0, this.sim.playerHP / 100);
     const hpColor = hpPct > 0.5 ? "#4cff8a" : hpPct > 0.25 ? "#ffd966" : "#ff5555";
 
     ctx.globalAlpha = 0.5; ctx.fillStyle = "#e8eef5";
@@ -584,10 +925,10 @@ export class Game {
     // numeric value to the RIGHT of the bar
     ctx.globalAlpha = 1; ctx.fillStyle = hpColor;
     ctx.font = valueFont; ctx.textAlign = "left";
-    ctx.fillText(`${Math.ceil(this.playerHP)}`, hpBarX + hpBarW + 10, VALUE_Y);
+    ctx.fillText(`${Math.ceil(this.sim.playerHP)}`, hpBarX + hpBarW + 10, VALUE_Y);
 
     // ---- RIGHT: ENEMIES label + count on same row, dots on value row ----
-    const remaining = this.enemies.length + this.pendingSpawns.length;
+    const remaining = this.sim.enemies.length + this.sim.pendingSpawns.length + (this.sim.boss ? 1 : 0);
     ctx.textAlign = "right";
 
    // "ENEMIES" label dimmed
@@ -601,10 +942,9 @@ export class Game {
       ctx.textAlign = "right";
       ctx.fillText(`${remaining}`, w - PAD, LABEL_Y);
     // enemy type dots on the value row
-    const dotColors: Record<EnemyKind, string> = { small: "#e8eef5", normal: "#e8eef5", big: "#ffb347", dodger: "#a8f0c8", rusher: "#ff7f7f", shielded: "#b0c8ff" };
-    this.enemies.slice(0, 8).forEach((e, i) => {
+    this.sim.enemies.slice(0, 8).forEach((e, i) => {
       ctx.globalAlpha = 0.8;
-      ctx.fillStyle = dotColors[e.kind];
+      ctx.fillStyle = this.sim.pack.enemies[e.kind].color;
       ctx.beginPath();
       ctx.arc(w - PAD - i * 14, VALUE_Y, 3.5, 0, Math.PI * 2);
       ctx.fill();
@@ -612,23 +952,63 @@ export class Game {
 
     ctx.globalAlpha = 1;
 
+    if (this.sim.boss) this.renderBossBar(this.sim.boss, w, HUD_H);
+
+    // power-up timers, under the HUD on the left
+    ctx.font = labelFont; ctx.textAlign = "left";
+    this.sim.effects.forEach((fx, i) => {
+      const def = POWER_UPS[fx.kind];
+      const y = HUD_H + 16 + i * 16;
+      const who = fx.player >= 0 && this.sim.players.length > 1 ? `P${fx.player + 1} ` : "";
+      ctx.globalAlpha = 0.9; ctx.fillStyle = def.color;
+      ctx.fillText(`${def.glyph} ${who}${def.label} ${seconds(fx.remaining).toFixed(1)}s`, PAD, y);
+      ctx.globalAlpha = 0.5;
+      ctx.fillRect(PAD, y + 7, 110 * (fx.remaining / steps(def.duration)), 2);
+    });
+    ctx.globalAlpha = 1;
+
+    // special attack charge, bottom right
+    ctx.font = labelFont; ctx.textAlign = "right";
+    this.sim.players.forEach((pl, i) => {
+      const ready = pl.burstCooldown === 0;
+      const filled = Math.round((1 - pl.burstCooldown / BURST_COOLDOWN) * 5);
+      const who = this.sim.players.length > 1 ? `P${i + 1} ` : "";
+      ctx.globalAlpha = ready ? 0.9 : 0.5;
+      ctx.fillStyle = this.sim.players.length > 1 ? PLAYER_COLORS[i] : ready ? "#ffe066" : "#e8eef5";
+      const guard = this.sim.isGuarding(i) ? "GUARD  " : "";
+      ctx.fillText(`${guard}${who}BURST ${"\u25AE".repeat(filled)}${"\u25AF".repeat(5 - filled)}`, w - PAD, h - 10 - i * 14);
+    });
+    ctx.globalAlpha = 1;
+
     if (this.debug) {
       ctx.textAlign = "left"; ctx.font = labelFont; ctx.fillStyle = "#e8eef5"; ctx.globalAlpha = 0.65;
-      ctx.fillText(`wind(${this.windXZ.x.toFixed(3)}, ${this.windXZ.z.toFixed(3)})  spread:${this.spread.toFixed(2)}  particles:${this.particles.length}`, PAD, h - 10);
+      const winds = this.sim.players.map(pl =>
+        `wind(${pl.windXZ.x.toFixed(3)}, ${pl.windXZ.z.toFixed(3)})  spread:${pl.spread.toFixed(2)}`).join("  |  ");
+      ctx.fillText(`${winds}  particles:${this.sim.particles.count}`, PAD, h - 10);
       ctx.globalAlpha = 1;
     }
   }
 
+  private finalScoreLine() {
+    const sim = this.sim;
+    if (sim.mode === "solo") return `Final Score: ${sim.score}`;
+    const scores = sim.players.map((pl, i) => `P${i + 1} ${pl.score}`).join("  ");
+    if (sim.mode === "coop") return `Team Score: ${sim.score}  (${scores})`;
+    const lead = sim.leader();
+    return `${lead < 0 ? "DRAW" : `P${lead + 1} WINS`}  —  ${scores}`;
+  }
+
   private sandStyleForY(screenY: number, h: number) {
-    const raw = Math.max(0, Math.min(1, (screenY - h * this.horizonPct) / (h - h * this.horizonPct)));
+    const raw = Math.max(0, Math.min(1, (screenY - h * VIEW.horizonPct) / (h - h * VIEW.horizonPct)));
     const t = Math.pow(raw, 0.7);
     return { size: 10 + 8 * t, alpha: 0.25 + 0.70 * t };
   }
 
-  private glyphForDepth(z: number, fallback: string) {
-    if (z > 26) return ".";
-    if (z > 16) return ":";
-    if (z > 8) return "*";
+  // index into PARTICLE_CHARS: far grains are dots, near ones their own glyph
+  private glyphForDepth(z: number, fallback: number) {
+    if (z > 26) return 0;
+    if (z > 16) return 1;
+    if (z > 8) return 2;
     return fallback;
   }
 }
\ No newline at end of file
@@ -0,0 +1,199 @@
+// Discrete hand gestures on top of the 21 MediaPipe landmarks HandWind already
+// gets every frame. Static poses (open palm, fist, thumbs up, pinch) must be
+// held above a confidence threshold for a while before they fire, and fire
+// once per hold; swipes are fast sideways wrist moves. Everything is
+// debounced here so Game / main.ts just bind to events.
+//
+// Landmark indices: 0 wrist, thumb 1-4, index 5-8, middle 9-12, ring 13-16,
+// pinky 17-20 (MCP, PIP, DIP, TIP for the fingers).
+
+export type HandPoint = { x: number; y: number };
+
+export type GestureEvent = {
+  hand: number;       // HandWind track index (= player in two-player modes)
+  confidence: number; // 0..1, averaged over the hold
+};
+
+export type GestureEventMap = {
+  openPalm: GestureEvent;
+  fist: GestureEvent;
+  thumbsUp: GestureEvent;
+  pinchHold: GestureEvent;
+  swipeLeft: GestureEvent;  // directions as the player sees the mirrored preview
+  swipeRight: GestureEvent;
+};
+export type GestureKind = keyof GestureEventMap;
+type Listeners = { [K in GestureKind]: Array<(e: GestureEventMap[K]) => void> };
+
+type PoseKind = "openPalm" | "fist" | "thumbsUp" | "pinchHold";
+
+export type GestureConfig = {
+  threshold: number;                 // minimum pose confidence
+  holdMs: Record<PoseKind, number>;  // how long a pose must be held
+  stillness: number;                 // max wrist drift during a palm / thumbs-up hold (hand sizes)
+  swipeDistance: number;             // min wrist travel, fraction of frame width
+  swipeWindowMs: number;             // ...within this long
+  cooldownMs: number;                // after any event, per hand
+};
+
+export const DEFAULT_GESTURE_CONFIG: GestureConfig = {
+  threshold: 0.7,
+  // open palm is close to the normal wide-spread play pose, so it needs the
+  // longest (and stillest) hold
+  holdMs: { openPalm: 700, fist: 250, thumbsUp: 450, pinchHold: 600 },
+  stillness: 0.6,
+  swipeDistance: 0.3,
+  swipeWindowMs: 300,
+  cooldownMs: 600,
+};
+
+const FINGERS = [
+  { pip: 6, tip: 8 },
+  { pip: 10, tip: 12 },
+  { pip: 14, tip: 16 },
+  { pip: 18, tip: 20 },
+];
+
+function dist(a: HandPoint, b: HandPoint) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function unit(v: number) {
+  return Math.max(0, Math.min(1, v));
+}
+
+// Per-pose confidences for one frame of landmarks.
+export function poseScores(hand: HandPoint[]): Record<PoseKind, number> {
+  const wrist = hand[0];
+  const size = Math.max(1e-4, dist(wrist, hand[9])); // wrist -> middle MCP
+
+  // a straight finger's tip is well beyond its PIP joint (seen from the wrist)
+  const ext = FINGERS.map(f => unit((dist(wrist, hand[f.tip]) / Math.max(1e-4, dist(wrist, hand[f.pip])) - 1.0) / 0.4));
+  // every finger, not on average: the pointing play pose must not read as a fist
+  const allExtended = Math.min(...ext);
+  const allCurled = 1 - Math.max(...ext);
+
+  const thumbOut = unit((dist(hand[4], hand[5]) / size - 0.35) / 0.35);
+  // image y grows downward
+  const thumbUp = unit(((hand[2].y - hand[4].y) / size - 0.3) / 0.4);
+  const pinch = unit(1 - (dist(hand[4], hand[8]) / size - 0.15) / 0.2);
+
+  return {
+    openPalm: Math.min(allExtended, thumbOut, 1 - pinch),
+    fist: Math.min(allCurled, 1 - thumbUp),
+    thumbsUp: Math.min(allCurled, thumbUp),
+    // the other fingers may do anything, but not a full fist
+    pinchHold: Math.min(pinch, 1 - allCurled),
+  };
+}
+
+type HandState = {
+  pose: PoseKind | null;
+  since: number;
+  confSum: number;
+  frames: number;
+  fired: boolean;
+  anchor: HandPoint | null;     // wrist at the start of the hold
+  trail: Array<{ x: number; t: number }>;
+  cooldownUntil: number;
+};
+
+function freshState(): HandState {
+  return { pose: null, since: 0, confSum: 0, frames: 0, fired: false, anchor: null, trail: [], cooldownUntil: 0 };
+}
+
+export class GestureRecognizer {
+  private cfg: GestureConfig;
+  private hands: HandState[] = [];
+  private listeners: Listeners = { openPalm: [], fist: [], thumbsUp: [], pinchHold: [], swipeLeft: [], swipeRight: [] };
+  enabled = true;
+
+  constructor(cfg: GestureConfig = DEFAULT_GESTURE_CONFIG) {
+    this.cfg = cfg;
+  }
+
+  on<K extends GestureKind>(type: K, fn: (e: GestureEventMap[K]) => void): () => void {
+    const list = this.listeners[type];
+    list.push(fn);
+    return () => {
+      const i = list.indexOf(fn);
+      if (i >= 0) list.splice(i, 1);
+    };
+  }
+
+  private emit<K extends GestureKind>(type: K, e: GestureEventMap[K]) {
+    for (const fn of this.listeners[type]) fn(e);
+  }
+
+  // The pose currently being held on a hand (for overlays), if any.
+  current(hand: number): { pose: PoseKind; confidence: number } | null {
+    const s = this.hands[hand];
+    if (!s?.pose || s.frames === 0) return null;
+    return { pose: s.pose, confidence: s.confSum / s.frames };
+  }
+
+  reset() {
+    this.hands = [];
+  }
+
+  // Feeds one frame for one hand (null when it wasn't seen). `now` in ms.
+  update(hand: number, points: HandPoint[] | null, now: number) {
+    const s = (this.hands[hand] ??= freshState());
+    if (!points || points.length < 21) {
+      Object.assign(s, freshState(), { cooldownUntil: s.cooldownUntil });
+      return;
+    }
+    if (!this.enabled) return;
+
+    if (this.detectSwipe(hand, s, points, now)) return;
+
+    const scores = poseScores(points);
+    let best: PoseKind | null = null;
+    for (const k of Object.keys(scores) as PoseKind[]) {
+      if (scores[k] >= this.cfg.threshold && (!best || scores[k] > scores[best])) best = k;
+    }
+
+    if (best !== s.pose) {
+      s.pose = best;
+      s.since = now;
+      s.confSum = 0;
+      s.frames = 0;
+      s.fired = false;
+      s.anchor = points[0];
+    }
+    if (!best) return;
+    s.confSum += scores[best];
+    s.frames++;
+
+    if (s.fired || now < s.cooldownUntil || now - s.since < this.cfg.holdMs[best]) return;
+    if ((best === "openPalm" || best === "thumbsUp") && s.anchor) {
+      const size = Math.max(1e-4, dist(points[0], points[9]));
+      if (dist(points[0], s.anchor) / size > this.cfg.stillness) {
+        // moving too much (probably playing): restart the hold from here
+        s.since = now;
+        s.anchor = points[0];
+        return;
+      }
+    }
+    s.fired = true;
+    s.cooldownUntil = now + this.cfg.cooldownMs;
+    this.emit(best, { hand, confidence: s.confSum / s.frames });
+  }
+
+  private detectSwipe(hand: number, s: HandState, points: HandPoint[], now: number) {
+    s.trail.push({ x: points[0].x, t: now });
+    while (s.trail.length > 0 && now - s.trail[0].t > this.cfg.swipeWindowMs) s.trail.shift();
+    if (now < s.cooldownUntil || s.trail.length < 3) return false;
+
+    const dx = s.trail[s.trail.length - 1].x - s.trail[0].x;
+    if (Math.abs(dx) < this.cfg.swipeDistance) return false;
+
+    s.trail = [];
+    s.cooldownUntil = now + this.cfg.cooldownMs;
+    s.pose = null;
+    const confidence = unit(Math.abs(dx) / (this.cfg.swipeDistance * 2) + 0.5);
+    // the raw camera frame is mirrored relative to the preview the player sees
+    this.emit(dx < 0 ? "swipeRight" : "swipeLeft", { hand, confidence });
+    return true;
+  }
+}
@@ -0,0 +1,375 @@
+// Optional WebGL2 backend for the world view: lane grid, sand and all the
+// glyph text (enemies, bosses, pickups, shots) as instanced quads textured
+// from a glyph atlas. Sand and the lane grid are projected in the vertex
+// shader with the same math as project() in projection.ts, and sand gets its
+// size and fade from depth like Game.sandStyleForY. The HUD and overlays stay
+// on the Canvas 2D canvas, which sits transparent on top of this one.
+//
+// Only core WebGL2 is used (no extensions, no float textures), so software
+// renderers work too. GLRenderer.create() returns null when WebGL2 isn't
+// available; Game then keeps drawing with Canvas 2D.
+
+import { VIEW } from "./projection";
+
+// Atlas glyphs are rasterised at this size and scaled per draw.
+const ATLAS_PX = 48;
+const ATLAS_SIZE = 1024;
+const CELL_H = Math.ceil(ATLAS_PX * 1.4);
+const PAD = 2;
+const FONT = "ui-monospace, monospace";
+
+// per instance: centre x, y (or lane x, z), quad w, h | atlas uv rect | rgba | world flag
+const FLOATS = 13;
+
+const GLYPH_VS = `#version 300 es
+layout(location = 0) in vec2 corner;
+layout(location = 1) in vec4 posSize;
+layout(location = 2) in vec4 uvRect;
+layout(location = 3) in vec4 color;
+layout(location = 4) in float world;
+uniform vec2 view;
+uniform vec4 geom; // fov, zNear, xScale, horizonPct
+uniform float floorSpan;
+out vec2 vUv;
+out vec4 vColor;
+
+vec2 project(vec2 lane) {
+  float p = geom.x / (lane.y + geom.y);
+  return vec2(view.x * 0.5 + lane.x * p * geom.z, view.y * geom.w + p * (view.y * floorSpan));
+}
+
+void main() {
+  vec2 centre = posSize.xy;
+  vec2 size = posSize.zw;
+  vColor = color;
+  if (world > 0.5) {
+    // sand: bigger and brighter towards the player (Game.sandStyleForY)
+    centre = project(posSize.xy);
+    float horizon = view.y * geom.w;
+    float t = pow(clamp((centre.y - horizon) / (view.y - horizon), 0.0, 1.0), 0.7);
+    size *= 10.0 + 8.0 * t;
+    vColor.a *= 1.0 - 0.78 * (1.0 - (0.25 + 0.70 * t));
+  }
+  vec2 px = centre + (corner - 0.5) * size;
+  gl_Position = vec4(px.x / view.x * 2.0 - 1.0, 1.0 - px.y / view.y * 2.0, 0.0, 1.0);
+  vUv = mix(uvRect.xy, uvRect.zw, corner);
+}`;
+
+const GLYPH_FS = `#version 300 es
+precision mediump float;
+uniform sampler2D atlas;
+in vec2 vUv;
+in vec4 vColor;
+out vec4 outColor;
+void main() {
+  outColor = vec4(vColor.rgb, vColor.a * texture(atlas, vUv).a);
+}`;
+
+const LINE_VS = `#version 300 es
+layout(location = 0) in vec2 lane;
+uniform vec2 view;
+uniform vec4 geom;
+uniform float floorSpan;
+void main() {
+  float p = geom.x / (lane.y + geom.y);
+  vec2 px = vec2(view.x * 0.5 + lane.x * p * geom.z, view.y * geom.w + p * (view.y * floorSpan));
+  gl_Position = vec4(px.x / view.x * 2.0 - 1.0, 1.0 - px.y / view.y * 2.0, 0.0, 1.0);
+}`;
+
+const LINE_FS = `#version 300 es
+precision mediump float;
+uniform vec4 color;
+out vec4 outColor;
+void main() {
+  outColor = color;
+}`;
+
+type Glyph = { u0: number; v0: number; u1: number; v1: number; w: number; h: number; advance: number };
+type Rgb = [number, number, number];
+
+// Glyphs rasterised on demand into one canvas, shelf-packed, uploaded to the
+// texture whenever something new was added. When it fills up it starts over.
+class GlyphAtlasTexture {
+  private canvas = document.createElement("canvas");
+  private ctx: CanvasRenderingContext2D;
+  private glyphs = new Map<string, Glyph>();
+  private x = 0;
+  private y = 0;
+  dirty = true;
+  solid: Glyph;
+
+  constructor() {
+    this.canvas.width = ATLAS_SIZE;
+    this.canvas.height = ATLAS_SIZE;
+    const ctx = this.canvas.getContext("2d");
+    if (!ctx) throw new Error("No 2D context");
+    this.ctx = ctx;
+    this.solid = this.reset();
+  }
+
+  source() {
+    return this.canvas;
+  }
+
+  get(ch: string, bold: boolean): Glyph {
+    const key = bold ? `b${ch}` : `n${ch}`;
+    let g = this.glyphs.get(key);
+    if (g) return g;
+    const ctx = this.ctx;
+    ctx.font = `${bold ? "bold " : ""}${ATLAS_PX}px ${FONT}`;
+    const advance = ctx.measureText(ch).width;
+    const w = Math.ceil(advance) + PAD * 2;
+    if (this.x + w > ATLAS_SIZE) { this.x = 0; this.y += CELL_H; }
+    if (this.y + CELL_H > ATLAS_SIZE) {
+      this.glyphs.clear();
+      this.solid = this.reset();
+      return this.get(ch, bold);
+    }
+    ctx.fillStyle = "#fff";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(ch, this.x + w / 2, this.y + CELL_H / 2);
+    g = this.region(this.x, this.y, w, CELL_H, advance);
+    this.x += w;
+    this.glyphs.set(key, g);
+    this.dirty = true;
+    return g;
+  }
+
+  // Clears the canvas and reserves a solid block for rectangles.
+  private reset(): Glyph {
+    this.ctx.clearRect(0, 0, ATLAS_SIZE, ATLAS_SIZE);
+    this.ctx.fillStyle = "#fff";
+    this.ctx.fillRect(0, 0, 4, 4);
+    this.x = 8;
+    this.y = 0;
+    this.dirty = true;
+    // sample the middle of the block so filtering never reaches its edge
+    return this.region(1, 1, 2, 2, 0);
+  }
+
+  private region(x: number, y: number, w: number, h: number, advance: number): Glyph {
+    return { u0: x / ATLAS_SIZE, v0: y / ATLAS_SIZE, u1: (x + w) / ATLAS_SIZE, v1: (y + h) / ATLAS_SIZE, w, h, advance };
+  }
+}
+
+function compile(gl: WebGL2RenderingContext, vs: string, fs: string): WebGLProgram {
+  const program = gl.createProgram();
+  for (const [type, src] of [[gl.VERTEX_SHADER, vs], [gl.FRAGMENT_SHADER, fs]] as const) {
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error("Could not create shader");
+    gl.shaderSource(shader, src);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) throw new Error(gl.getShaderInfoLog(shader) ?? "Shader error");
+    gl.attachShader(program, shader);
+  }
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(gl.getProgramInfoLog(program) ?? "Link error");
+  return program;
+}
+
+export class GLRenderer {
+  readonly canvas: HTMLCanvasElement;
+  private gl: WebGL2RenderingContext;
+  private glyphProgram: WebGLProgram;
+  private lineProgram: WebGLProgram;
+  private glyphVao: WebGLVertexArrayObject;
+  private lineVao: WebGLVertexArrayObject;
+  private instanceBuf: WebGLBuffer;
+  private lineBuf: WebGLBuffer;
+  private texture: WebGLTexture;
+  private atlas = new GlyphAtlasTexture();
+  private data = new Float32Array(FLOATS * 4096);
+  private count = 0;
+  private w = 1;
+  private h = 1;
+  private colors = new Map<string, Rgb>();
+  private colorCtx: CanvasRenderingContext2D | null;
+  private lost = false;
+  private lostHandlers: Array<() => void> = [];
+
+  // null if WebGL2 (or compiling the shaders) isn't possible here
+  static create(canvas: HTMLCanvasElement): GLRenderer | null {
+    const gl = canvas.getContext("webgl2", {
+      alpha: false, antialias: false, premultipliedAlpha: false, failIfMajorPerformanceCaveat: false,
+    });
+    if (!gl) return null;
+    try {
+      return new GLRenderer(canvas, gl);
+    } catch (e) {
+      console.warn("WebGL renderer unavailable", e);
+      return null;
+    }
+  }
+
+  private constructor(canvas: HTMLCanvasElement, gl: WebGL2RenderingContext) {
+    this.canvas = canvas;
+    this.gl = gl;
+    this.glyphProgram = compile(gl, GLYPH_VS, GLYPH_FS);
+    this.lineProgram = compile(gl, LINE_VS, LINE_FS);
+    this.colorCtx = document.createElement("canvas").getContext("2d");
+
+    // unit quad corners (shared by every instance), then the instance data
+    this.glyphVao = gl.createVertexArray();
+    gl.bindVertexArray(this.glyphVao);
+    const quad = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+    this.instanceBuf = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuf);
+    const stride = FLOATS * 4;
+    [[1, 4, 0], [2, 4, 4], [3, 4, 8], [4, 1, 12]].forEach(([loc, size, offset]) => {
+      gl.enableVertexAttribArray(loc);
+      gl.vertexAttribPointer(loc, size, gl.FLOAT, false, stride, offset * 4);
+      gl.vertexAttribDivisor(loc, 1);
+    });
+
+    this.lineVao = gl.createVertexArray();
+    gl.bindVertexArray(this.lineVao);
+    this.lineBuf = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.lineBuf);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+    gl.bindVertexArray(null);
+
+    this.texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    canvas.addEventListener("webglcontextlost", (e) => {
+      e.preventDefault();
+      this.lost = true;
+      for (const fn of this.lostHandlers) fn();
+    });
+  }
+
+  isLost() { return this.lost; }
+
+  // Called once if the GPU context goes away; Game falls back to Canvas 2D.
+  onLost(fn: () => void) { this.lostHandlers.push(fn); }
+
+  // Starts a frame: sizes the canvas, clears to `background`.
+  begin(w: number, h: number, background: string) {
+    const gl = this.gl;
+    if (this.canvas.width !== w || this.canvas.height !== h) {
+      this.canvas.width = w;
+      this.canvas.height = h;
+    }
+    this.w = w;
+    this.h = h;
+    this.count = 0;
+    gl.viewport(0, 0, w, h);
+    const [r, g, b] = this.rgb(background);
+    gl.clearColor(r, g, b, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+  }
+
+  // Straight lane-space lines (x0, z0, x1, z1 per segment), drawn right away:
+  // call before anything queued with sand() / text() / rect().
+  lines(segments: Float32Array, color: string, alpha: number) {
+    const gl = this.gl;
+    gl.useProgram(this.lineProgram);
+    this.setView(this.lineProgram);
+    const [r, g, b] = this.rgb(color);
+    gl.uniform4f(gl.getUniformLocation(this.lineProgram, "color"), r, g, b, alpha);
+    gl.bindVertexArray(this.lineVao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.lineBuf);
+    gl.bufferData(gl.ARRAY_BUFFER, segments, gl.DYNAMIC_DRAW);
+    gl.drawArrays(gl.LINES, 0, segments.length / 2);
+    gl.bindVertexArray(null);
+  }
+
+  // One sand grain at lane (x, z); size and fade come from its depth.
+  sand(x: number, z: number, ch: string, color: string) {
+    const g = this.atlas.get(ch, false);
+    const [r, gr, b] = this.rgb(color);
+    this.push(x, z, g.w / ATLAS_PX, g.h / ATLAS_PX, g, r, gr, b, 1, 1);
+  }
+
+  // Text centred on (x, y) in pixels, like fillText with textAlign "center"
+  // and textBaseline "middle".
+  text(text: string, x: number, y: number, size: number, color: string, alpha: number, bold = false) {
+    const scale = size / ATLAS_PX;
+    const [r, g, b] = this.rgb(color);
+    let width = 0;
+    for (const ch of text) width += this.atlas.get(ch, bold).advance;
+    let pen = x - (width * scale) / 2;
+    for (const ch of text) {
+      const glyph = this.atlas.get(ch, bold);
+      if (ch !== " ") this.push(pen + (glyph.advance * scale) / 2, y, glyph.w * scale, glyph.h * scale, glyph, r, g, b, alpha, 0);
+      pen += glyph.advance * scale;
+    }
+  }
+
+  rect(x: number, y: number, w: number, h: number, color: string, alpha: number) {
+    const [r, g, b] = this.rgb(color);
+    this.push(x + w / 2, y + h / 2, w, h, this.atlas.solid, r, g, b, alpha, 0);
+  }
+
+  // Draws everything queued since begin() in one instanced call.
+  flush() {
+    const gl = this.gl;
+    if (this.count === 0) return;
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    if (this.atlas.dirty) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, this.atlas.source());
+      this.atlas.dirty = false;
+    }
+    gl.useProgram(this.glyphProgram);
+    this.setView(this.glyphProgram);
+    gl.uniform1i(gl.getUniformLocation(this.glyphProgram, "atlas"), 0);
+    gl.bindVertexArray(this.glyphVao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuf);
+    gl.bufferData(gl.ARRAY_BUFFER, this.data.subarray(0, this.count * FLOATS), gl.DYNAMIC_DRAW);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, this.count);
+    gl.bindVertexArray(null);
+    this.count = 0;
+  }
+
+  private setView(program: WebGLProgram) {
+    const gl = this.gl;
+    gl.uniform2f(gl.getUniformLocation(program, "view"), this.w, this.h);
+    gl.uniform4f(gl.getUniformLocation(program, "geom"), VIEW.fov, VIEW.zNear, VIEW.xScale, VIEW.horizonPct);
+    gl.uniform1f(gl.getUniformLocation(program, "floorSpan"), VIEW.floorSpanPct);
+  }
+
+  private push(x: number, y: number, w: number, h: number, g: Glyph,
+    r: number, gr: number, b: number, a: number, world: number) {
+    if ((this.count + 1) * FLOATS > this.data.length) {
+      const next = new Float32Array(this.data.length * 2);
+      next.set(this.data);
+      this.data = next;
+    }
+    const d = this.data, o = this.count++ * FLOATS;
+    d[o] = x; d[o + 1] = y; d[o + 2] = w; d[o + 3] = h;
+    d[o + 4] = g.u0; d[o + 5] = g.v0; d[o + 6] = g.u1; d[o + 7] = g.v1;
+    d[o + 8] = r; d[o + 9] = gr; d[o + 10] = b; d[o + 11] = a;
+    d[o + 12] = world;
+  }
+
+  // CSS colour -> 0..1 rgb, resolved by the browser (so any CSS colour works)
+  private rgb(color: string): Rgb {
+    let c = this.colors.get(color);
+    if (c) return c;
+    c = [1, 1, 1];
+    const ctx = this.colorCtx;
+    if (ctx) {
+      ctx.fillStyle = "#ffffff";
+      ctx.fillStyle = color;
+      const s = String(ctx.fillStyle);
+      const hex = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(s);
+      const fn = /^rgba?\(\s*(\d+)[,\s]+(\d+)[,\s]+(\d+)/i.exec(s);
+      const parts = hex ? hex.slice(1).map(h => parseInt(h, 16)) : fn ? fn.slice(1).map(Number) : null;
+      if (parts) c = [parts[0] / 255, parts[1] / 255, parts[2] / 255];
+    }
+    this.colors.set(color, c);
+    return c;
+  }
+}
@@ -0,0 +1,48 @@
+// Pre-rendered glyphs: a small canvas holding a few glyphs in one colour at
+// every whole font size up to maxSize, so the renderer draws a sand grain
+// with one drawImage instead of setting ctx.font and calling fillText per
+// grain.
+
+export class GlyphAtlas {
+  private canvas: HTMLCanvasElement;
+  private glyphCount: number;
+  private maxSize: number;
+  private rowY: number[] = []; // font size -> top of its row
+
+  constructor(glyphs: string[], color: string, maxSize = 32, font = "ui-monospace, monospace") {
+    this.glyphCount = glyphs.length;
+    this.maxSize = maxSize;
+    let y = 0;
+    for (let size = 1; size <= maxSize; size++) {
+      this.rowY[size] = y;
+      y += cellFor(size);
+    }
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = glyphs.length * cellFor(maxSize);
+    this.canvas.height = y;
+    const ctx = this.canvas.getContext("2d");
+    if (!ctx) throw new Error("No 2D context");
+    ctx.fillStyle = color;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    for (let size = 1; size <= maxSize; size++) {
+      const c = cellFor(size);
+      ctx.font = `${size}px ${font}`;
+      glyphs.forEach((g, i) => ctx.fillText(g, i * c + c / 2, this.rowY[size] + c / 2));
+    }
+  }
+
+  // Draws glyph `index` centred on (x, y), like fillText with textAlign
+  // "center" and textBaseline "middle". Sizes are rounded and clamped.
+  draw(ctx: CanvasRenderingContext2D, index: number, size: number, x: number, y: number) {
+    const s = Math.max(1, Math.min(this.maxSize, Math.round(size)));
+    const c = cellFor(s);
+    if (index < 0 || index >= this.glyphCount) return;
+    ctx.drawImage(this.canvas, index * c, this.rowY[s], c, c, x - c / 2, y - c / 2, c, c);
+  }
+}
+
+// square cell per font size, with room for the glyph's full height
+function cellFor(size: number) {
+  return Math.ceil(size * 1.5);
+}
@@ -1,14 +1,45 @@
 import { FilesetResolver, HandLandmarker } from "@mediapipe/tasks-vision";
+import { clamp, damp } from "./windInput";
+import type { Vec3, WindInput, WindSource } from "./windInput";
+import { HAND_MODEL_URL, MEDIAPIPE_WASM_BASE, fetchWithProgress } from "./assets";
+import type { LoadProgress } from "./assets";
+import { GestureRecognizer } from "./gestures";
 
-export type Vec3 = { x: number; y: number; z: number };
+export type { Vec3 } from "./windInput";
+
+type Landmark = { x: number; y: number; z: number };
 
 export type HandWindConfig = {
   maxWind: number;  // clamp raw velocity magnitude
-  smooth: number;   // lerp factor for smoothing
+  smooth: number;   // lerp factor for smoothing, per 60 Hz frame
+  detectHz?: number; // hand detections per second (default DETECT_HZ)
+  onLoadProgress?: (p: LoadProgress) => void; // WASM + model download
+  deviceId?: string; // camera to open; left out (or "") = the front camera
+
+  // Per-player calibration (see calibration.ts). Left out, spread uses the
+  // built-in range with auto-calibration and the pointer spans the full frame.
+  spreadMin?: number;    // index-middle tip distance that reads as fully focused
+  spreadMax?: number;    // ...and as fully wide; disables auto-calibration
+  spreadCurve?: number;  // response exponent (< 1 stays wide longer)
+  pointerMin?: number;   // fingertip x range mapped onto 0..1
+  pointerMax?: number;
+  handSize?: number;     // hand size when calibrated; the spread range and maxWind scale with it
 };
-function lerp(a: number, b: number, t: number) {
-  return a + (b - a) * t;
-}
+
+// Raw per-frame measurements, before clamping, smoothing and calibration.
+export type HandReading = {
+  fingerDist: number; // index-middle tip distance
+  tipX: number;       // index tip x, 0..1 in camera space
+  tipVz: number;      // index tip depth velocity (wind units)
+  handSize: number;   // wrist -> middle MCP, shrinks with camera distance
+};
+
+const SPREAD_MIN = 0.035;   // raise this to make "closed" harder to reach
+const SPREAD_FLOOR = 0.12;  // floor prevents hypersensitivity
+const SPREAD_CURVE = 0.6;
+// Detection runs on its own timer at this rate, whatever the display's
+// refresh rate; the game samples the latest result every frame.
+export const DETECT_HZ = 30;
 function clampMagnitude(v: Vec3, maxMag: number): Vec3 {
   const mag = Math.hypot(v.x, v.y, v.z);
   if (mag <= maxMag || mag === 0) return v;
@@ -16,90 +47,312 @@ function clampMagnitude(v: Vec3, maxMag: number): Vec3 {
   return { x: v.x * s, y: v.y * s, z: v.z * s };
 }
 
-export class HandWind {
+// Wind, spread and pointer state for one tracked hand.
+class HandTrack implements WindSource {
+  cfg: HandWindConfig;
+  hand2D: { x: number; y: number }[] | null = null;
+  reading: HandReading | null = null;
+  private lastTip: Vec3 | null = null;
+  private wind: Vec3 = { x: 0, y: 0, z: 0 };
+  // normalized spread (0 = fingers together / narrow, 1 = fingers far apart / wide)
+  private lastSpread = 1;
+  // last known pointer X (normalized 0..1)
+  private lastPointerX = 0.5;
+  // auto-calibrated maximum finger distance
+  private maxObservedDist = 0.08;
+  // hand size now / at calibration: nearer the camera, fingers look further
+  // apart and pushes read faster, so the calibrated ranges scale with it
+  private sizeRatio = 1;
+
+  constructor(cfg: HandWindConfig) {
+    this.cfg = cfg;
+  }
+
+  reset() {
+    this.hand2D = null;
+    this.reading = null;
+    this.lastTip = null;
+    this.wind = { x: 0, y: 0, z: 0 };
+    this.lastSpread = 1;
+    this.lastPointerX = 0.5;
+    this.sizeRatio = 1;
+  }
+
+  // landmarks for this hand this frame (null if it wasn't seen); dt in ms
+  update(hand: Landmark[] | null, dt: number) {
+    const sec = dt / 1000;
+    this.hand2D = hand ? hand.map(p => ({ x: p.x, y: p.y })) : null;
+
+    // Index fingertip is landmark 8
+    const lm = hand?.[8];
+    // middle fingertip is landmark 12
+    const mid = hand?.[12];
+    if (lm) {
+      // Convert normalized coords to pseudo "screen-space"
+      // (we'll treat it as 0..1 then scale later)
+      const tip: Vec3 = { x: lm.x, y: lm.y, z: lm.z };
+
+      // update pointer X directly (no smoothing here; smoothing can be
+      // applied downstream). calibrated range, clamped to 0..1
+      const pMin = this.cfg.pointerMin ?? 0, pMax = this.cfg.pointerMax ?? 1;
+      this.lastPointerX = Math.max(0, Math.min(1, (lm.x - pMin) / Math.max(0.05, pMax - pMin)));
+      this.reading = {
+        fingerDist: mid ? Math.hypot(lm.x - mid.x, lm.y - mid.y) : 0,
+        tipX: lm.x,
+        tipVz: this.lastTip ? (tip.z - this.lastTip.z) * 1000 / dt : 0,
+        handSize: Math.hypot(hand![0].x - hand![9].x, hand![0].y - hand![9].y),
+      };
+      const ratio = this.cfg.handSize ? clamp(this.reading.handSize / this.cfg.handSize, 0.5, 2) : 1;
+      this.sizeRatio = damp(this.sizeRatio, ratio, 0.1, sec);
+
+      if (this.lastTip) {
+        const vx = (tip.x - this.lastTip.x) * 1000 / dt;
+        const vz = (tip.z - this.lastTip.z) * 1000 / dt;
+
+        // We only really want X (left/right) and Z (depth).
+        // We'll keep y as 0 so up/down does nothing.
+        const raw: Vec3 = { x: vx, y: 0, z: vz };
+
+        const clamped = clampMagnitude(raw, this.cfg.maxWind * this.sizeRatio);
+        // Smooth
+        this.wind = {
+          x: damp(this.wind.x, clamped.x, this.cfg.smooth, sec),
+          y: damp(this.wind.y, clamped.y, this.cfg.smooth, sec),
+          z: damp(this.wind.z, clamped.z, this.cfg.smooth, sec),
+        };
+        // compute spread (distance between index tip and middle tip) if available
+        if (mid) {
+          const dx = lm.x - mid.x;
+          const dy = lm.y - mid.y;
+          const rawDist = Math.hypot(dx, dy);
+
+          // --- stable auto-calibration (prevents snapping) ---
+          const targetMax = Math.max(this.maxObservedDist, rawDist);
+          this.maxObservedDist = damp(this.maxObservedDist, targetMax, 0.05, sec);
+
+          // --- more forgiving mapping (a calibrated range replaces both) ---
+          const minD = (this.cfg.spreadMin ?? SPREAD_MIN) * this.sizeRatio;
+          const maxD = this.cfg.spreadMax !== undefined
+            ? this.cfg.spreadMax * this.sizeRatio
+            : Math.max(SPREAD_FLOOR, this.maxObservedDist);
+
+          let spread = (rawDist - minD) / Math.max(1e-3, maxD - minD);
+          spread = Math.max(0, Math.min(1, spread));
+
+          // --- soften response curve (stay wider longer) ---
+          spread = Math.pow(spread, this.cfg.spreadCurve ?? SPREAD_CURVE);
+
+          // smooth output
+          this.lastSpread = damp(this.lastSpread, spread, this.cfg.smooth, sec);
+        }
+      }
+      this.lastTip = tip;
+    } else {
+      // If no hand, decay wind toward zero
+      const decay = Math.pow(0.9, sec * 60);
+      this.wind = { x: this.wind.x * decay, y: this.wind.y * decay, z: this.wind.z * decay };
+      this.lastSpread = damp(this.lastSpread, 1, 0.1, sec); // slowly return to wide
+      this.lastTip = null;
+      this.reading = null;
+    }
+  }
+
+  getWind(): Vec3 {
+    return this.wind;
+  }
+
+  getSpread() {
+    return this.lastSpread;
+  }
+
+  getPointerX() {
+    return this.lastPointerX;
+  }
+}
+
+// Webcam hand tracking. With one hand, the first detected hand drives the
+// wind. With two (setHands(2)), each of the user's hands gets its own track,
+// told apart by MediaPipe handedness: track 0 is the left hand, track 1 the
+// right — one per player in the two-player modes.
+export class HandWind implements WindInput {
+  readonly mirrored = true;
   private video: HTMLVideoElement;
   private cfg: HandWindConfig;
 
   private landmarker: HandLandmarker | null = null;
   private running = false;
-private lastHand2D: { x: number; y: number }[] | null = null;
-
-getLastHand2D() {
-  return this.lastHand2D;
-}
-private lastTip: Vec3 | null = null;
-private wind: Vec3 = { x: 0, y: 0, z: 0 };
+  private hands: 1 | 2 = 1;
+  private tracks: HandTrack[];
+  // discrete gestures from the same landmarks; bind with gestures.on(...)
+  readonly gestures = new GestureRecognizer();
 
   private lastT = 0;
-  // normalized spread (0 = fingers together / narrow, 1 = fingers far apart / wide)
-  private lastSpread = 1;
-  // last known pointer X (normalized 0..1)
-  private lastPointerX = 0.5;
-  // auto-calibrated maximum finger distance
-  private maxObservedDist = 0.08;
+  private detectTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(video: HTMLVideoElement, cfg: HandWindConfig) {
     this.video = video;
     this.cfg = cfg;
+    this.tracks = [new HandTrack(cfg), new HandTrack(cfg)];
   }
 
   isRunning() {
     return this.running;
   }
 
-getWind(): Vec3 {
-  return this.wind;
-}
+  // Number of hands to track; takes effect immediately if already running.
+  async setHands(n: 1 | 2) {
+    if (n === this.hands) return;
+    this.hands = n;
+    for (const t of this.tracks) t.reset();
+    this.gestures.reset();
+    await this.landmarker?.setOptions({ numHands: n });
+  }
+
+  getHandCount() {
+    return this.hands;
+  }
+
+  // 0 = left hand, 1 = right hand (only meaningful with setHands(2))
+  getHand(index: number): WindSource {
+    return this.tracks[index];
+  }
+
+  // Applies (calibration) settings to one track; other fields are kept.
+  configureHand(index: number, patch: Partial<HandWindConfig>) {
+    const t = this.tracks[index];
+    t.cfg = { ...t.cfg, ...patch };
+  }
+
+  // Back to the shared config (drops any calibration).
+  resetHandConfig(index: number) {
+    this.tracks[index].cfg = this.cfg;
+  }
+
+  // raw measurements for the calibration wizard
+  getReading(index: number) {
+    return this.tracks[index].reading;
+  }
+
+  // landmarks per track, for the preview overlay
+  getHands2D() {
+    return this.tracks.slice(0, this.hands).map(t => t.hand2D);
+  }
+
+  getWind(): Vec3 {
+    return this.tracks[0].getWind();
+  }
+
+  getSpread() {
+    return this.tracks[0].getSpread();
+  }
+
+  getPointerX() {
+    return this.tracks[0].getPointerX();
+  }
 
   async start() {
     if (this.running) return;
 
-    // Start webcam stream
-    const stream = await navigator.mediaDevices.getUserMedia({
-      video: { facingMode: "user" },
-      audio: false,
-    });
-    this.video.srcObject = stream;
-    await this.video.play();
+    // Load MediaPipe tasks first (once — kept across stop/start) so a failed
+    // download doesn't leave the camera on
+    await this.loadLandmarker();
 
-    // Load MediaPipe tasks
-    const vision = await FilesetResolver.forVisionTasks(
-      "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm"
-    );
-
-    this.landmarker = await HandLandmarker.createFromOptions(vision, {
-      baseOptions: {
-        modelAssetPath:
-          "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
-      },
-      runningMode: "VIDEO",
-      numHands: 1,
-    });
+    await this.openCamera();
 
     this.running = true;
-    this.lastTip = null;
-     this.wind = { x: 0, y: 0, z:0 };
-
+    for (const t of this.tracks) t.reset();
     this.lastT = performance.now();
 
     this.detectLoop();
   }
 
-  async stop() {
-    this.running = false;
+  // Switches camera; reopens the stream if it's running.
+  async setCamera(deviceId: string) {
+    if ((this.cfg.deviceId ?? "") === deviceId) return;
+    this.cfg.deviceId = deviceId;
+    if (!this.running) return;
+    this.closeCamera();
+    await this.openCamera();
+  }
 
+  private async openCamera() {
+    const id = this.cfg.deviceId;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: id ? { deviceId: { exact: id } } : { facingMode: "user" },
+      audio: false,
+    });
+    this.video.srcObject = stream;
+    await this.video.play();
+  }
+
+  private closeCamera() {
     if (this.video.srcObject) {
       const tracks = (this.video.srcObject as MediaStream).getTracks();
       tracks.forEach((t) => t.stop());
       this.video.srcObject = null;
     }
-    this.lastTip = null;
-    this.wind = { x: 0, y: 0, z:0 };
-    this.lastSpread = 1;
-    this.lastPointerX = 0.5;
+  }
+
+  private async loadLandmarker() {
+    if (this.landmarker) return;
+    const report = this.cfg.onLoadProgress;
+
+    // picks the SIMD or non-SIMD build for this browser
+    const fileset = await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_BASE);
+    const wasm = await fetchWithProgress(fileset.wasmBinaryPath, (loaded, total) =>
+      report?.({ stage: "wasm", loaded, total }));
+    const model = await fetchWithProgress(HAND_MODEL_URL, (loaded, total) =>
+      report?.({ stage: "model", loaded, total }));
+
+    const wasmUrl = URL.createObjectURL(new Blob([wasm as BlobPart], { type: "application/wasm" }));
+    try {
+      this.landmarker = await HandLandmarker.createFromOptions(
+        { ...fileset, wasmBinaryPath: wasmUrl },
+        {
+          baseOptions: { modelAssetBuffer: model },
+          runningMode: "VIDEO",
+          numHands: this.hands,
+        },
+      );
+    } finally {
+      URL.revokeObjectURL(wasmUrl);
+    }
+  }
+
+  async stop() {
+    this.running = false;
+    if (this.detectTimer !== null) clearTimeout(this.detectTimer);
+    this.detectTimer = null;
+    this.closeCamera();
+    for (const t of this.tracks) t.reset();
+    this.gestures.reset();
+  }
+
+  // Which detected hand feeds which track. MediaPipe labels handedness as if
+  // the image were mirrored; the raw webcam frame isn't, so "Left" is the
+  // user's right hand. If both hands get the same label (it happens when they
+  // cross or overlap), fall back to position: in the raw frame the left hand
+  // is the one further right.
+  private assignHands(landmarks: Landmark[][], handedness: { categoryName: string }[][]) {
+    const out: (Landmark[] | null)[] = [null, null];
+    if (landmarks.length === 0) return out;
+    const side = (i: number) => (handedness[i]?.[0]?.categoryName === "Left" ? 1 : 0);
+
+    if (landmarks.length === 1) {
+      out[side(0)] = landmarks[0];
+    } else if (side(0) !== side(1)) {
+      out[side(0)] = landmarks[0];
+      out[side(1)] = landmarks[1];
+    } else {
+      const leftFirst = landmarks[0][0].x > landmarks[1][0].x;
+      out[0] = landmarks[leftFirst ? 0 : 1];
+      out[1] = landmarks[leftFirst ? 1 : 0];
+    }
+    return out;
   }
 
   private detectLoop = () => {
+    this.detectTimer = null;
     if (!this.running || !this.landmarker) return;
 
     const now = performance.now();
@@ -107,78 +360,26 @@ getWind(): Vec3 {
     this.lastT = now;
 
     const res = this.landmarker.detectForVideo(this.video, now);
-    const hand = res.landmarks?.[0];
-    this.lastHand2D = hand ? hand.map(p => ({ x: p.x, y: p.y })) : null;
-
-    // Index fingertip is landmark 8
-    const lm = res.landmarks?.[0]?.[8];
-    // middle fingertip is landmark 12
-    const mid = res.landmarks?.[0]?.[12];
-    if (lm) {
-      // Convert normalized coords to pseudo "screen-space"
-      // (we'll treat it as 0..1 then scale later)
-     const tip: Vec3 = { x: lm.x, y: lm.y, z: lm.z };
-
-      // update pointer X directly (no smoothing here; smoothing can be
-      // applied downstream). clamp to 0..1
-      this.lastPointerX = Math.max(0, Math.min(1, lm.x));
-
-      if (this.lastTip) {
-       const vx = (tip.x - this.lastTip.x) * 1000 / dt;
-
-        const vz = (tip.z - this.lastTip.z) * 1000 / dt;
-
-        // We only really want X (left/right) and Z (depth).
-        // We'll keep y as 0 so up/down does nothing.
-        const raw: Vec3 = { x: vx, y: 0, z: vz };
-
-        const clamped = clampMagnitude(raw, this.cfg.maxWind);
-        // Smooth
-       this.wind = {
-        x: lerp(this.wind.x, clamped.x, this.cfg.smooth),
-        y: lerp(this.wind.y, clamped.y, this.cfg.smooth),
-        z: lerp(this.wind.z, clamped.z, this.cfg.smooth),
-        };
-          // compute spread (distance between index tip and middle tip) if available
-          if (mid) {
-            const dx = lm.x - mid.x;
-            const dy = lm.y - mid.y;
-            const rawDist = Math.hypot(dx, dy);
-
-            // --- stable auto-calibration (prevents snapping) ---
-            const targetMax = Math.max(this.maxObservedDist, rawDist);
-            this.maxObservedDist = lerp(this.maxObservedDist, targetMax, 0.05);
-
-            // --- more forgiving mapping ---
-            const minD = 0.035; // raise this to make "closed" harder to reach
-            const maxD = Math.max(0.12, this.maxObservedDist); // floor prevents hypersensitivity
-
-            let spread = (rawDist - minD) / (maxD - minD);
-            spread = Math.max(0, Math.min(1, spread));
+    const landmarks = res.landmarks ?? [];
 
-            // --- soften response curve (stay wider longer) ---
-            spread = Math.pow(spread, 0.6);
-
-            // smooth output
-            this.lastSpread = lerp(this.lastSpread, spread, this.cfg.smooth);
-          }
-      }
-      this.lastTip = tip;
+    if (this.hands === 1) {
+      this.tracks[0].update(landmarks[0] ?? null, dt);
     } else {
-      // If no hand, decay wind toward zero
-      this.wind = { x: this.wind.x * 0.9, y: this.wind.y * 0.9, z: this.wind.z * 0.9 };
-      this.lastSpread = this.lastSpread * 0.9 + 0.1; // slowly return to wide
-      this.lastTip = null;
+      const [left, right] = this.assignHands(landmarks, res.handedness ?? []);
+      this.tracks[0].update(left, dt);
+      this.tracks[1].update(right, dt);
     }
+    for (let i = 0; i < this.hands; i++) this.gestures.update(i, this.tracks[i].hand2D, now);
 
-    requestAnimationFrame(this.detectLoop);
+    // the next detection is due one interval after this one started
+    const interval = 1000 / (this.cfg.detectHz ?? DETECT_HZ);
+    this.detectTimer = setTimeout(this.detectLoop, Math.max(0, interval - (performance.now() - now)));
   };
+}
 
-  getSpread() {
-    return this.lastSpread;
-  }
-
-  getPointerX() {
-    return this.lastPointerX;
-  }
-}
\ No newline at end of file
+// Video inputs the browser knows about. Labels are empty until the page has
+// had camera permission once.
+export async function listCameras(): Promise<{ id: string; label: string }[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === "videoinput").map(d => ({ id: d.deviceId, label: d.label }));
+}
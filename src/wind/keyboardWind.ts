@@ -0,0 +1,117 @@
+import { clamp, damp } from "./windInput";
+import type { Vec3, WindInput } from "./windInput";
+
+export type KeyboardWindConfig = {
+  maxPump: number;      // wind z while the pump key is held
+  pointerSpeed: number; // pointer travel per second (0..1 units)
+  spreadSpeed: number;  // spread change per second while Q/E are held
+  smooth: number;       // lerp factor for smoothing, per 60 Hz frame
+};
+
+// Keyboard wind input.
+//   - W / ArrowUp    -> pump forward       S / ArrowDown -> pull back
+//   - A D / arrows   -> move the aim       Shift         -> focus (hold)
+//   - Q / E          -> narrow / widen the beam
+export class KeyboardWind implements WindInput {
+  readonly mirrored = false;
+  private cfg: KeyboardWindConfig;
+
+  private running = false;
+  private held = new Set<string>();
+  private wind: Vec3 = { x: 0, y: 0, z: 0 };
+  private spread = 1;
+  private pointerX = 0.5;
+  private lastT = 0;
+
+  constructor(cfg: KeyboardWindConfig) {
+    this.cfg = cfg;
+  }
+
+  isRunning() {
+    return this.running;
+  }
+
+  getWind(): Vec3 {
+    return this.wind;
+  }
+
+  getSpread() {
+    return this.held.has("Shift") ? 0 : this.spread;
+  }
+
+  getPointerX() {
+    return this.pointerX;
+  }
+
+  async start() {
+    if (this.running) return;
+    this.running = true;
+    window.addEventListener("keydown", this.onKeyDown);
+    window.addEventListener("keyup", this.onKeyUp);
+    window.addEventListener("blur", this.onBlur);
+    this.lastT = performance.now();
+    this.updateLoop();
+  }
+
+  async stop() {
+    this.running = false;
+    window.removeEventListener("keydown", this.onKeyDown);
+    window.removeEventListener("keyup", this.onKeyUp);
+    window.removeEventListener("blur", this.onBlur);
+    this.held.clear();
+    this.wind = { x: 0, y: 0, z: 0 };
+    this.spread = 1;
+    this.pointerX = 0.5;
+  }
+
+  private static keyName(e: KeyboardEvent) {
+    return e.key.length === 1 ? e.key.toLowerCase() : e.key;
+  }
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    const k = KeyboardWind.keyName(e);
+    if (k.startsWith("Arrow")) e.preventDefault();
+    this.held.add(k);
+  };
+
+  private onKeyUp = (e: KeyboardEvent) => {
+    this.held.delete(KeyboardWind.keyName(e));
+  };
+
+  private onBlur = () => {
+    this.held.clear();
+  };
+
+  private any(...keys: string[]) {
+    return keys.some(k => this.held.has(k));
+  }
+
+  private updateLoop = () => {
+    if (!this.running) return;
+
+    const now = performance.now();
+    const dt = Math.min(0.1, (now - this.lastT) / 1000);
+    this.lastT = now;
+
+    const left = this.any("a", "ArrowLeft") ? 1 : 0;
+    const right = this.any("d", "ArrowRight") ? 1 : 0;
+    const steer = right - left;
+    this.pointerX = clamp(this.pointerX + steer * this.cfg.pointerSpeed * dt, 0, 1);
+
+    if (this.held.has("q")) this.spread = clamp(this.spread - this.cfg.spreadSpeed * dt, 0, 1);
+    if (this.held.has("e")) this.spread = clamp(this.spread + this.cfg.spreadSpeed * dt, 0, 1);
+
+    let pump = 0;
+    if (this.any("w", "ArrowUp")) pump += this.cfg.maxPump;
+    if (this.any("s", "ArrowDown")) pump -= this.cfg.maxPump;
+
+    // steering also pushes the sand sideways (screen space, so inverted)
+    this.wind = {
+      x: damp(this.wind.x, -steer * this.cfg.pointerSpeed, this.cfg.smooth, dt),
+      y: 0,
+      z: damp(this.wind.z, -pump, this.cfg.smooth, dt),
+    };
+
+    requestAnimationFrame(this.updateLoop);
+  };
+}
@@ -0,0 +1,53 @@
+// Uniform grid over the lane (x across, z away from the player) for "what
+// could this grain be touching?" queries. Each item is filed under every cell
+// its bounding circle overlaps, so a point query returns a short candidate
+// list (in insertion order) instead of every item on the field. Points and
+// items outside the grid are clamped onto its edge cells, so nothing is
+// missed, only checked less efficiently.
+
+export class LaneGrid {
+  private cellSize: number;
+  private xMin: number;
+  private cols: number;
+  private rows: number;
+  private cells: number[][];
+  // cells holding something, so clear() only touches those
+  private used: number[] = [];
+
+  constructor(cellSize: number, xMin: number, xMax: number, zMax: number) {
+    this.cellSize = cellSize;
+    this.xMin = xMin;
+    this.cols = Math.max(1, Math.ceil((xMax - xMin) / cellSize));
+    this.rows = Math.max(1, Math.ceil(zMax / cellSize));
+    this.cells = Array.from({ length: this.cols * this.rows }, () => []);
+  }
+
+  clear() {
+    for (const c of this.used) this.cells[c].length = 0;
+    this.used.length = 0;
+  }
+
+  insert(id: number, x: number, z: number, r: number) {
+    const c0 = this.col(x - r), c1 = this.col(x + r);
+    const r0 = this.row(z - r), r1 = this.row(z + r);
+    for (let row = r0; row <= r1; row++) {
+      for (let col = c0; col <= c1; col++) {
+        const c = row * this.cols + col;
+        if (this.cells[c].length === 0) this.used.push(c);
+        this.cells[c].push(id);
+      }
+    }
+  }
+
+  query(x: number, z: number): readonly number[] {
+    return this.cells[this.row(z) * this.cols + this.col(x)];
+  }
+
+  private col(x: number) {
+    return Math.max(0, Math.min(this.cols - 1, Math.floor((x - this.xMin) / this.cellSize)));
+  }
+
+  private row(z: number) {
+    return Math.max(0, Math.min(this.rows - 1, Math.floor(z / this.cellSize)));
+  }
+}
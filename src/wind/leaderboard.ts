@@ -0,0 +1,70 @@
+// Local high-score table persisted in localStorage.
+
+import type { RunSummary } from "./stats";
+import { DIFFICULTY, PLAYER_COUNT } from "./sim";
+
+export type LeaderboardEntry = RunSummary & {
+  name: string;
+  date: string; // ISO timestamp
+};
+
+const STORAGE_KEY = "windstrike.leaderboard.v1";
+const NAME_KEY = "windstrike.playerName";
+const MAX_ENTRIES = 50;
+
+function isEntry(v: unknown): v is LeaderboardEntry {
+  const e = v as LeaderboardEntry | null;
+  return !!e && typeof e.name === "string" && typeof e.score === "number" &&
+    typeof e.wave === "number" && typeof e.durationSec === "number" &&
+    typeof e.kills === "object" && e.kills !== null &&
+    (e.mode === undefined || Object.hasOwn(PLAYER_COUNT, e.mode)) &&
+    (e.difficulty === undefined || Object.hasOwn(DIFFICULTY, e.difficulty));
+}
+
+export function loadLeaderboard(): LeaderboardEntry[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    // ignore anything malformed rather than losing the whole table
+    return Array.isArray(raw) ? raw.filter(isEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Inserts a run and returns its 1-based rank (0 if it didn't make the table).
+export function addLeaderboardEntry(entry: LeaderboardEntry): number {
+  const entries = loadLeaderboard();
+  entries.push(entry);
+  entries.sort((a, b) => b.score - a.score || b.wave - a.wave || a.durationSec - b.durationSec);
+  const kept = entries.slice(0, MAX_ENTRIES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+  } catch (e) {
+    console.warn("Could not save leaderboard", e);
+  }
+  return kept.indexOf(entry) + 1;
+}
+
+export function clearLeaderboard() {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    console.warn("Could not clear leaderboard", e);
+  }
+}
+
+export function lastPlayerName(): string {
+  try {
+    return localStorage.getItem(NAME_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function rememberPlayerName(name: string) {
+  try {
+    localStorage.setItem(NAME_KEY, name);
+  } catch (e) {
+    console.warn("Could not save player name", e);
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PACK, LevelPackError, parseLevelPack } from "./levelPack";
+import { enemyKinds } from "./enemies";
+
+const kinds = enemyKinds().join(", ");
+const wave = { label: "WAVE 1", enemies: [{ kind: "normal", delay: 0 }] };
+
+function problems(raw: unknown): string[] {
+  try {
+    parseLevelPack(raw);
+  } catch (e) {
+    if (e instanceof LevelPackError) return e.problems;
+    throw e;
+  }
+  throw new Error("expected the pack to be rejected");
+}
+
+describe("parseLevelPack", () => {
+  it("fills in the name and every enemy kind the pack leaves out", () => {
+    const pack = parseLevelPack({ waves: [wave] });
+    expect(pack.name).toBe("Untitled");
+    expect(Object.keys(pack.enemies).sort()).toEqual(enemyKinds().sort());
+    expect(pack.enemies.small).toEqual(DEFAULT_PACK.enemies.small);
+    expect(pack.waves).toEqual([wave]);
+  });
+
+  it("overrides only the fields an enemy entry gives", () => {
+    const pack = parseLevelPack({ waves: [wave], enemies: { small: { hp: 50, color: "#abc" } } });
+    expect(pack.enemies.small).toEqual({ ...DEFAULT_PACK.enemies.small, hp: 50, color: "#abc" });
+  });
+
+  it("keeps optional wave and entry fields", () => {
+    const pack = parseLevelPack({
+      waves: [{ label: "W", hpScale: 2, speedScale: 0.5, enemies: [{ kind: "big", delay: 30, x: -9 }] }],
+    });
+    expect(pack.waves[0]).toEqual({ label: "W", hpScale: 2, speedScale: 0.5, enemies: [{ kind: "big", delay: 30, x: -9 }] });
+  });
+
+  it("reports every problem with its path", () => {
+    expect(problems({
+      name: "",
+      enemies: { ghost: {}, small: { hp: "lots", speed: 9, color: "red", body: "o" } },
+      waves: [
+        wave,
+        { label: "W2", enemies: [{ kind: "ghost", delay: -1 }, { kind: "normal", delay: 0, x: 12 }, 3] },
+        { label: "W3", enemies: [] },
+      ],
+    })).toEqual([
+      "(root).name: expected a non-empty string, got \"\"",
+      `enemies.ghost: unknown enemy kind (expected ${kinds})`,
+      "enemies.small.body: expected an array of strings (one per line)",
+      "enemies.small.color: expected a hex color like \"#ffb347\", got \"red\"",
+      "enemies.small.hp: expected a number, got \"lots\"",
+      "enemies.small.speed: 9 is out of range (0..5)",
+      `waves[1].enemies[0].kind: unknown enemy kind "ghost" (expected ${kinds})`,
+      "waves[1].enemies[0].delay: -1 must be at least 0",
+      "waves[1].enemies[1].x: 12 is out of range (-9..9)",
+      "waves[1].enemies[2]: expected an object like { \"kind\": \"normal\", \"delay\": 0 }",
+      "waves[2].enemies: expected a non-empty array",
+    ]);
+  });
+
+  it("needs an object with at least one wave", () => {
+    expect(problems([])).toEqual(["(root): expected a JSON object"]);
+    expect(problems({ name: "x" })).toEqual(["waves: expected a non-empty array of waves"]);
+    expect(problems({ waves: [wave], enemies: [] })).toEqual(["enemies: expected an object keyed by enemy kind"]);
+  });
+
+  it("names the source in the error message", () => {
+    expect(() => parseLevelPack({}, "mine.json")).toThrow(/^Invalid mine\.json:\n {2}waves:/);
+  });
+});
@@ -0,0 +1,203 @@
+// Level packs: wave lists, plus per-kind overrides of the enemy types' stats
+// and appearance (src/wind/enemies), loaded from JSON.
+// parseLevelPack() validates untrusted input (a file from the picker) and
+// reports every problem with its JSON path, e.g.
+//   waves[2].enemies[0].kind: unknown enemy kind "ghost" (expected small, normal, ...)
+
+import type { EnemyKind, Wave, WaveEntry } from "./sim";
+import { defaultEnemyDefs, enemyKinds, isEnemyKind } from "./enemies";
+import defaultPackJson from "./levels/default.json";
+
+export type EnemyDef = {
+  hp: number;
+  speed: number;         // z units per step
+  radius: number;        // collision radius in lane units
+  scale: number;         // render scale
+  contactDamage: number; // damage dealt on reaching the player
+  score: number;
+  face: string;
+  body: string[];
+  color: string;
+  shield?: number;       // shield HP (shielded behaviour only)
+};
+
+export type LevelPack = {
+  name: string;
+  enemies: Record<EnemyKind, EnemyDef>;
+  waves: Wave[];
+};
+
+// lane x positions an entry may request (the lane is +-10, enemies keep 1 unit off the edge)
+export const LANE_X_LIMIT = 9;
+
+export class LevelPackError extends Error {
+  readonly problems: string[];
+
+  constructor(source: string, problems: string[]) {
+    super(`Invalid ${source}:\n  ${problems.join("\n  ")}`);
+    this.name = "LevelPackError";
+    this.problems = problems;
+  }
+}
+
+type Obj = Record<string, unknown>;
+
+// placeholder returned for malformed entries (the problem is already recorded)
+const DEFAULT_ENEMY: EnemyDef = {
+  hp: 1, speed: 0, radius: 1, scale: 1, contactDamage: 0, score: 0, face: "", body: [], color: "#e8eef5",
+};
+
+function isObj(v: unknown): v is Obj {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// Collects problems instead of throwing on the first one.
+class Checker {
+  problems: string[] = [];
+
+  fail(path: string, msg: string) {
+    this.problems.push(`${path}: ${msg}`);
+  }
+
+  num(o: Obj, key: string, path: string, min: number, max = Infinity, fallback?: number): number {
+    const v = o[key];
+    if (v === undefined && fallback !== undefined) return fallback;
+    if (typeof v !== "number" || !Number.isFinite(v)) {
+      this.fail(`${path}.${key}`, `expected a number, got ${JSON.stringify(v)}`);
+      return min;
+    }
+    if (v < min || v > max) {
+      this.fail(`${path}.${key}`, max === Infinity ? `${v} must be at least ${min}` : `${v} is out of range (${min}..${max})`);
+    }
+    return v;
+  }
+
+  str(o: Obj, key: string, path: string, fallback?: string): string {
+    const v = o[key];
+    if (v === undefined && fallback !== undefined) return fallback;
+    if (typeof v !== "string" || v.length === 0) {
+      this.fail(`${path}.${key}`, `expected a non-empty string, got ${JSON.stringify(v)}`);
+      return "";
+    }
+    return v;
+  }
+}
+
+// `base` supplies any field the entry leaves out (overriding a built-in kind).
+function parseEnemyDef(c: Checker, raw: unknown, path: string, base?: EnemyDef): EnemyDef {
+  if (!isObj(raw)) {
+    c.fail(path, "expected an object");
+    return DEFAULT_ENEMY;
+  }
+  let body = base?.body ?? [];
+  if (raw.body !== undefined || !base) {
+    if (!Array.isArray(raw.body) || raw.body.some(l => typeof l !== "string")) {
+      c.fail(`${path}.body`, "expected an array of strings (one per line)");
+    } else {
+      body = raw.body.map(String);
+    }
+  }
+  const color = c.str(raw, "color", path, base?.color);
+  if (color && !/^#[0-9a-fA-F]{3}([0-9a-fA-F]{3})?$/.test(color)) {
+    c.fail(`${path}.color`, `expected a hex color like "#ffb347", got "${color}"`);
+  }
+  const def: EnemyDef = {
+    hp: c.num(raw, "hp", path, 0.1, Infinity, base?.hp),
+    speed: c.num(raw, "speed", path, 0, 5, base?.speed),
+    radius: c.num(raw, "radius", path, 0.1, 10, base?.radius),
+    scale: c.num(raw, "scale", path, 0.1, 5, base?.scale),
+    contactDamage: c.num(raw, "contactDamage", path, 0, 100, base?.contactDamage),
+    score: c.num(raw, "score", path, 0, Infinity, base?.score),
+    face: c.str(raw, "face", path, base?.face),
+    body,
+    color,
+  };
+  const shield = raw.shield !== undefined ? c.num(raw, "shield", path, 0) : base?.shield;
+  if (shield !== undefined) def.shield = shield;
+  return def;
+}
+
+function parseWaveEntry(c: Checker, raw: unknown, path: string): WaveEntry {
+  if (!isObj(raw)) {
+    c.fail(path, "expected an object like { \"kind\": \"normal\", \"delay\": 0 }");
+    return { kind: "normal", delay: 0 };
+  }
+  let kind = raw.kind as EnemyKind;
+  if (typeof kind !== "string" || !isEnemyKind(kind)) {
+    c.fail(`${path}.kind`, `unknown enemy kind ${JSON.stringify(raw.kind)} (expected ${enemyKinds().join(", ")})`);
+    kind = "normal";
+  }
+  const entry: WaveEntry = { kind, delay: c.num(raw, "delay", path, 0) };
+  if (raw.x !== undefined) entry.x = c.num(raw, "x", path, -LANE_X_LIMIT, LANE_X_LIMIT);
+  return entry;
+}
+
+function parseWave(c: Checker, raw: unknown, path: string): Wave {
+  if (!isObj(raw)) {
+    c.fail(path, "expected an object with label and enemies");
+    return { label: "", enemies: [] };
+  }
+  const label = c.str(raw, "label", path);
+  if (!Array.isArray(raw.enemies) || raw.enemies.length === 0) {
+    c.fail(`${path}.enemies`, "expected a non-empty array");
+    return { label, enemies: [] };
+  }
+  const wave: Wave = { label, enemies: raw.enemies.map((e, i) => parseWaveEntry(c, e, `${path}.enemies[${i}]`)) };
+  if (raw.hpScale !== undefined) wave.hpScale = c.num(raw, "hpScale", path, 0.1, 10);
+  if (raw.speedScale !== undefined) wave.speedScale = c.num(raw, "speedScale", path, 0.1, 5);
+  return wave;
+}
+
+// Validates a parsed JSON value. Enemy kinds (and fields of a kind) the pack
+// leaves out fall back to the default pack's definitions, which are the enemy
+// types' own stats; waves are required.
+export function parseLevelPack(raw: unknown, source = "level pack"): LevelPack {
+  return parsePack(raw, source, DEFAULT_PACK.enemies);
+}
+
+function parsePack(raw: unknown, source: string, base: Partial<Record<EnemyKind, EnemyDef>>): LevelPack {
+  const c = new Checker();
+  if (!isObj(raw)) throw new LevelPackError(source, ["(root): expected a JSON object"]);
+
+  const name = raw.name === undefined ? "Untitled" : c.str(raw, "name", "(root)");
+
+  const enemies = { ...base } as Record<EnemyKind, EnemyDef>;
+  if (raw.enemies !== undefined) {
+    if (!isObj(raw.enemies)) c.fail("enemies", "expected an object keyed by enemy kind");
+    else {
+      for (const [kind, def] of Object.entries(raw.enemies)) {
+        if (!isEnemyKind(kind)) {
+          c.fail(`enemies.${kind}`, `unknown enemy kind (expected ${enemyKinds().join(", ")})`);
+          continue;
+        }
+        enemies[kind as EnemyKind] = parseEnemyDef(c, def, `enemies.${kind}`, base[kind as EnemyKind]);
+      }
+    }
+  }
+  for (const kind of enemyKinds()) {
+    if (!enemies[kind]) c.fail(`enemies.${kind}`, "missing definition");
+  }
+
+  let waves: Wave[] = [];
+  if (!Array.isArray(raw.waves) || raw.waves.length === 0) {
+    c.fail("waves", "expected a non-empty array of waves");
+  } else {
+    waves = raw.waves.map((w, i) => parseWave(c, w, `waves[${i}]`));
+  }
+
+  if (c.problems.length) throw new LevelPackError(source, c.problems);
+  return { name, enemies, waves };
+}
+
+// Reads and validates a JSON file picked by the user.
+export async function loadLevelPackFile(file: File): Promise<LevelPack> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch (e) {
+    throw new LevelPackError(file.name, [`not valid JSON (${(e as Error).message})`]);
+  }
+  return parseLevelPack(raw, file.name);
+}
+
+export const DEFAULT_PACK: LevelPack = parsePack(defaultPackJson, "default level pack", defaultEnemyDefs());
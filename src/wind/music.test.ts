@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { compileSong, noteFreq } from "./music";
+import type { Channel, Song } from "./music";
+import { SONGS } from "./songs";
+
+function song(...channels: Channel[]): Song {
+  return { title: "Test", tempo: 120, loop: true, channels };
+}
+
+function square(notes: string): Channel {
+  return { wave: "square", volume: 1, notes };
+}
+
+// [step, length] of each of channel 0's notes
+function timing(s: Song) {
+  return compileSong(s).events.flatMap((evs, at) => evs.filter(e => e.channel === 0).map(e => [at, e.steps]));
+}
+
+describe("noteFreq", () => {
+  it("tunes from A4 = 440 Hz", () => {
+    expect(noteFreq("A4")).toBe(440);
+    expect(noteFreq("A5")).toBe(880);
+    expect(noteFreq("A-1")).toBeCloseTo(440 / 32);
+    expect(noteFreq("C4")).toBeCloseTo(261.626, 3);
+    expect(noteFreq("Bb3")).toBe(noteFreq("A#3"));
+  });
+
+  it("rejects anything else", () => {
+    for (const bad of ["H4", "C", "c4", "C##4", "C45"]) expect(() => noteFreq(bad)).toThrow(`Bad note "${bad}"`);
+  });
+});
+
+describe("compileSong", () => {
+  it("places notes on the 16th-note grid; lengths stick and rests and bars take no note", () => {
+    expect(timing(song(square("C4 D4/4 - | E4/8. F4/16 G4/1")))).toEqual([
+      [0, 2], [2, 4], [10, 3], [13, 1], [14, 16],
+    ]);
+    expect(compileSong(song(square("C4 D4/4 - | E4/8. F4/16 G4/1"))).length).toBe(30);
+  });
+
+  it("repeats shorter channels to fill the song", () => {
+    const c = compileSong(song(square("C4/1"), { wave: "noise", volume: 1, notes: "k/4 s" }));
+    expect(c.length).toBe(16);
+    const drums = c.events.flatMap((evs, at) => evs.filter(e => e.channel === 1).map(e => `${at}${e.drum}`));
+    expect(drums).toEqual(["0k", "4s", "8k", "12s"]);
+  });
+
+  it("fills in the default envelope", () => {
+    const c = compileSong(song({ ...square("C4"), envelope: { attack: 0.2 } }));
+    expect(c.envelopes[0]).toEqual({ attack: 0.2, decay: 0.05, sustain: 0.8, release: 0.05 });
+  });
+
+  it("names the song and channel in errors", () => {
+    expect(() => compileSong(song(square("C4/3")))).toThrow("Song \"Test\", channel 1: Bad length in \"C4/3\"");
+    expect(() => compileSong(song(square("C4/16.")))).toThrow("doesn't fit the 16th-note grid");
+    expect(() => compileSong(song(square("C4"), { wave: "noise", volume: 1, notes: "x" }))).toThrow("channel 2: Bad drum \"x\"");
+    expect(() => compileSong(song(square("C4/4"), square("C4/8.")))).toThrow("channel 2: length doesn't divide");
+    expect(() => compileSong(song(square("| |")))).toThrow("Song \"Test\" has no notes");
+  });
+
+  it("compiles every built-in song", () => {
+    for (const s of Object.values(SONGS)) expect(() => compileSong(s)).not.toThrow();
+  });
+});
@@ -0,0 +1,309 @@
+// Chiptune sequencer: a tiny text track format and a scheduler that plays
+// songs from it with oscillators and a noise channel — no audio files.
+//
+// A song is a tempo plus channels. Each channel is one voice with a waveform,
+// a volume, an ADSR envelope and a line of notes:
+//
+//   "E4/8 - G4 A4 | B4/4. A4/8 | C#5/16 D5 E5 F#5 G5/4"
+//
+// A token is a note name (C4, F#3, Bb2; A4 = 440 Hz) or "-" for a rest,
+// optionally followed by /1 /2 /4 /8 /16 and a "." for dotted. A length
+// sticks until the next one is given (the first defaults to /8). "|" is a bar
+// line and is ignored. On "noise" channels the notes are drums instead:
+// k (kick), s (snare), h (hi-hat).
+//
+// Every channel's length must divide the song's length (the longest channel),
+// so short patterns such as a one-bar drum loop repeat to fill it. Looping
+// songs wrap on the same timeline, so the loop point is gapless.
+
+export type Waveform = "square" | "triangle" | "sawtooth" | "sine" | "noise";
+
+export type Envelope = {
+  attack: number;   // seconds to full volume
+  decay: number;    // seconds down to sustain
+  sustain: number;  // 0..1 of the channel volume
+  release: number;  // seconds to silence after the note ends
+};
+
+export type Channel = {
+  wave: Waveform;
+  volume: number;
+  notes: string;
+  envelope?: Partial<Envelope>;
+  gate?: number;    // fraction of each note held before release (default 0.8)
+  // only heard while the mood asks for it (see MusicMood)
+  when?: "danger" | "lowHP";
+};
+
+export type Song = {
+  title: string;
+  tempo: number;    // quarter notes per minute
+  loop: boolean;
+  channels: Channel[];
+};
+
+// What the game is feeling; the sequencer follows it without changing song.
+export type MusicMood = {
+  danger: number;   // 0..1, how close the nearest threat is; speeds things up
+  lowHP: boolean;
+};
+
+const STEPS_PER_BEAT = 4;     // the grid is 16th notes (lengths above are in steps)
+const DEFAULT_ENVELOPE: Envelope = { attack: 0.01, decay: 0.05, sustain: 0.8, release: 0.05 };
+const DANGER_TEMPO = 0.15;    // tempo boost at full danger
+const DANGER_LAYER = 0.5;     // danger above this brings in "danger" channels
+const LOOKAHEAD = 0.2;        // seconds of music scheduled ahead
+const TICK_MS = 50;
+
+type Drum = "k" | "s" | "h";
+
+type NoteEvent = { channel: number; steps: number; freq: number; drum: Drum | null };
+
+type CompiledSong = {
+  song: Song;
+  length: number;             // in steps
+  events: NoteEvent[][];      // per step of the song
+  envelopes: Envelope[];      // per channel
+};
+
+const SEMITONES: Record<string, number> = { C: -9, D: -7, E: -5, F: -4, G: -2, A: 0, B: 2 };
+const NOTE_RE = /^([A-G])([#b]?)(-?\d)$/;
+const LENGTH_RE = /^\/(1|2|4|8|16)(\.?)$/;
+
+// Frequency of a note name like "C#4" (A4 = 440 Hz).
+export function noteFreq(name: string): number {
+  const m = NOTE_RE.exec(name);
+  if (!m) throw new Error(`Bad note "${name}"`);
+  const semis = SEMITONES[m[1]] + (m[2] === "#" ? 1 : m[2] === "b" ? -1 : 0) + (Number(m[3]) - 4) * 12;
+  return 440 * Math.pow(2, semis / 12);
+}
+
+function parseChannel(ch: Channel): { steps: number; events: { at: number; ev: Omit<NoteEvent, "channel"> }[] } {
+  const events: { at: number; ev: Omit<NoteEvent, "channel"> }[] = [];
+  let at = 0;
+  let len = 2; // an 8th note
+  for (const tok of ch.notes.split(/\s+/)) {
+    if (tok === "" || tok === "|") continue;
+    const slash = tok.indexOf("/");
+    const pitch = slash < 0 ? tok : tok.slice(0, slash);
+    if (slash >= 0) {
+      const m = LENGTH_RE.exec(tok.slice(slash));
+      if (!m) throw new Error(`Bad length in "${tok}"`);
+      len = (16 / Number(m[1])) * (m[2] ? 1.5 : 1);
+      if (!Number.isInteger(len)) throw new Error(`"${tok}" doesn't fit the 16th-note grid`);
+    }
+    if (pitch !== "-") {
+      if (ch.wave === "noise") {
+        if (pitch !== "k" && pitch !== "s" && pitch !== "h") throw new Error(`Bad drum "${pitch}" (use k, s or h)`);
+        events.push({ at, ev: { steps: len, freq: 0, drum: pitch } });
+      } else {
+        events.push({ at, ev: { steps: len, freq: noteFreq(pitch), drum: null } });
+      }
+    }
+    at += len;
+  }
+  return { steps: at, events };
+}
+
+// Parses and checks a song; throws with the song title and channel on errors.
+export function compileSong(song: Song): CompiledSong {
+  const parsed = song.channels.map((ch, i) => {
+    try {
+      return parseChannel(ch);
+    } catch (e) {
+      throw new Error(`Song "${song.title}", channel ${i + 1}: ${(e as Error).message}`);
+    }
+  });
+  const length = Math.max(0, ...parsed.map(p => p.steps));
+  if (length === 0) throw new Error(`Song "${song.title}" has no notes`);
+  const events: NoteEvent[][] = Array.from({ length }, () => []);
+  parsed.forEach((p, channel) => {
+    if (p.steps === 0 || length % p.steps !== 0) {
+      throw new Error(`Song "${song.title}", channel ${channel + 1}: length doesn't divide the song's length`);
+    }
+    for (let rep = 0; rep < length; rep += p.steps) {
+      for (const { at, ev } of p.events) events[rep + at].push({ ...ev, channel });
+    }
+  });
+  const envelopes = song.channels.map(ch => ({ ...DEFAULT_ENVELOPE, ...ch.envelope }));
+  return { song, length, events, envelopes };
+}
+
+// One song being played into its own gain (so it can fade independently).
+type Playing = {
+  id: string;
+  c: CompiledSong;
+  gain: GainNode;
+  step: number;         // steps played so far (not wrapped)
+  t: number;            // audio time of `step`
+  endAt: number | null; // fading out: stop scheduling past this time
+  done: boolean;
+};
+
+export class Sequencer {
+  private ac: AudioContext;
+  private out: GainNode;
+  private noise: AudioBuffer;
+  private songs = new Map<string, CompiledSong>();
+  private playing: Playing[] = [];
+  private current: Playing | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private mood: MusicMood = { danger: 0, lowHP: false };
+
+  // `level` is the overall music volume under `dest`; `noise` backs the drums.
+  constructor(ac: AudioContext, dest: AudioNode, songs: Record<string, Song>, noise: AudioBuffer, level = 1) {
+    this.ac = ac;
+    this.noise = noise;
+    this.out = ac.createGain();
+    this.out.gain.value = level;
+    this.out.connect(dest);
+    for (const [id, song] of Object.entries(songs)) this.songs.set(id, compileSong(song));
+  }
+
+  // id of the song playing or last asked for (null after stop())
+  currentSong(): string | null {
+    return this.current?.id ?? null;
+  }
+
+  // Crossfades to a song. Asking for the one already playing (or a
+  // non-looping one that has finished) does nothing.
+  play(id: string, fade = 1.5) {
+    if (this.current?.id === id) return;
+    const c = this.songs.get(id);
+    if (!c) throw new Error(`Unknown song "${id}"`);
+    const now = this.ac.currentTime;
+    const hadMusic = this.current !== null;
+    this.fadeOutAll(fade);
+
+    const gain = this.ac.createGain();
+    gain.gain.setValueAtTime(0, now);
+    gain.gain.linearRampToValueAtTime(1, now + (hadMusic ? fade : 0.05));
+    gain.connect(this.out);
+    this.current = { id, c, gain, step: 0, t: now + 0.05, endAt: null, done: false };
+    this.playing.push(this.current);
+    this.tick();
+  }
+
+  // Fades everything out; play() starts afresh afterwards.
+  stop(fade = 0.3) {
+    this.fadeOutAll(fade);
+    this.current = null;
+  }
+
+  // Cuts everything at once, including notes already scheduled.
+  reset() {
+    for (const p of this.playing) p.gain.disconnect();
+    this.playing = [];
+    this.current = null;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  setMood(mood: MusicMood) {
+    this.mood = mood;
+  }
+
+  private fadeOutAll(fade: number) {
+    const now = this.ac.currentTime;
+    for (const p of this.playing) {
+      if (p.endAt !== null && p.endAt <= now + fade) continue;
+      p.gain.gain.cancelScheduledValues(now);
+      p.gain.gain.setValueAtTime(p.gain.gain.value, now);
+      p.gain.gain.linearRampToValueAtTime(0, now + fade);
+      p.endAt = now + fade;
+    }
+  }
+
+  private tick = () => {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const now = this.ac.currentTime;
+    const horizon = now + LOOKAHEAD;
+
+    for (const p of this.playing) {
+      // fell behind (background tab): skip ahead rather than play a burst
+      if (!p.done && p.t < now - 0.05) p.t = now + 0.02;
+      while (!p.done && p.t < horizon) {
+        if (p.endAt !== null && p.t >= p.endAt) { p.done = true; break; }
+        if (!p.c.song.loop && p.step >= p.c.length) { p.done = true; break; }
+        const stepDur = this.stepDuration(p.c.song);
+        for (const ev of p.c.events[p.step % p.c.length]) {
+          if (this.audible(p.c.song.channels[ev.channel])) this.voice(p, ev, p.t, stepDur);
+        }
+        p.t += stepDur;
+        p.step++;
+      }
+    }
+
+    // let finished songs ring out, then drop them
+    this.playing = this.playing.filter(p => {
+      if (!p.done || now < Math.max(p.t, p.endAt ?? 0) + 1) return true;
+      p.gain.disconnect();
+      return false;
+    });
+    if (this.playing.length > 0) this.timer = setTimeout(this.tick, TICK_MS);
+  };
+
+  private stepDuration(song: Song) {
+    const tempo = song.tempo * (1 + DANGER_TEMPO * Math.max(0, Math.min(1, this.mood.danger)));
+    return 60 / tempo / STEPS_PER_BEAT;
+  }
+
+  private audible(ch: Channel) {
+    if (ch.when === "danger") return this.mood.danger > DANGER_LAYER;
+    if (ch.when === "lowHP") return this.mood.lowHP;
+    return true;
+  }
+
+  private voice(p: Playing, ev: NoteEvent, t: number, stepDur: number) {
+    const ch = p.c.song.channels[ev.channel];
+    if (ev.drum) {
+      this.drum(p.gain, ev.drum, t, ch.volume);
+      return;
+    }
+    const env = p.c.envelopes[ev.channel];
+    const held = ev.steps * stepDur * (ch.gate ?? 0.8);
+    const ac = this.ac;
+    const osc = ac.createOscillator();
+    osc.type = ch.wave as OscillatorType;
+    osc.frequency.value = ev.freq;
+    const g = ac.createGain();
+    const peak = ch.volume;
+    g.gain.setValueAtTime(0, t);
+    g.gain.linearRampToValueAtTime(peak, t + env.attack);
+    g.gain.linearRampToValueAtTime(peak * env.sustain, t + env.attack + env.decay);
+    g.gain.setValueAtTime(peak * env.sustain, t + Math.max(held, env.attack + env.decay));
+    g.gain.linearRampToValueAtTime(0, t + Math.max(held, env.attack + env.decay) + env.release);
+    osc.connect(g); g.connect(p.gain);
+    osc.start(t);
+    osc.stop(t + Math.max(held, env.attack + env.decay) + env.release + 0.01);
+  }
+
+  private drum(dest: AudioNode, drum: Drum, t: number, volume: number) {
+    const ac = this.ac;
+    if (drum === "k") {
+      const osc = ac.createOscillator();
+      osc.type = "sine";
+      osc.frequency.setValueAtTime(150, t);
+      osc.frequency.exponentialRampToValueAtTime(45, t + 0.1);
+      const g = ac.createGain();
+      g.gain.setValueAtTime(1.4 * volume, t);
+      g.gain.exponentialRampToValueAtTime(0.001, t + 0.12);
+      osc.connect(g); g.connect(dest);
+      osc.start(t); osc.stop(t + 0.12);
+      return;
+    }
+    // snare: mid noise with a longer tail; hat: very short and bright
+    const len = drum === "s" ? 0.12 : 0.04;
+    const src = ac.createBufferSource();
+    src.buffer = this.noise;
+    const filter = ac.createBiquadFilter();
+    filter.type = drum === "s" ? "bandpass" : "highpass";
+    filter.frequency.value = drum === "s" ? 1800 : 7000;
+    const g = ac.createGain();
+    g.gain.setValueAtTime((drum === "s" ? 0.8 : 0.5) * volume, t);
+    g.gain.exponentialRampToValueAtTime(0.001, t + len);
+    src.connect(filter); filter.connect(g); g.connect(dest);
+    src.start(t, Math.random(), len + 0.01);
+  }
+}
@@ -0,0 +1,6 @@
+// Colours shared by the renderers (Canvas 2D / WebGL in game.ts and the
+// character grid in charGrid.ts).
+
+// sand colour per player in two-player modes (solo keeps the classic white)
+export const PLAYER_COLORS = ["#ffd966", "#66cfff"];
+export const SOLO_SAND = "#e8eef5";
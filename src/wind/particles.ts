@@ -0,0 +1,88 @@
+// Sand grains as a pool of parallel typed arrays: no object per grain and
+// nothing allocated per step once the pool has grown to the run's peak.
+// Grain i is (x[i], z[i], ...) for i < count. Removing dead grains compacts
+// the arrays in place and keeps their order, which determinism relies on:
+// the simulation updates and collides grains in spawn order.
+//
+// Drawing state (eased screen positions) lives with the renderer, see
+// sandView.ts; `id` is what lets it follow a grain across compaction.
+
+export const PARTICLE_CHARS = [".", ":", "*"];
+
+export class ParticlePool {
+  count = 0;
+  capacity = 0;
+  // simulation state (Float64 so the numbers match plain JS arithmetic)
+  x = new Float64Array(0);
+  z = new Float64Array(0);
+  vx = new Float64Array(0);
+  vz = new Float64Array(0);
+  life = new Float64Array(0);
+  ch = new Uint8Array(0);    // index into PARTICLE_CHARS
+  owner = new Uint8Array(0); // player whose stream the grain belongs to
+  // position before the last step, for interpolated drawing
+  px = new Float64Array(0);
+  pz = new Float64Array(0);
+  // spawn serial: unique per grain and increasing with i
+  id = new Uint32Array(0);
+  spawned = 0;
+
+  constructor(capacity = 1024) {
+    this.grow(capacity);
+  }
+
+  add(x: number, z: number, vx: number, vz: number, life: number, ch: number, owner: number): number {
+    if (this.count === this.capacity) this.grow(this.capacity * 2);
+    const i = this.count++;
+    this.x[i] = x; this.z[i] = z; this.vx[i] = vx; this.vz[i] = vz;
+    this.life[i] = life; this.ch[i] = ch; this.owner[i] = owner;
+    this.px[i] = x; this.pz[i] = z;
+    this.id[i] = this.spawned++;
+    return i;
+  }
+
+  // Drops grains whose life has run out, keeping the rest in order.
+  compact() {
+    let j = 0;
+    for (let i = 0; i < this.count; i++) {
+      if (this.life[i] <= 0) continue;
+      if (i !== j) this.move(i, j);
+      j++;
+    }
+    this.count = j;
+  }
+
+  clear() {
+    this.count = 0;
+  }
+
+  private move(from: number, to: number) {
+    this.x[to] = this.x[from]; this.z[to] = this.z[from];
+    this.vx[to] = this.vx[from]; this.vz[to] = this.vz[from];
+    this.life[to] = this.life[from]; this.ch[to] = this.ch[from]; this.owner[to] = this.owner[from];
+    this.px[to] = this.px[from]; this.pz[to] = this.pz[from];
+    this.id[to] = this.id[from];
+  }
+
+  private grow(capacity: number) {
+    this.capacity = Math.max(16, capacity);
+    this.x = grown(this.x, this.capacity);
+    this.z = grown(this.z, this.capacity);
+    this.vx = grown(this.vx, this.capacity);
+    this.vz = grown(this.vz, this.capacity);
+    this.life = grown(this.life, this.capacity);
+    this.ch = grown(this.ch, this.capacity);
+    this.owner = grown(this.owner, this.capacity);
+    this.px = grown(this.px, this.capacity);
+    this.pz = grown(this.pz, this.capacity);
+    this.id = grown(this.id, this.capacity);
+  }
+}
+
+type NumberArray = Float64Array | Uint32Array | Uint8Array;
+
+function grown<T extends NumberArray>(a: T, capacity: number): T {
+  const next = new (a.constructor as new (n: number) => T)(capacity);
+  next.set(a);
+  return next;
+}
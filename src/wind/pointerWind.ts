@@ -0,0 +1,177 @@
+import { clamp, damp } from "./windInput";
+import type { Vec3, WindInput } from "./windInput";
+
+export type PointerWindConfig = {
+  maxPump: number;   // wind z produced by a full-length drag
+  dragRange: number; // fraction of the target height that counts as a full drag
+  smooth: number;    // lerp factor for smoothing, per 60 Hz frame
+};
+
+// Mouse / touch wind input.
+//   - cursor X            -> pointer (aim)
+//   - drag up while held  -> pump (distance from press point, not speed)
+//   - wheel / 2-finger pinch -> spread
+export class PointerWind implements WindInput {
+  readonly mirrored = false;
+  private target: HTMLElement;
+  private cfg: PointerWindConfig;
+
+  private running = false;
+  private wind: Vec3 = { x: 0, y: 0, z: 0 };
+  private pumpTarget = 0;
+  private lateralTarget = 0;
+  private spread = 1;
+  private pointerX = 0.5;
+
+  // active pointers (more than one = touch pinch)
+  private pointers = new Map<number, { x: number; y: number }>();
+  private dragOriginY: number | null = null;
+  private pinchStartDist = 0;
+  private pinchStartSpread = 1;
+
+  private lastMoveX = 0;
+  private lastMoveT = 0;
+  private lastT = 0;
+
+  constructor(target: HTMLElement, cfg: PointerWindConfig) {
+    this.target = target;
+    this.cfg = cfg;
+  }
+
+  isRunning() {
+    return this.running;
+  }
+
+  getWind(): Vec3 {
+    return this.wind;
+  }
+
+  getSpread() {
+    return this.spread;
+  }
+
+  getPointerX() {
+    return this.pointerX;
+  }
+
+  async start() {
+    if (this.running) return;
+    this.running = true;
+    this.target.addEventListener("pointerdown", this.onDown);
+    this.target.addEventListener("pointermove", this.onMove);
+    this.target.addEventListener("pointerup", this.onUp);
+    this.target.addEventListener("pointercancel", this.onUp);
+    this.target.addEventListener("wheel", this.onWheel, { passive: false });
+    this.lastMoveT = performance.now();
+    this.lastT = this.lastMoveT;
+    this.updateLoop();
+  }
+
+  async stop() {
+    this.running = false;
+    this.target.removeEventListener("pointerdown", this.onDown);
+    this.target.removeEventListener("pointermove", this.onMove);
+    this.target.removeEventListener("pointerup", this.onUp);
+    this.target.removeEventListener("pointercancel", this.onUp);
+    this.target.removeEventListener("wheel", this.onWheel);
+    this.pointers.clear();
+    this.dragOriginY = null;
+    this.wind = { x: 0, y: 0, z: 0 };
+    this.pumpTarget = 0;
+    this.lateralTarget = 0;
+    this.spread = 1;
+    this.pointerX = 0.5;
+  }
+
+  private local(e: PointerEvent) {
+    const rect = this.target.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) / Math.max(1, rect.width),
+      y: (e.clientY - rect.top) / Math.max(1, rect.height),
+    };
+  }
+
+  private pinchDist() {
+    const [a, b] = [...this.pointers.values()];
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+
+  private onDown = (e: PointerEvent) => {
+    this.target.setPointerCapture(e.pointerId);
+    const p = this.local(e);
+    this.pointers.set(e.pointerId, p);
+    if (this.pointers.size === 1) {
+      this.dragOriginY = p.y;
+      this.pointerX = clamp(p.x, 0, 1);
+    } else if (this.pointers.size === 2) {
+      // second finger down: switch from drag to pinch
+      this.dragOriginY = null;
+      this.pumpTarget = 0;
+      this.pinchStartDist = Math.max(1e-3, this.pinchDist());
+      this.pinchStartSpread = this.spread;
+    }
+  };
+
+  private onMove = (e: PointerEvent) => {
+    const p = this.local(e);
+    if (this.pointers.has(e.pointerId)) this.pointers.set(e.pointerId, p);
+
+    if (this.pointers.size >= 2) {
+      const ratio = this.pinchDist() / this.pinchStartDist;
+      this.spread = clamp(this.pinchStartSpread * ratio, 0, 1);
+      return;
+    }
+
+    const now = performance.now();
+    const dt = Math.max(1, now - this.lastMoveT);
+    const x = clamp(p.x, 0, 1);
+    // same units as HandWind: normalized distance per second. Screen space is
+    // not mirrored, so moving right must produce negative wind x.
+    this.lateralTarget = -((x - this.lastMoveX) * 1000) / dt;
+    this.lastMoveX = x;
+    this.lastMoveT = now;
+    this.pointerX = x;
+
+    if (this.dragOriginY !== null) {
+      const drag = (this.dragOriginY - p.y) / this.cfg.dragRange; // up = forward
+      this.pumpTarget = clamp(drag, -1, 1) * this.cfg.maxPump;
+    }
+  };
+
+  private onUp = (e: PointerEvent) => {
+    this.pointers.delete(e.pointerId);
+    if (this.pointers.size === 1) {
+      // back to a single finger: restart the drag from where it is now
+      this.dragOriginY = [...this.pointers.values()][0].y;
+    } else if (this.pointers.size === 0) {
+      this.dragOriginY = null;
+    }
+    this.pumpTarget = 0;
+  };
+
+  private onWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    // wheel down narrows the beam, wheel up widens it
+    this.spread = clamp(this.spread - e.deltaY * 0.0015, 0, 1);
+  };
+
+  private updateLoop = () => {
+    if (!this.running) return;
+
+    const now = performance.now();
+    const dt = Math.min(0.1, (now - this.lastT) / 1000);
+    this.lastT = now;
+
+    // pointer movement only produces a velocity while the cursor is moving
+    if (now - this.lastMoveT > 50) this.lateralTarget = 0;
+
+    // wind z is inverted by Game.setWind (negative = pushing forward)
+    this.wind = {
+      x: damp(this.wind.x, this.lateralTarget, this.cfg.smooth, dt),
+      y: 0,
+      z: damp(this.wind.z, -this.pumpTarget, this.cfg.smooth, dt),
+    };
+
+    requestAnimationFrame(this.updateLoop);
+  };
+}
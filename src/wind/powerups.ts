@@ -0,0 +1,61 @@
+// Power-up definitions. Killed enemies sometimes drop a pickup that drifts
+// down the lane toward the player; enough sand grains hitting it collects it
+// for whoever's stream landed the last grain. The simulation owns the
+// pickups and active effects (so replays reproduce them); this module only
+// describes them.
+
+export type PowerUpKind = "heavy" | "burst" | "slow" | "wide" | "repair";
+
+export type PowerUpDef = {
+  glyph: string;
+  label: string;    // HUD timer label
+  color: string;
+  duration: number; // seconds; 0 = applied once on pickup
+  weight: number;   // relative drop chance
+};
+
+export const POWER_UPS: Record<PowerUpKind, PowerUpDef> = {
+  heavy:  { glyph: "[#]", label: "HEAVY", color: "#ff9a4c", duration: 8, weight: 3 },
+  burst:  { glyph: "<*>", label: "BURST", color: "#ffe066", duration: 0, weight: 2 },
+  slow:   { glyph: "(~)", label: "SLOW",  color: "#b58cff", duration: 6, weight: 2 },
+  wide:   { glyph: "<=>", label: "WIDE",  color: "#66cfff", duration: 8, weight: 3 },
+  repair: { glyph: "[+]", label: "REPAIR", color: "#4cff8a", duration: 0, weight: 2 },
+};
+
+export const POWER_UP_KINDS = Object.keys(POWER_UPS) as PowerUpKind[];
+
+export const POWER_UP_DROP_CHANCE = 0.12;
+export const PICKUP_HITS = 6;          // sand grains needed to collect
+export const PICKUP_RADIUS = 1.3;
+export const PICKUP_SPEED = 0.03;      // lane units per step toward the player
+export const HEAVY_DAMAGE = 2;         // damage multiplier
+export const SLOW_SPEED = 0.5;         // enemy speed (and boss attack rate) multiplier
+export const WIDE_SPREAD = 2;          // spawn width multiplier
+export const WIDE_EXTRA_PARTICLES = 3; // per step, on top of the usual
+export const REPAIR_HP = 25;
+
+export type Pickup = {
+  kind: PowerUpKind;
+  x: number;
+  z: number;
+  hits: number;  // grains still needed
+  age: number;   // steps, drives the bob animation
+};
+
+// A running timed effect. `player` is -1 for effects on the whole field (slow).
+export type ActiveEffect = {
+  kind: PowerUpKind;
+  player: number;
+  remaining: number; // steps
+};
+
+// Weighted pick from a uniform 0..1 roll.
+export function pickPowerUp(roll: number): PowerUpKind {
+  const total = POWER_UP_KINDS.reduce((sum, k) => sum + POWER_UPS[k].weight, 0);
+  let t = roll * total;
+  for (const k of POWER_UP_KINDS) {
+    t -= POWER_UPS[k].weight;
+    if (t < 0) return k;
+  }
+  return POWER_UP_KINDS[POWER_UP_KINDS.length - 1];
+}
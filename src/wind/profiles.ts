@@ -0,0 +1,79 @@
+// Named calibration profiles persisted in localStorage, plus which profile
+// each player slot uses.
+
+import type { HandWindConfig } from "./handWind";
+
+export type HandCalibration = Required<Pick<HandWindConfig,
+  "maxWind" | "smooth" | "spreadMin" | "spreadMax" | "spreadCurve" | "pointerMin" | "pointerMax">>;
+
+export type CalibrationProfile = {
+  name: string;
+  date: string;           // ISO timestamp
+  hand: HandCalibration;
+  deadZone: number;       // pump dead zone in hand wind units; Simulation gets it times the sensitivity
+  handSize: number;       // measured wrist -> middle MCP (camera distance), see HandWindConfig
+};
+
+const STORAGE_KEY = "windstrike.profiles.v1";
+const ACTIVE_KEY = "windstrike.activeProfiles";
+
+function isProfile(v: unknown): v is CalibrationProfile {
+  const p = v as CalibrationProfile | null;
+  if (!p || typeof p.name !== "string" || typeof p.deadZone !== "number" || !p.hand) return false;
+  return (["maxWind", "smooth", "spreadMin", "spreadMax", "spreadCurve", "pointerMin", "pointerMax"] as const)
+    .every(k => typeof p.hand[k] === "number" && Number.isFinite(p.hand[k]));
+}
+
+export function loadProfiles(): CalibrationProfile[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.filter(isProfile) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function findProfile(name: string): CalibrationProfile | undefined {
+  return loadProfiles().find(p => p.name === name);
+}
+
+function store(profiles: CalibrationProfile[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.warn("Could not save calibration profiles", e);
+  }
+}
+
+// Adds a profile, replacing any with the same name.
+export function saveProfile(profile: CalibrationProfile) {
+  const profiles = loadProfiles().filter(p => p.name !== profile.name);
+  profiles.push(profile);
+  profiles.sort((a, b) => a.name.localeCompare(b.name));
+  store(profiles);
+}
+
+export function deleteProfile(name: string) {
+  store(loadProfiles().filter(p => p.name !== name));
+}
+
+// Profile name per player slot ("" = uncalibrated defaults).
+export function activeProfiles(): string[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(ACTIVE_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.map(v => (typeof v === "string" ? v : "")) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function setActiveProfile(player: number, name: string) {
+  const active = activeProfiles();
+  while (active.length <= player) active.push("");
+  active[player] = name;
+  try {
+    localStorage.setItem(ACTIVE_KEY, JSON.stringify(active));
+  } catch (e) {
+    console.warn("Could not save the active calibration profiles", e);
+  }
+}
@@ -0,0 +1,27 @@
+// Perspective used by both the simulation (pointer -> lane mapping) and the
+// renderers. Screen coordinates are in canvas pixels.
+
+export type ViewGeometry = {
+  horizonPct: number;   // horizon line as a fraction of the screen height
+  fov: number;
+  zNear: number;
+  xScale: number;
+  floorSpanPct: number; // how far below the horizon z = 0 lands
+};
+
+export const VIEW: ViewGeometry = {
+  horizonPct: 0.2,
+  fov: 20,
+  zNear: 2.0,
+  xScale: 100,
+  floorSpanPct: 0.4,
+};
+
+export function project(x: number, z: number, w: number, h: number, v: ViewGeometry = VIEW) {
+  const p = v.fov / (z + v.zNear);
+  return {
+    screenX: w * 0.5 + x * p * v.xScale,
+    screenY: h * v.horizonPct + p * (h * v.floorSpanPct),
+    p,
+  };
+}
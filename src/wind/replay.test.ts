@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { ReplayPlayer, ReplayRecorder, decodeFrames, parseReplay } from "./replay";
+import type { ReplayFile } from "./replay";
+import { SIM_VERSION, Simulation } from "./sim";
+import type { WindSample } from "./sim";
+
+const idle: WindSample = { wx: 0, wz: 0, spread: 1, pointerX: 0.5 };
+
+function int16Base64(ints: number[]) {
+  return Buffer.from(new Int16Array(ints).buffer).toString("base64");
+}
+
+describe("ReplayRecorder", () => {
+  it("hands back the quantized samples the file decodes to", () => {
+    const rec = new ReplayRecorder(7);
+    const captured = [
+      rec.capture([{ wx: 0.123456, wz: -1.987654, spread: 0.33333, pointerX: 0.66666 }], 1280),
+      rec.capture([{ wx: 500, wz: -500, spread: 1, pointerX: 0 }], 1280),
+      rec.capture([idle], 960),
+    ];
+    expect(captured[0].players[0]).toEqual({ wx: 0.12, wz: -1.99, spread: 0.3333, pointerX: 0.6667 });
+    // wind is clamped to what an int16 holds at 0.01 resolution
+    expect(captured[1].players[0].wx).toBe(327.67);
+    expect(captured[1].players[0].wz).toBe(-327.68);
+    expect(decodeFrames(rec.toFile())).toEqual(captured);
+  });
+
+  it("run-length encodes repeated frames", () => {
+    const rec = new ReplayRecorder(1);
+    for (let i = 0; i < 1000; i++) rec.capture([idle], 1280);
+    const file = rec.toFile();
+    // one record: repeat, 4 sample columns, viewWidth, flags
+    expect(Buffer.from(file.data, "base64").length).toBe(7 * 2);
+    expect(file.frames).toBe(1000);
+    expect(decodeFrames(file)).toHaveLength(1000);
+  });
+
+  it("starts a new record once the repeat count is full", () => {
+    const rec = new ReplayRecorder(1);
+    for (let i = 0; i < 32767 + 5; i++) rec.capture([idle], 1280);
+    const file = rec.toFile();
+    expect(Buffer.from(file.data, "base64").length).toBe(2 * 7 * 2);
+    expect(decodeFrames(file)).toHaveLength(32767 + 5);
+  });
+
+  it("keeps each player's sample and burst in two-player modes", () => {
+    const rec = new ReplayRecorder(3, { mode: "coop" });
+    const p1: WindSample = { wx: 1, wz: -2, spread: 0.5, pointerX: 0.25 };
+    const p2: WindSample = { wx: -1, wz: 2, spread: 0.75, pointerX: 0.8, burst: true };
+    rec.capture([p1, p2], 1024);
+    rec.capture([p1], 1024); // a missing player records as idle
+    const frames = decodeFrames(parseReplay(JSON.stringify(rec.toFile())));
+    expect(frames[0].players).toEqual([p1, p2]);
+    expect(frames[1].players).toEqual([p1, idle]);
+  });
+});
+
+describe("ReplayPlayer", () => {
+  it("plays a recorded run back to the same score and wave", () => {
+    const rec = new ReplayRecorder(5, { mode: "coop", difficulty: "hard" });
+    const live = new Simulation({ seed: 5, mode: "coop", difficulty: "hard" });
+    for (let i = 0; i < 3000 && !live.isOver(); i++) {
+      const aim = 0.5 + 0.4 * Math.sin(i / 90);
+      const f = rec.capture([
+        { wx: 0.3, wz: i % 30 < 18 ? -2.7 : 0.4, spread: 0.35, pointerX: aim, burst: i % 500 === 250 },
+        { wx: -0.2, wz: i % 50 < 30 ? -2.2 : 0, spread: 0.6, pointerX: 1 - aim },
+      ], 1280);
+      live.viewWidth = f.viewWidth;
+      live.step(f.players);
+    }
+    expect(live.score).toBeGreaterThan(0);
+    expect(live.waveIndex).toBeGreaterThan(0);
+
+    const player = new ReplayPlayer(parseReplay(JSON.stringify(rec.toFile())));
+    const sim = new Simulation({ seed: player.seed, mode: player.mode, difficulty: player.difficulty });
+    while (!player.done()) {
+      const f = player.next();
+      sim.viewWidth = f.viewWidth;
+      sim.step(f.players);
+    }
+    expect([sim.stepCount, sim.score, sim.waveIndex, sim.playerHP]).toEqual([live.stepCount, live.score, live.waveIndex, live.playerHP]);
+    expect(sim.summary()).toEqual(live.summary());
+  });
+});
+
+describe("decodeFrames", () => {
+  it("reads version 1 and 2 files, which have no flags column", () => {
+    const v1: ReplayFile = { format: "windstrike-replay", version: 1, seed: 1, frames: 3, data: int16Base64([3, 150, -200, 5000, 2500, 800]) };
+    expect(decodeFrames(v1)).toEqual(Array(3).fill({ viewWidth: 800, players: [{ wx: 1.5, wz: -2, spread: 0.5, pointerX: 0.25 }] }));
+    const v2: ReplayFile = {
+      format: "windstrike-replay", version: 2, seed: 1, frames: 1, mode: "versus",
+      data: int16Base64([1, 0, 0, 10000, 0, 640, 100, 100, 0, 10000]),
+    };
+    expect(decodeFrames(v2)[0].players[1]).toEqual({ wx: 1, wz: 1, spread: 0, pointerX: 1 });
+  });
+
+  it("rejects truncated data and a wrong frame count", () => {
+    const file = new ReplayRecorder(1).toFile();
+    expect(() => decodeFrames({ ...file, data: int16Base64([1, 0, 0]) })).toThrow("truncated");
+    expect(() => decodeFrames({ ...file, frames: 2, data: int16Base64([1, 0, 0, 0, 0, 0, 0]) })).toThrow("frame count mismatch");
+  });
+});
+
+describe("parseReplay", () => {
+  const valid = JSON.stringify(new ReplayRecorder(9).toFile());
+
+  it("accepts a recorder's file", () => {
+    expect(parseReplay(valid)).toMatchObject({ seed: 9, sim: SIM_VERSION, frames: 0, mode: "solo" });
+  });
+
+  it("explains what is wrong with a bad file", () => {
+    const patched = (patch: object) => JSON.stringify({ ...JSON.parse(valid), ...patch });
+    expect(() => parseReplay("{")).toThrow("not valid JSON");
+    expect(() => parseReplay(patched({ format: "other" }))).toThrow("Not a Windstrike replay");
+    expect(() => parseReplay(patched({ version: 4 }))).toThrow("Unsupported replay version: 4");
+    expect(() => parseReplay(patched({ mode: "trio" }))).toThrow("Unknown replay mode: trio");
+    expect(() => parseReplay(patched({ difficulty: "nightmare" }))).toThrow("Unknown replay difficulty");
+    expect(() => parseReplay(patched({ seed: "1" }))).toThrow("missing seed, frames or data");
+    expect(() => parseReplay(patched({ deadZones: [0.1, "x"] }))).toThrow("deadZones");
+  });
+
+  it("refuses runs recorded against another simulation version", () => {
+    const old = JSON.parse(valid);
+    delete old.sim;
+    expect(() => parseReplay(JSON.stringify(old))).toThrow("different version of the game");
+    expect(() => parseReplay(JSON.stringify({ ...old, sim: SIM_VERSION + 1 }))).toThrow("different version of the game");
+  });
+});
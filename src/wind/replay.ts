@@ -0,0 +1,263 @@
+// Input recording / playback. A replay is just the seed plus every wind sample
+// the simulation consumed, so feeding it back through Simulation.step()
+// reproduces the run exactly.
+//
+// Samples are quantized to int16 *before* the live simulation sees them (the
+// recorder hands back the quantized sample), then run-length encoded and
+// stored as base64 — idle stretches cost almost nothing.
+//
+// Version 2 adds the play mode; two-player records carry the second player's
+// sample after the viewWidth column. Version 3 appends a flags column (bit n:
+// player n fired a burst). Older formats still decode (v1 files are solo
+// runs), but a file only loads when its `sim` matches SIM_VERSION: the same
+// inputs fed to a changed simulation would play out as a different run.
+
+import { PLAYER_COUNT, SIM_VERSION } from "./sim";
+import { STEP_HZ } from "./clock";
+import type { Difficulty, PlayMode, WindSample } from "./sim";
+import { parseLevelPack } from "./levelPack";
+import type { LevelPack } from "./levelPack";
+
+export type ReplayFile = {
+  format: "windstrike-replay";
+  version: 1 | 2 | 3;
+  seed: number;
+  sim?: number; // SIM_VERSION the run was recorded with; absent before it was stored
+  frames: number;
+  // base64 int16 records: [repeat, wx, wz, spread, pointerX, viewWidth,
+  // then wx, wz, spread, pointerX for each further player, then flags (v3)]
+  data: string;
+  mode?: PlayMode;  // v2; solo when absent
+  deadZones?: number[]; // calibrated pump dead zones, per player
+  difficulty?: Difficulty; // normal when absent
+  pack?: LevelPack; // embedded when the run did not use the default pack
+};
+
+export type RecorderOptions = {
+  pack?: LevelPack;
+  mode?: PlayMode;
+  deadZones?: number[];
+  difficulty?: Difficulty;
+};
+
+export type ReplayFrame = { viewWidth: number; players: WindSample[] };
+
+const WIND_Q = 100;    // wind x/z: 0.01 resolution, +-327
+const UNIT_Q = 10000;  // spread / pointerX: 0..1
+const MODES: PlayMode[] = ["solo", "coop", "versus"];
+const DIFFICULTIES: Difficulty[] = ["easy", "normal", "hard"];
+const VERSION = 3;
+
+// int16s per run-length record
+function recordSize(players: number, version: number) {
+  return 6 + (players - 1) * 4 + (version >= 3 ? 1 : 0);
+}
+
+function q(v: number, scale: number) {
+  return Math.max(-32768, Math.min(32767, Math.round(v * scale)));
+}
+
+function sampleInts(s: WindSample) {
+  return [q(s.wx, WIND_Q), q(s.wz, WIND_Q), q(s.spread, UNIT_Q), q(s.pointerX, UNIT_Q)];
+}
+
+function sampleFromInts(ints: ArrayLike<number>, at: number): WindSample {
+  return {
+    wx: ints[at] / WIND_Q,
+    wz: ints[at + 1] / WIND_Q,
+    spread: ints[at + 2] / UNIT_Q,
+    pointerX: ints[at + 3] / UNIT_Q,
+  };
+}
+
+// one record row (without the repeat count), current version
+function encodeRow(f: ReplayFrame) {
+  const [first, ...rest] = f.players;
+  const flags = f.players.reduce((bits, s, i) => (s.burst ? bits | (1 << i) : bits), 0);
+  return [...sampleInts(first), q(f.viewWidth, 1), ...rest.flatMap(sampleInts), flags];
+}
+
+function decodeRow(ints: ArrayLike<number>, at: number, players: number, version: number): ReplayFrame {
+  const samples = [sampleFromInts(ints, at)];
+  for (let p = 1; p < players; p++) samples.push(sampleFromInts(ints, at + 5 + (p - 1) * 4));
+  if (version >= 3) {
+    const flags = ints[at + 5 + (players - 1) * 4];
+    samples.forEach((s, i) => { if (flags & (1 << i)) s.burst = true; });
+  }
+  return { viewWidth: ints[at + 4], players: samples };
+}
+
+function toBase64(bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(bin);
+}
+
+function fromBase64(s: string) {
+  const bin = atob(s);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+export class ReplayRecorder {
+  readonly seed: number;
+  readonly pack?: LevelPack;
+  readonly mode: PlayMode;
+  readonly deadZones?: number[];
+  readonly difficulty: Difficulty;
+  private records: number[] = [];
+  private frames = 0;
+
+  constructor(seed: number, opts: RecorderOptions = {}) {
+    this.seed = seed;
+    this.pack = opts.pack;
+    this.mode = opts.mode ?? "solo";
+    this.deadZones = opts.deadZones;
+    this.difficulty = opts.difficulty ?? "normal";
+  }
+
+  // Records one step and returns the (quantized) samples the simulation must
+  // use, one per player.
+  capture(samples: readonly WindSample[], viewWidth: number): ReplayFrame {
+    const players = PLAYER_COUNT[this.mode];
+    const neutral: WindSample = { wx: 0, wz: 0, spread: 1, pointerX: 0.5 };
+    const row = encodeRow({
+      viewWidth,
+      players: Array.from({ length: players }, (_, i) => samples[i] ?? neutral),
+    });
+    const f = decodeRow(row, 0, players, VERSION);
+    const n = this.records.length;
+    const last = n - recordSize(players, VERSION);
+    if (
+      n > 0 && this.records[last] < 32767 &&
+      row.every((v, i) => this.records[last + 1 + i] === v)
+    ) {
+      this.records[last]++;
+    } else {
+      this.records.push(1, ...row);
+    }
+    this.frames++;
+    return f;
+  }
+
+  frameCount() {
+    return this.frames;
+  }
+
+  toFile(): ReplayFile {
+    const buf = new Int16Array(this.records);
+    const bytes = new Uint8Array(buf.buffer);
+    const file: ReplayFile = {
+      format: "windstrike-replay", version: VERSION, seed: this.seed, sim: SIM_VERSION, frames: this.frames,
+      data: toBase64(bytes), mode: this.mode,
+    };
+    if (this.deadZones) file.deadZones = this.deadZones;
+    if (this.difficulty !== "normal") file.difficulty = this.difficulty;
+    if (this.pack) file.pack = this.pack;
+    return file;
+  }
+}
+
+export function parseReplay(text: string): ReplayFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Replay is not valid JSON");
+  }
+  const r = raw as Partial<ReplayFile> | null;
+  if (!r || r.format !== "windstrike-replay") throw new Error("Not a Windstrike replay file");
+  if (r.version !== 1 && r.version !== 2 && r.version !== 3) throw new Error(`Unsupported replay version: ${String(r.version)}`);
+  if (r.mode !== undefined && !MODES.includes(r.mode)) throw new Error(`Unknown replay mode: ${String(r.mode)}`);
+  if (r.difficulty !== undefined && !DIFFICULTIES.includes(r.difficulty)) {
+    throw new Error(`Unknown replay difficulty: ${String(r.difficulty)}`);
+  }
+  if (typeof r.seed !== "number" || typeof r.frames !== "number" || typeof r.data !== "string") {
+    throw new Error("Replay is missing seed, frames or data");
+  }
+  if (r.sim !== SIM_VERSION) throw new Error("Replay was recorded with a different version of the game and can't be played back");
+  if (r.deadZones !== undefined && !(Array.isArray(r.deadZones) && r.deadZones.every(d => typeof d === "number"))) {
+    throw new Error("Replay deadZones must be a list of numbers");
+  }
+  if (r.pack !== undefined) r.pack = parseLevelPack(r.pack, "replay level pack");
+  return r as ReplayFile;
+}
+
+export function decodeFrames(file: ReplayFile): ReplayFrame[] {
+  const players = PLAYER_COUNT[file.mode ?? "solo"];
+  const record = recordSize(players, file.version);
+  const bytes = fromBase64(file.data);
+  if (bytes.length % (record * 2) !== 0) throw new Error("Replay data is truncated");
+  const ints = new Int16Array(bytes.buffer, bytes.byteOffset, bytes.length / 2);
+  const frames: ReplayFrame[] = [];
+  for (let i = 0; i < ints.length; i += record) {
+    const f = decodeRow(ints, i + 1, players, file.version);
+    for (let k = 0; k < ints[i]; k++) frames.push(f);
+  }
+  if (frames.length !== file.frames) throw new Error(`Replay frame count mismatch (${frames.length} != ${file.frames})`);
+  return frames;
+}
+
+// Playback cursor with pause and variable speed. Game asks it how many
+// simulation steps fit in each rendered frame's real time.
+export class ReplayPlayer {
+  readonly seed: number;
+  readonly pack?: LevelPack;
+  readonly mode: PlayMode;
+  readonly deadZones?: number[];
+  readonly difficulty: Difficulty;
+  readonly frames: ReplayFrame[];
+  private cursor = 0;
+  private carry = 0;
+  paused = false;
+  speed = 1;
+
+  constructor(file: ReplayFile) {
+    this.seed = file.seed;
+    this.pack = file.pack;
+    this.mode = file.mode ?? "solo";
+    this.deadZones = file.deadZones;
+    this.difficulty = file.difficulty ?? "normal";
+    this.frames = decodeFrames(file);
+  }
+
+  position() {
+    return this.cursor;
+  }
+
+  length() {
+    return this.frames.length;
+  }
+
+  done() {
+    return this.cursor >= this.frames.length;
+  }
+
+  // number of steps to advance for a rendered frame `dt` seconds long
+  stepsThisFrame(dt: number): number {
+    if (this.paused || this.done()) return 0;
+    this.carry += this.speed * dt * STEP_HZ;
+    const n = Math.floor(this.carry);
+    this.carry -= n;
+    return Math.min(n, this.frames.length - this.cursor);
+  }
+
+  // how far playback is into the next step, 0..1 (for interpolation)
+  stepFraction() {
+    return this.done() ? 0 : this.carry;
+  }
+
+  next(): ReplayFrame {
+    return this.frames[this.cursor++];
+  }
+
+  // Back to the start, or to frame `to` (the Simulation must be put back to
+  // that frame too, see Simulation.restore).
+  rewind(to = 0) {
+    this.cursor = Math.max(0, Math.min(this.frames.length, Math.floor(to)));
+    this.carry = 0;
+  }
+}
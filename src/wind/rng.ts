@@ -0,0 +1,37 @@
+// Small seedable PRNG (mulberry32). Everything in the simulation that used to
+// call Math.random() draws from one of these so runs can be reproduced.
+
+export class Rng {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // uniform float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // uniform float in [a, b)
+  range(a: number, b: number): number {
+    return a + this.next() * (b - a);
+  }
+
+  // uniform integer in [0, n)
+  int(n: number): number {
+    return Math.floor(this.next() * n);
+  }
+
+  chance(p: number): boolean {
+    return this.next() < p;
+  }
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
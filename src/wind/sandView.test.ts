@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { ParticlePool } from "./particles";
+import { SandView, drawKey } from "./sandView";
+
+describe("SandView", () => {
+  it("follows each grain's state through the pool's compaction", () => {
+    const ps = new ParticlePool(16);
+    for (let i = 0; i < 6; i++) ps.add(i, 0, 0, 0, 1, 0, 0);
+    const view = new SandView();
+    view.sync(ps);
+    for (let i = 0; i < ps.count; i++) { view.screenX[i] = ps.id[i]; view.size[i] = 1; }
+    ps.life[1] = 0; ps.life[4] = 0;
+    ps.compact();
+    ps.add(9, 0, 0, 0, 1, 0, 0);
+    view.sync(ps);
+    expect(Array.from(view.screenX.subarray(0, 4))).toEqual([0, 2, 3, 5]);
+    expect(Array.from(view.size.subarray(0, 5))).toEqual([1, 1, 1, 1, NaN]);
+  });
+
+  it("starts over for another pool", () => {
+    const view = new SandView();
+    const a = new ParticlePool();
+    a.add(0, 0, 0, 0, 1, 0, 0);
+    view.sync(a);
+    view.size[0] = 1;
+    const b = new ParticlePool();
+    b.add(0, 0, 0, 0, 1, 0, 0);
+    view.sync(b);
+    expect(view.size[0]).toBeNaN();
+  });
+});
+
+describe("drawKey", () => {
+  it("spreads grains evenly over 0..1, the same every time", () => {
+    const keys = Array.from({ length: 10000 }, (_, id) => drawKey(id));
+    expect(keys.every(k => k >= 0 && k < 1)).toBe(true);
+    expect(keys.filter(k => k < 0.25).length).toBeGreaterThan(2300);
+    expect(keys.filter(k => k < 0.25).length).toBeLessThan(2700);
+    expect(drawKey(1234)).toBe(keys[1234]);
+  });
+});
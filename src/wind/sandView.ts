@@ -0,0 +1,57 @@
+// Canvas-side drawing state for the sand: each grain's eased screen position
+// and size. It belongs to the renderer, not the simulation (snapshots and
+// replays never see it), and is indexed like the ParticlePool, grain i at i.
+// sync() carries it over the pool's compaction by matching grain ids, which
+// increase with the index.
+
+import type { ParticlePool } from "./particles";
+
+export class SandView {
+  screenX = new Float32Array(0);
+  screenY = new Float32Array(0);
+  size = new Float32Array(0); // NaN: not drawn yet, snaps instead of easing
+  private id = new Uint32Array(0);
+  private count = 0;
+  private pool: ParticlePool | null = null;
+
+  // Lines the state up with the pool's grains as of now.
+  sync(ps: ParticlePool) {
+    if (ps !== this.pool) {
+      // a new run or a restored snapshot: nothing carries over
+      this.pool = ps;
+      this.count = 0;
+    }
+    if (this.id.length < ps.capacity) this.grow(ps.capacity);
+    // a grain only ever moves to a lower index, so this can work in place
+    let j = 0;
+    for (let i = 0; i < ps.count; i++) {
+      const id = ps.id[i];
+      while (j < this.count && this.id[j] < id) j++;
+      if (j < this.count && this.id[j] === id) {
+        this.screenX[i] = this.screenX[j]; this.screenY[i] = this.screenY[j]; this.size[i] = this.size[j];
+      } else {
+        this.size[i] = NaN;
+      }
+      this.id[i] = id;
+    }
+    this.count = ps.count;
+  }
+
+  private grow(capacity: number) {
+    const grown = (a: Float32Array) => { const next = new Float32Array(capacity); next.set(a); return next; };
+    this.screenX = grown(this.screenX);
+    this.screenY = grown(this.screenY);
+    this.size = grown(this.size);
+    const id = new Uint32Array(capacity);
+    id.set(this.id);
+    this.id = id;
+  }
+}
+
+// A stable 0..1 value per grain (a hash of its id): the particle density
+// setting draws the grains below it, so thinning out doesn't flicker.
+export function drawKey(id: number) {
+  let h = Math.imul(id ^ (id >>> 16), 0x45d9f3b);
+  h = Math.imul(h ^ (h >>> 16), 0x45d9f3b);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
@@ -0,0 +1,144 @@
+// Results screen (after game over) and high-score history (from the start
+// screen). Markup lives in index.html; this fills it in.
+
+import { addLeaderboardEntry, clearLeaderboard, lastPlayerName, loadLeaderboard, rememberPlayerName } from "./leaderboard";
+import { formatDuration, totalKills } from "./stats";
+import type { RunSummary } from "./stats";
+import type { EnemyKind } from "./sim";
+
+function q<T extends Element>(root: ParentNode, sel: string): T {
+  const el = root.querySelector<T>(sel);
+  if (!el) throw new Error(`Score screen markup is missing ${sel}`);
+  return el;
+}
+
+function pct(v: number) {
+  return `${Math.round(v * 100)}%`;
+}
+
+function killBreakdown(kills: Record<EnemyKind, number>) {
+  // saved entries may name kinds that are no longer registered
+  return Object.keys(kills).filter(k => kills[k] > 0).map(k => `${k} ${kills[k]}`).join(" · ") || "none";
+}
+
+// "P1 120 · P2 95", with the winner called out in versus
+function playerLine(summary: RunSummary) {
+  const scores = summary.playerScores ?? [];
+  const line = scores.map((s, i) => `P${i + 1} ${s}`).join(" · ");
+  if (summary.mode !== "versus" || scores.length < 2) return line;
+  const [a, b] = scores;
+  return `${line} — ${a === b ? "draw" : a > b ? "P1 wins" : "P2 wins"}`;
+}
+
+const MODE_TAGS = { solo: "", coop: " [co-op]", versus: " [vs]" };
+
+export function statRow(label: string, value: string) {
+  const row = document.createElement("div");
+  row.className = "stat-row";
+  const l = document.createElement("span");
+  l.textContent = label;
+  const v = document.createElement("span");
+  v.textContent = value;
+  row.append(l, v);
+  return row;
+}
+
+export class ScoreScreens {
+  private results: HTMLElement;
+  private history: HTMLElement;
+  private nameInput: HTMLInputElement;
+  private saveBtn: HTMLButtonElement;
+  private rankEl: HTMLElement;
+  private clearBtn: HTMLButtonElement;
+  private summary: RunSummary | null = null;
+
+  constructor(results: HTMLElement, history: HTMLElement) {
+    this.results = results;
+    this.history = history;
+    this.nameInput = q(results, "#resultsName");
+    this.saveBtn = q(results, "#resultsSave");
+    this.rankEl = q(results, "#resultsRank");
+    this.clearBtn = q(history, "#historyClear");
+
+    this.saveBtn.onclick = () => this.save();
+    this.nameInput.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") this.save();
+    });
+    q<HTMLButtonElement>(history, "#historyClose").onclick = () => this.hideHistory();
+    this.clearBtn.onclick = () => {
+      if (!confirm("Clear all saved high scores?")) return;
+      clearLeaderboard();
+      this.showHistory();
+    };
+  }
+
+  showResults(summary: RunSummary) {
+    this.summary = summary;
+    const stats = q<HTMLDivElement>(this.results, "#resultsStats");
+    stats.replaceChildren(
+      statRow(summary.mode === "coop" ? "TEAM SCORE" : "SCORE", `${summary.score}`),
+      statRow("WAVE", `${summary.wave}`),
+      statRow("TIME", formatDuration(summary.durationSec)),
+      statRow("ACCURACY", pct(summary.accuracy)),
+      statRow("FOCUSED", `${formatDuration(summary.focusedSec)} (${pct(summary.focusedSec / Math.max(1, summary.durationSec))})`),
+      statRow("KILLS", `${totalKills(summary.kills)}`),
+      statRow("", killBreakdown(summary.kills)),
+    );
+    if (summary.bosses) stats.append(statRow("BOSSES", `${summary.bosses}`));
+    if (summary.deflected) stats.append(statRow("DEFLECTED", `${summary.deflected}`));
+    if (summary.difficulty) stats.append(statRow("DIFFICULTY", summary.difficulty.toUpperCase()));
+    if (summary.playerScores) stats.insertBefore(statRow("PLAYERS", playerLine(summary)), stats.children[1]);
+    this.nameInput.value = lastPlayerName();
+    this.nameInput.disabled = false;
+    this.saveBtn.disabled = false;
+    this.rankEl.textContent = "";
+    this.results.hidden = false;
+    this.nameInput.focus();
+  }
+
+  hideResults() {
+    this.results.hidden = true;
+    this.summary = null;
+  }
+
+  private save() {
+    if (!this.summary || this.saveBtn.disabled) return;
+    const name = this.nameInput.value.trim() || "anon";
+    rememberPlayerName(name);
+    const rank = addLeaderboardEntry({ ...this.summary, name, date: new Date().toISOString() });
+    this.nameInput.disabled = true;
+    this.saveBtn.disabled = true;
+    this.nameInput.blur();
+    this.rankEl.textContent = rank > 0 ? `Saved — rank #${rank}` : "Saved (not in the top scores)";
+  }
+
+  showHistory() {
+    const table = q<HTMLTableElement>(this.history, "#historyTable");
+    const entries = loadLeaderboard();
+    table.replaceChildren();
+    const head = table.insertRow();
+    for (const h of ["#", "NAME", "SCORE", "WAVE", "TIME", "KILLS", "ACC", "FOCUS"]) {
+      const th = document.createElement("th");
+      th.textContent = h;
+      head.appendChild(th);
+    }
+    entries.forEach((e, i) => {
+      const row = table.insertRow();
+      row.title = `${new Date(e.date).toLocaleString()} — ${killBreakdown(e.kills)}` +
+        (e.playerScores ? ` — ${playerLine(e)}` : "");
+      for (const v of [
+        `${i + 1}`, e.name + MODE_TAGS[e.mode ?? "solo"] + (e.difficulty ? ` [${e.difficulty}]` : ""), `${e.score}`, `${e.wave}`, formatDuration(e.durationSec),
+        `${totalKills(e.kills)}`, pct(e.accuracy ?? 0), formatDuration(e.focusedSec ?? 0),
+      ]) {
+        row.insertCell().textContent = v;
+      }
+    });
+    q<HTMLElement>(this.history, "#historyEmpty").hidden = entries.length > 0;
+    this.clearBtn.disabled = entries.length === 0;
+    this.history.hidden = false;
+  }
+
+  hideHistory() {
+    this.history.hidden = true;
+  }
+}
@@ -0,0 +1,180 @@
+// Player settings: a typed schema (label, group, range / options, default per
+// field), validation, localStorage persistence and change notification. The
+// settings screen (settingsScreen.ts) is built from SETTINGS_SCHEMA, and
+// main.ts applies every change live. Audio levels are separate (audioPrefs.ts)
+// since they have their own panel controls.
+
+import type { Difficulty } from "./sim";
+import type { RendererKind } from "./game";
+
+export type Settings = {
+  // gameplay
+  difficulty: Difficulty;  // applies from the next run
+  sensitivity: number;     // multiplier on every input's wind
+  // camera
+  cameraId: string;        // "" = the browser's default camera
+  mirror: boolean;         // camera preview and aim behave like a mirror
+  smoothing: number;       // hand wind / spread lerp factor (lower = smoother)
+  trackingRate: number;    // hand detections per second
+  gestures: boolean;
+  // display
+  particleDensity: number; // share of sand grains drawn
+  renderer: RendererKind;
+  charGrid: boolean;       // world as a terminal-style character grid
+  debug: boolean;
+  // accessibility
+  reduceFlashing: boolean;
+  largeText: boolean;
+};
+
+export type SettingsGroup = "gameplay" | "camera" | "display" | "accessibility";
+
+type Base = { label: string; group: SettingsGroup; hint?: string };
+type NumberField = Base & { type: "number"; min: number; max: number; step: number; default: number };
+type BoolField = Base & { type: "boolean"; default: boolean };
+type ChoiceField<T extends string> = Base & { type: "choice"; options: { value: T; label: string }[]; default: T };
+// free text; the UI may offer choices found at runtime (camera devices)
+type TextField = Base & { type: "text"; default: string };
+
+type FieldFor<V> =
+  [V] extends [number] ? NumberField :
+  [V] extends [boolean] ? BoolField :
+  [V] extends [string] ? (string extends V ? TextField : ChoiceField<V>) :
+  never;
+
+export type SettingsSchema = { [K in keyof Settings]: FieldFor<Settings[K]> };
+
+export const SETTINGS_SCHEMA: SettingsSchema = {
+  difficulty: {
+    type: "choice", label: "Difficulty", group: "gameplay", default: "normal",
+    options: [{ value: "easy", label: "Easy" }, { value: "normal", label: "Normal" }, { value: "hard", label: "Hard" }],
+    hint: "Enemy HP, speed and damage. Applies from the next run.",
+  },
+  sensitivity: { type: "number", label: "Wind sensitivity", group: "gameplay", min: 0.2, max: 3, step: 0.05, default: 1.2 },
+  cameraId: { type: "text", label: "Camera", group: "camera", default: "" },
+  mirror: {
+    type: "boolean", label: "Mirror camera", group: "camera", default: true,
+    hint: "Off: moving your hand right aims left, like looking at someone facing you.",
+  },
+  smoothing: {
+    type: "number", label: "Hand smoothing", group: "camera", min: 0.05, max: 0.6, step: 0.01, default: 0.18,
+    hint: "Lower is smoother but laggier. Overrides calibration profiles.",
+  },
+  trackingRate: {
+    type: "number", label: "Tracking rate", group: "camera", min: 10, max: 60, step: 5, default: 30,
+    hint: "Hand detections per second. Lower it if the game stutters with the camera on.",
+  },
+  gestures: {
+    type: "boolean", label: "Hand gestures", group: "camera", default: true,
+    hint: "Open palm: pause · Fist: burst · Thumbs up: confirm · Swipe: restart / title",
+  },
+  particleDensity: {
+    type: "number", label: "Particle density", group: "display", min: 0.25, max: 1, step: 0.05, default: 1,
+    hint: "Draws fewer sand grains on slow machines. Doesn't change gameplay.",
+  },
+  renderer: {
+    type: "choice", label: "Renderer", group: "display", default: "canvas",
+    options: [{ value: "canvas", label: "Canvas 2D" }, { value: "webgl", label: "WebGL" }],
+    hint: "WebGL draws the sand on the GPU. Falls back to Canvas 2D where it isn't available.",
+  },
+  charGrid: {
+    type: "boolean", label: "Character grid", group: "display", default: false,
+    hint: "Draws the world on a fixed grid of text cells, like a terminal. Press C to copy a frame as text.",
+  },
+  debug: { type: "boolean", label: "Debug overlay", group: "display", default: false },
+  reduceFlashing: { type: "boolean", label: "Reduce flashing", group: "accessibility", default: false },
+  largeText: { type: "boolean", label: "Large text", group: "accessibility", default: false },
+};
+
+export const SETTINGS_GROUPS: { id: SettingsGroup; title: string }[] = [
+  { id: "gameplay", title: "GAMEPLAY" },
+  { id: "camera", title: "CAMERA" },
+  { id: "display", title: "DISPLAY" },
+  { id: "accessibility", title: "ACCESSIBILITY" },
+];
+
+export const DEFAULT_SETTINGS: Settings = Object.fromEntries(
+  Object.entries(SETTINGS_SCHEMA).map(([k, f]) => [k, f.default]),
+) as Settings;
+
+const STORAGE_KEY = "windstrike.settings.v1";
+
+// One field's value if it fits the schema (numbers are clamped onto the
+// range), otherwise undefined.
+function validField(f: SettingsSchema[keyof Settings], v: unknown): Settings[keyof Settings] | undefined {
+  switch (f.type) {
+    case "number":
+      return typeof v === "number" && Number.isFinite(v) ? Math.max(f.min, Math.min(f.max, v)) : undefined;
+    case "boolean":
+      return typeof v === "boolean" ? v : undefined;
+    case "choice":
+      return f.options.some(o => o.value === v) ? (v as Settings[keyof Settings]) : undefined;
+    case "text":
+      return typeof v === "string" ? v : undefined;
+  }
+}
+
+// Settings from untrusted data, field by field: anything missing or invalid
+// falls back to its default, unknown keys are dropped.
+export function validateSettings(raw: unknown): Settings {
+  const out: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+  if (raw && typeof raw === "object") {
+    for (const key of Object.keys(SETTINGS_SCHEMA) as (keyof Settings)[]) {
+      const v = validField(SETTINGS_SCHEMA[key], (raw as Record<string, unknown>)[key]);
+      if (v !== undefined) out[key] = v;
+    }
+  }
+  return out as Settings;
+}
+
+export function loadSettings(): Settings {
+  try {
+    return validateSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}"));
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+function store(settings: Settings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save settings", e);
+  }
+}
+
+// The live settings: every set() is validated, saved and passed to the
+// listeners along with the keys that changed.
+export class SettingsStore {
+  private current: Settings;
+  private listeners: Array<(s: Settings, changed: (keyof Settings)[]) => void> = [];
+
+  constructor(initial: Settings = loadSettings()) {
+    this.current = initial;
+  }
+
+  get(): Readonly<Settings> {
+    return this.current;
+  }
+
+  set(patch: Partial<Settings>) {
+    const next = validateSettings({ ...this.current, ...patch });
+    const changed = (Object.keys(next) as (keyof Settings)[]).filter(k => next[k] !== this.current[k]);
+    if (changed.length === 0) return;
+    this.current = next;
+    store(next);
+    for (const fn of this.listeners) fn(next, changed);
+  }
+
+  reset() {
+    this.set(DEFAULT_SETTINGS);
+  }
+
+  on(fn: (s: Settings, changed: (keyof Settings)[]) => void): () => void {
+    this.listeners.push(fn);
+    return () => {
+      const i = this.listeners.indexOf(fn);
+      if (i >= 0) this.listeners.splice(i, 1);
+    };
+  }
+}
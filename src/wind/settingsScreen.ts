@@ -0,0 +1,153 @@
+// Settings overlay, built from SETTINGS_SCHEMA: one control per field,
+// grouped under headings. Every change goes straight into the SettingsStore
+// (which saves it and notifies main.ts), so there's no apply button. Markup
+// lives in index.html (#settings).
+
+import { SETTINGS_GROUPS, SETTINGS_SCHEMA } from "./settings";
+import type { Settings, SettingsStore } from "./settings";
+
+export type CameraDevice = { id: string; label: string };
+
+export type SettingsScreenOptions = {
+  // video inputs for the camera field (labels need camera permission)
+  listCameras: () => Promise<CameraDevice[]>;
+};
+
+function q<T extends Element>(root: ParentNode, sel: string): T {
+  const el = root.querySelector<T>(sel);
+  if (!el) throw new Error(`Settings markup is missing ${sel}`);
+  return el;
+}
+
+function formatNumber(v: number, step: number) {
+  return v.toFixed(step >= 1 ? 0 : step < 0.1 ? 2 : 1);
+}
+
+export class SettingsScreen {
+  private root: HTMLElement;
+  private store: SettingsStore;
+  private opts: SettingsScreenOptions;
+  // per field: pushes the stored value into its control
+  private syncers: Array<(s: Settings) => void> = [];
+  private cameraSelect: HTMLSelectElement | null = null;
+
+  constructor(root: HTMLElement, store: SettingsStore, opts: SettingsScreenOptions) {
+    this.root = root;
+    this.store = store;
+    this.opts = opts;
+    this.build(q(root, "#settingsFields"));
+    q<HTMLButtonElement>(root, "#settingsReset").onclick = () => store.reset();
+    q<HTMLButtonElement>(root, "#settingsClose").onclick = () => this.hide();
+    store.on(s => this.sync(s));
+    this.sync(store.get());
+  }
+
+  isOpen() {
+    return !this.root.hidden;
+  }
+
+  show() {
+    this.root.hidden = false;
+    void this.fillCameras();
+  }
+
+  hide() {
+    this.root.hidden = true;
+  }
+
+  private sync(s: Settings) {
+    for (const fn of this.syncers) fn(s);
+  }
+
+  private build(container: HTMLElement) {
+    container.replaceChildren();
+    for (const group of SETTINGS_GROUPS) {
+      const title = document.createElement("div");
+      title.className = "legend-title";
+      title.textContent = group.title;
+      container.appendChild(title);
+      for (const key of Object.keys(SETTINGS_SCHEMA) as (keyof Settings)[]) {
+        if (SETTINGS_SCHEMA[key].group === group.id) container.append(...this.field(key));
+      }
+    }
+  }
+
+  private field(key: keyof Settings): HTMLElement[] {
+    const f = SETTINGS_SCHEMA[key];
+    const label = document.createElement("label");
+    const els: HTMLElement[] = [label];
+    if (f.hint) {
+      const hint = document.createElement("p");
+      hint.className = "tiny";
+      hint.textContent = f.hint;
+      els.push(hint);
+    }
+
+    switch (f.type) {
+      case "number": {
+        const value = document.createElement("span");
+        value.className = "setting-value";
+        const input = document.createElement("input");
+        input.type = "range";
+        input.min = String(f.min);
+        input.max = String(f.max);
+        input.step = String(f.step);
+        input.oninput = () => this.store.set({ [key]: Number(input.value) });
+        label.append(`${f.label} `, value, input);
+        this.syncers.push(s => {
+          const v = s[key] as number;
+          input.value = String(v);
+          value.textContent = formatNumber(v, f.step);
+        });
+        break;
+      }
+      case "boolean": {
+        const input = document.createElement("input");
+        input.type = "checkbox";
+        input.onchange = () => this.store.set({ [key]: input.checked });
+        label.append(input, ` ${f.label}`);
+        this.syncers.push(s => { input.checked = s[key] as boolean; });
+        break;
+      }
+      case "choice": {
+        const select = document.createElement("select");
+        select.append(...f.options.map(o => new Option(o.label, o.value)));
+        select.onchange = () => this.store.set({ [key]: select.value });
+        label.append(f.label, select);
+        this.syncers.push(s => { select.value = s[key] as string; });
+        break;
+      }
+      case "text": {
+        // the only text field is the camera: a select filled in on show()
+        const select = document.createElement("select");
+        select.onchange = () => this.store.set({ [key]: select.value });
+        label.append(f.label, select);
+        this.cameraSelect = select;
+        this.syncers.push(s => this.syncCamera(s[key] as string));
+        break;
+      }
+    }
+    return els;
+  }
+
+  private syncCamera(id: string, devices?: CameraDevice[]) {
+    const select = this.cameraSelect;
+    if (!select) return;
+    if (devices) {
+      select.replaceChildren(new Option("Default camera", ""),
+        ...devices.map((d, i) => new Option(d.label || `Camera ${i + 1}`, d.id)));
+    }
+    // a saved camera that isn't plugged in (or not listed yet) stays selected
+    if (select.options.length === 0) select.add(new Option("Default camera", ""));
+    if (id && ![...select.options].some(o => o.value === id)) select.add(new Option("Saved camera", id));
+    select.value = id;
+  }
+
+  private async fillCameras() {
+    try {
+      this.syncCamera(this.store.get().cameraId, await this.opts.listCameras());
+    } catch (e) {
+      console.warn("Could not list cameras", e);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { Simulation } from "./sim";
+import type { SimEventMap, SimOptions, WindSample } from "./sim";
+import { parseLevelPack } from "./levelPack";
+
+// Pumping with the aim sweeping across the lane and the odd burst.
+function script(i: number): WindSample {
+  return { wx: 0, wz: i % 40 < 20 ? -3 : 0.5, spread: i % 300 < 150 ? 0.3 : 0.8, pointerX: 0.5 + 0.3 * Math.sin(i / 70), burst: i % 400 === 0 };
+}
+
+function run(opts: SimOptions, n: number) {
+  const sim = new Simulation(opts);
+  for (let i = 0; i < n && !sim.isOver(); i++) sim.step(script(i));
+  return sim;
+}
+
+// What two runs have to agree on to count as the same run.
+function fingerprint(sim: Simulation) {
+  const ps = sim.particles;
+  return {
+    steps: sim.stepCount, wave: sim.waveIndex, score: sim.score, hp: sim.playerHP, summary: sim.summary(),
+    enemies: sim.enemies.map(e => [e.kind, e.x, e.z, e.hp]),
+    sand: [ps.count, Array.from(ps.x.subarray(0, ps.count)), Array.from(ps.z.subarray(0, ps.count))],
+    next: sim.rng.next(),
+  };
+}
+
+// A pack whose enemies walk straight in; `enemy` overrides the normal kind.
+function pack(waves: number, enemy: object) {
+  return parseLevelPack({
+    enemies: { normal: enemy },
+    waves: Array.from({ length: waves }, (_, i) => ({ label: `W${i + 1}`, enemies: [{ kind: "normal", delay: 0, x: 0 }] })),
+  });
+}
+
+// Events of one type, in the order they fire.
+function record<K extends keyof SimEventMap>(sim: Simulation, type: K): SimEventMap[K][] {
+  const seen: SimEventMap[K][] = [];
+  sim.on(type, e => { seen.push(e); });
+  return seen;
+}
+
+describe("Simulation determinism", () => {
+  it("plays the same run from the same seed and inputs", () => {
+    for (const mode of ["solo", "coop"] as const) {
+      expect(fingerprint(run({ seed: 42, mode }, 1500))).toEqual(fingerprint(run({ seed: 42, mode }, 1500)));
+    }
+  });
+
+  it("plays a different run from another seed", () => {
+    expect(fingerprint(run({ seed: 42 }, 600))).not.toEqual(fingerprint(run({ seed: 43 }, 600)));
+  });
+});
+
+describe("Simulation damage", () => {
+  const tough = { hp: 1e6, speed: 2, contactDamage: 25 };
+
+  it("hurts the player once when an enemy gets through, scaled by difficulty", () => {
+    for (const [difficulty, hp] of [["easy", 85], ["normal", 75], ["hard", 65]] as const) {
+      const sim = new Simulation({ seed: 1, pack: pack(1, tough), difficulty });
+      const hits = record(sim, "playerHit");
+      for (let i = 0; i < 30; i++) sim.step();
+      expect(sim.playerHP).toBeCloseTo(hp);
+      expect(hits).toHaveLength(1);
+      expect(hits[0].enemy?.kind).toBe("normal");
+      expect(sim.enemies).toHaveLength(0);
+    }
+  });
+
+  it("ends the run at 0 HP and stops stepping", () => {
+    const sim = new Simulation({ seed: 1, pack: pack(1, { ...tough, contactDamage: 100 }) });
+    const over = record(sim, "gameOver");
+    for (let i = 0; i < 30; i++) sim.step();
+    expect(sim.isOver()).toBe(true);
+    expect(over).toEqual([{ score: 0, waveIndex: 0 }]);
+    const steps = sim.stepCount;
+    sim.step();
+    expect(sim.stepCount).toBe(steps);
+  });
+
+  it("scores kills by the sand for the enemy's points and heals a little", () => {
+    const sim = new Simulation({ seed: 1, pack: pack(1, { hp: 2, speed: 0.05, score: 7, contactDamage: 25 }) });
+    const kills = record(sim, "enemyKilled");
+    for (let i = 0; i < 600 && kills.length === 0; i++) sim.step({ wx: 0, wz: -3, spread: 0.3, pointerX: 0.5 });
+    expect(kills).toHaveLength(1);
+    expect(kills[0]).toMatchObject({ points: 7, player: 0 });
+    expect(sim.score).toBe(7);
+    expect(sim.players[0]).toMatchObject({ score: 7, kills: 1 });
+    expect(sim.summary().kills.normal).toBe(1);
+    expect(sim.playerHP).toBe(100);
+  });
+});
+
+describe("Simulation waves", () => {
+  it("waits between waves, then starts the next one", () => {
+    const sim = new Simulation({ seed: 1, pack: pack(2, { hp: 1e6, speed: 2, contactDamage: 1 }) });
+    const started = record(sim, "waveStarted");
+    while (!sim.betweenWaves) sim.step();
+    expect(sim.waveIndex).toBe(0);
+    expect(sim.waveAnnounceLabel).toBe("WAVE 2 INCOMING");
+    for (let i = 1; i < sim.betweenWaveDuration; i++) sim.step();
+    expect(sim.betweenWaves).toBe(true);
+    sim.step();
+    expect(sim.betweenWaves).toBe(false);
+    expect(sim.waveIndex).toBe(1);
+    expect(started).toEqual([{ index: 1, label: "W2" }]);
+  });
+
+  it("goes on into generated endless waves after the last one", () => {
+    const sim = new Simulation({ seed: 1, pack: pack(1, { hp: 1e6, speed: 2, contactDamage: 1 }) });
+    while (!sim.betweenWaves) sim.step();
+    expect(sim.waveAnnounceLabel).toBe("ENDLESS MODE");
+    while (sim.betweenWaves) sim.step();
+    expect(sim.waveIndex).toBe(1);
+    expect(sim.currentWave.label).toBe("WAVE 2");
+    expect(sim.currentWave.enemies.length).toBeGreaterThan(0);
+  });
+});
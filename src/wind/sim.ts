@@ -0,0 +1,753 @@
+// Headless simulation core: waves, enemies, particles, collision and damage.
+// No DOM, no audio, no Math.random() — everything random comes from a seeded
+// Rng, so the same seed + the same wind inputs always give the same run.
+// Game (rendering) and sounds.ts subscribe to the events emitted here.
+
+import { Rng } from "./rng";
+import { steps } from "./clock";
+import { VIEW } from "./projection";
+import { DEFAULT_PACK } from "./levelPack";
+import { generateWave } from "./endless";
+import { emptyStats, summarizeRun } from "./stats";
+import type { RunStats } from "./stats";
+import type { EnemyDef, LevelPack } from "./levelPack";
+import {
+  HEAVY_DAMAGE, PICKUP_HITS, PICKUP_RADIUS, PICKUP_SPEED, POWER_UPS, POWER_UP_DROP_CHANCE,
+  REPAIR_HP, SLOW_SPEED, WIDE_EXTRA_PARTICLES, WIDE_SPREAD, pickPowerUp,
+} from "./powerups";
+import type { ActiveEffect, Pickup, PowerUpKind } from "./powerups";
+import { BOSSES, BOSS_DEPTH, isBossWave, makeBoss, updateBoss } from "./bosses";
+import { enemyType } from "./enemies";
+import type { Enemy, EnemyContext, EnemyHit, EnemyKind } from "./enemies";
+import type { Boss, BossContext } from "./bosses";
+import { PARTICLE_CHARS, ParticlePool } from "./particles";
+import { LaneGrid } from "./laneGrid";
+
+// A glyph fired down the lane (boss volleys, ranged enemies). Sand from a
+// pushing stream knocks it back; once it is moving away from the player it is
+// reflected and hurts whatever it hits. Sand from a stream being pulled back
+// (guarding) wears it down instead until it breaks apart.
+export type Projectile = {
+  x: number;
+  z: number;
+  vz: number;       // lane units per step, negative = toward the player
+  damage: number;   // 0 once spent
+  glyph: string;
+  hp: number;       // guarding grains left before it breaks
+  reflected: boolean;
+  owner: number;    // player who reflected it, -1 until then
+  age: number;
+};
+
+export type { Enemy, EnemyKind } from "./enemies";
+
+// delay: steps after the wave starts (level pack files keep step units;
+// endless.ts works in seconds and converts)
+export type WaveEntry = { kind: EnemyKind; x?: number; delay: number };
+export type Wave = {
+  enemies: WaveEntry[];
+  label: string;
+  hpScale?: number;    // multipliers applied to every enemy in the wave
+  speedScale?: number;
+};
+
+export type WindSample = {
+  wx: number;
+  wz: number;
+  spread: number;
+  pointerX: number;
+  burst?: boolean; // special attack request (fist gesture); ignored while recharging
+};
+
+// Bumped whenever a change makes the same seed + inputs play out differently
+// (rules, tuning, what the Rng is drawn for). Replays store it, and ones
+// recorded against another version are refused rather than played back wrong.
+export const SIM_VERSION = 3;
+
+// solo: one stream. coop / versus: two streams (one per hand) sharing the HP
+// pool; versus additionally names a winner by score at game over.
+export type PlayMode = "solo" | "coop" | "versus";
+export const PLAYER_COUNT: Record<PlayMode, number> = { solo: 1, coop: 2, versus: 2 };
+
+// One sand stream and the wind driving it.
+export type PlayerState = {
+  windXZ: { x: number; z: number };
+  spread: number;
+  pointerX: number;
+  lastPump: number; // smoothed; negative while pulling back (guarding)
+  deadZone: number; // pump below this is ignored (per-player calibration)
+  score: number;
+  kills: number;
+  burstCooldown: number; // steps until the special attack is ready again
+};
+
+export type SimEventMap = {
+  enemyKilled: { enemy: Enemy; points: number; player: number };
+  burst: { player: number };
+  powerUpCollected: { kind: PowerUpKind; player: number };
+  playerHit: { enemy: Enemy | null; damage: number }; // null: a projectile
+  bossSpawned: { boss: Boss };
+  bossPhase: { boss: Boss; phase: number };
+  bossDefeated: { boss: Boss; points: number; player: number };
+  waveStarted: { index: number; label: string };
+  gameOver: { score: number; waveIndex: number };
+};
+export type SimEventType = keyof SimEventMap;
+type Listeners = { [K in SimEventType]: Array<(e: SimEventMap[K]) => void> };
+
+export type SimOptions = {
+  seed: number;
+  pack?: LevelPack;
+  viewWidth?: number; // canvas width used to map pointerX into the lane
+  mode?: PlayMode;
+  deadZones?: number[]; // per player; DEFAULT_DEAD_ZONE where missing
+  difficulty?: Difficulty;
+};
+
+export type Difficulty = "easy" | "normal" | "hard";
+
+// multipliers on enemy (and boss) HP, enemy speed and damage to the player
+export const DIFFICULTY: Record<Difficulty, { hp: number; speed: number; damage: number }> = {
+  easy: { hp: 0.75, speed: 0.85, damage: 0.6 },
+  normal: { hp: 1, speed: 1, damage: 1 },
+  hard: { hp: 1.3, speed: 1.15, damage: 1.4 },
+};
+
+// below this spread the beam counts as focused (breaks shields, tracked in stats)
+export const FOCUS_SPREAD = 0.45;
+// pump dead zone for uncalibrated players (in setWind's wz units)
+export const DEFAULT_DEAD_ZONE = 0.08;
+// special attack: a dense, fast, focused volley
+export const BURST_COOLDOWN = steps(5);
+const BURST_PARTICLES = 48;
+// sand vs projectiles
+const PROJECTILE_RADIUS = 0.9;
+const PROJECTILE_PUSH = 0.012;     // vz added per grain
+const PROJECTILE_MAX_SPEED = 0.35;
+const REFLECT_SPEED = 0.15;        // a reflected shot leaves at least this fast
+const REFLECT_DAMAGE = 12;         // multiplier on a reflected projectile's damage
+export const PROJECTILE_HP = 4;
+// pulling back: how much of the negative pump reaches the sand, and the
+// smoothed pump below which the stream guards
+const PULL_SCALE = 0.5;
+const GUARD_PUMP = -0.1;
+// a guarding stream's sand piles up here, just in front of the player, as a wall
+const GUARD_WALL_Z = 8;
+
+const PARTICLES_PER_STEP = 6;
+const PARTICLE_LIFE_MIN = steps(5);
+const PARTICLE_LIFE_MAX = steps(13.33);
+// enemy lookup grid for sand collisions (lane units)
+const GRID_CELL = 2;
+
+// hypot(dx, dz) < r, with a cheap box test first (hypot is never below
+// either side, so the answer is the same)
+function within(dx: number, dz: number, r: number) {
+  return Math.abs(dx) < r && Math.abs(dz) < r && Math.hypot(dx, dz) < r;
+}
+
+function makePlayer(deadZone = DEFAULT_DEAD_ZONE): PlayerState {
+  return { windXZ: { x: 0, z: 0 }, spread: 1, pointerX: 0.5, lastPump: 0, deadZone, score: 0, kills: 0, burstCooldown: 0 };
+}
+
+function makeEnemy(kind: EnemyKind, def: EnemyDef, x: number, z: number, rng: Rng): Enemy {
+  const dir = rng.chance(0.5) ? -1 : 1;
+  return {
+    kind, x, z,
+    r: def.radius, hp: def.hp, hpMax: def.hp, flash: 0, scale: def.scale, speed: def.speed,
+    dir, state: enemyType(kind).init?.(def, rng),
+  };
+}
+
+// Fields a snapshot leaves alone: the subscribers and the hook contexts
+// (closures over this Simulation), and the level pack and its waves, which
+// never change.
+const UNSNAPPED = new Set(["listeners", "bossCtx", "enemyCtx", "pack", "waves"]);
+
+// Run state as of one step, from Simulation.snapshot().
+export type SimSnapshot = { readonly stepCount: number; readonly fields: ReadonlyMap<string, unknown> };
+
+// Deep copy of simulation state. Class instances (Rng, ParticlePool,
+// LaneGrid) keep their prototype, typed arrays are copied, and anything in
+// `seen` already (the definitions, see sharedState) is referenced rather
+// than copied.
+function cloneState(v: unknown, seen: Map<object, unknown>): unknown {
+  if (typeof v !== "object" || v === null) return v;
+  const known = seen.get(v);
+  if (known !== undefined) return known;
+  if (ArrayBuffer.isView(v)) {
+    const copy = (v as Float64Array).slice();
+    seen.set(v, copy);
+    return copy;
+  }
+  if (Array.isArray(v)) {
+    const copy: unknown[] = [];
+    seen.set(v, copy);
+    for (const item of v) copy.push(cloneState(item, seen));
+    return copy;
+  }
+  const copy = Object.create(Object.getPrototypeOf(v)) as Record<string, unknown>;
+  seen.set(v, copy);
+  for (const [k, item] of Object.entries(v)) copy[k] = cloneState(item, seen);
+  return copy;
+}
+
+// Advances in fixed steps: one step() is STEP_SEC of game time (clock.ts).
+export class Simulation {
+  rng: Rng;
+  seed: number;
+  viewWidth: number;
+  readonly pack: LevelPack;
+  readonly mode: PlayMode;
+  readonly difficulty: Difficulty;
+  readonly players: PlayerState[];
+
+  particles = new ParticlePool();
+  enemies: Enemy[] = [];
+  pickups: Pickup[] = [];
+  effects: ActiveEffect[] = [];
+  boss: Boss | null = null;
+  projectiles: Projectile[] = [];
+  score = 0; // team total; per-player scores are on `players`
+  playerHP = 100;
+  stepCount = 0;
+  stats: RunStats = emptyStats();
+
+  waves: Wave[];
+  waveIndex = 0;
+  waveTimer = 0;
+  currentWave!: Wave;
+  pendingSpawns: Array<{ kind: EnemyKind; x?: number; spawnAt: number }> = [];
+  betweenWaves = false;
+  betweenWaveTimer = 0;
+  betweenWaveDuration = steps(3);
+  waveAnnounceTimer = 0;
+  waveAnnounceLabel = "";
+  private waveBossSpawned = false;
+
+  readonly laneEdge = 10;
+  readonly zFar = 220;
+  readonly enemyAttackZ = 6.5;
+
+  private enemyGrid: LaneGrid;
+
+  private listeners: Listeners = {
+    enemyKilled: [], burst: [], powerUpCollected: [], playerHit: [], waveStarted: [], gameOver: [],
+    bossSpawned: [], bossPhase: [], bossDefeated: [],
+  };
+
+  private bossCtx: BossContext = (() => {
+    const sim = this;
+    return {
+      get rng() { return sim.rng; },
+      laneEdge: this.laneEdge,
+      get slow() { return sim.hasEffect("slow", -1) ? SLOW_SPEED : 1; },
+      spawnMinion: (kind, x, z) => { sim.spawnEnemy(kind, x, z); },
+      fireProjectile: (x, z, speed, damage) => sim.fireProjectile(x, z, speed, damage, "@"),
+      phaseChanged: (phase) => sim.emit("bossPhase", { boss: sim.boss!, phase }),
+    };
+  })();
+
+  private enemyCtx: EnemyContext = (() => {
+    const sim = this;
+    return {
+      get rng() { return sim.rng; },
+      laneEdge: this.laneEdge,
+      get slow() { return sim.hasEffect("slow", -1) ? SLOW_SPEED : 1; },
+      enemies: () => sim.enemies,
+      spawn: (kind, x, z) => sim.spawnEnemy(kind, x, z),
+      fire: (x, z, speed, damage, glyph) => sim.fireProjectile(x, z, speed, damage, glyph),
+    };
+  })();
+
+  constructor(opts: SimOptions) {
+    this.seed = opts.seed >>> 0;
+    this.rng = new Rng(this.seed);
+    this.viewWidth = opts.viewWidth ?? 1280;
+    this.pack = opts.pack ?? DEFAULT_PACK;
+    this.mode = opts.mode ?? "solo";
+    this.difficulty = opts.difficulty ?? "normal";
+    this.players = Array.from({ length: PLAYER_COUNT[this.mode] }, (_, i) => makePlayer(opts.deadZones?.[i]));
+    this.waves = this.pack.waves;
+    this.enemyGrid = new LaneGrid(GRID_CELL, -this.laneEdge, this.laneEdge, this.zFar);
+    this.startWave(0);
+  }
+
+  on<K extends SimEventType>(type: K, fn: (e: SimEventMap[K]) => void): () => void {
+    const list = this.listeners[type];
+    list.push(fn);
+    return () => {
+      const i = list.indexOf(fn);
+      if (i >= 0) list.splice(i, 1);
+    };
+  }
+
+  private emit<K extends SimEventType>(type: K, e: SimEventMap[K]) {
+    for (const fn of this.listeners[type]) fn(e);
+  }
+
+  isOver() { return this.playerHP <= 0; }
+
+  summary() {
+    return summarizeRun(this.stats, this.score, this.waveIndex, this.stepCount, this.mode, this.players, this.difficulty);
+  }
+
+  // Everything needed to carry on from this step later (replay seeking).
+  snapshot(): SimSnapshot {
+    const seen = this.sharedState();
+    const fields = new Map<string, unknown>();
+    for (const [k, v] of Object.entries(this)) {
+      if (!UNSNAPPED.has(k)) fields.set(k, cloneState(v, seen));
+    }
+    return { stepCount: this.stepCount, fields };
+  }
+
+  // Back to a snapshot taken from a run with the same pack. Listeners stay
+  // subscribed; the snapshot itself is left untouched so it can be reused.
+  restore(snap: SimSnapshot) {
+    const seen = this.sharedState();
+    const self = this as unknown as Record<string, unknown>;
+    for (const [k, v] of snap.fields) self[k] = cloneState(v, seen);
+  }
+
+  // The pack's waves and the enemy and boss definitions are shared, never copied.
+  private sharedState() {
+    const seen = new Map<object, unknown>();
+    const share = (o: object) => { seen.set(o, o); };
+    share(this.pack);
+    for (const w of this.pack.waves) share(w);
+    for (const def of Object.values(this.pack.enemies)) share(def);
+    for (const def of BOSSES) share(def);
+    return seen;
+  }
+
+  // Index of the versus winner, or -1 on a tie / outside versus.
+  leader() {
+    if (this.players.length < 2) return -1;
+    const [a, b] = this.players;
+    return a.score === b.score ? -1 : a.score > b.score ? 0 : 1;
+  }
+
+  setWind(wx: number, wz: number, spread = 1, pointerX = 0.5, player = 0) {
+    const pl = this.players[player];
+    if (!pl) return;
+    const kx = 0.020, kz = 0.06;
+    const windX = -wx;
+    let pump = -wz;
+    const dz = pl.deadZone;
+    if (Math.abs(pump) < dz) pump = 0;
+    else pump = Math.sign(pump) * (Math.abs(pump) - dz);
+    pump = Math.sign(pump) * Math.pow(Math.abs(pump), 1.3);
+    pump = Math.max(-4.0, Math.min(4.0, pump));
+    if (pump < 0) pump *= PULL_SCALE;
+    pl.lastPump += (pump - pl.lastPump) * 0.3;
+    pump = pl.lastPump;
+    pl.windXZ = { x: windX * kx, z: pump * kz };
+    pl.spread = Math.max(0, Math.min(1, spread));
+    pl.pointerX = Math.max(0, Math.min(1, pointerX));
+  }
+
+  // Applies one wind sample per player (a single sample drives player 0) and
+  // advances one fixed step.
+  step(input?: WindSample | readonly WindSample[]) {
+    const samples = input === undefined ? [] : Array.isArray(input) ? input : [input as WindSample];
+    samples.forEach((s, i) => this.setWind(s.wx, s.wz, s.spread, s.pointerX, i));
+    if (this.isOver()) return;
+    this.stepCount++;
+    this.waveTimer++;
+    // averaged over players so focused time never exceeds run time
+    const focused = this.players.filter(pl => pl.spread < FOCUS_SPREAD).length;
+    this.stats.focusedSteps += focused / this.players.length;
+    this.players.forEach((pl, i) => {
+      if (pl.burstCooldown > 0) pl.burstCooldown--;
+      else if (samples[i]?.burst) this.fireBurst(i);
+    });
+    this.tickEffects();
+    this.updatePickups();
+
+    if (this.betweenWaves) {
+      this.betweenWaveTimer++;
+      if (this.betweenWaveTimer >= this.betweenWaveDuration) {
+        this.betweenWaves = false;
+        this.startWave(this.waveIndex + 1);
+      }
+      this.spawnPending();
+      this.updateParticles();
+      return;
+    }
+
+    this.spawnPending();
+    for (const e of this.enemies) this.updateEnemy(e);
+    if (this.boss) updateBoss(this.boss, this.bossCtx);
+    this.updateProjectiles();
+
+    // boss waves end with the boss once the regular enemies are cleared
+    if (this.pendingSpawns.length === 0 && this.enemies.length === 0 && !this.boss &&
+        isBossWave(this.waveIndex) && !this.waveBossSpawned) {
+      this.spawnBoss();
+    }
+    // ...and the wave is over once nothing hostile is left, shots in flight included
+    if (this.pendingSpawns.length === 0 && this.enemies.length === 0 && !this.boss &&
+        this.projectiles.every(pr => pr.damage <= 0 || pr.reflected)) {
+      this.projectiles = [];
+      this.betweenWaves = true;
+      this.betweenWaveTimer = 0;
+      this.waveAnnounceLabel = this.waveIndex + 1 === this.waves.length
+        ? "ENDLESS MODE" : `WAVE ${this.waveIndex + 2} INCOMING`;
+      this.waveAnnounceTimer = steps(2);
+    }
+
+    for (let pi = 0; pi < this.players.length; pi++) {
+      const n = PARTICLES_PER_STEP + (this.hasEffect("wide", pi) ? WIDE_EXTRA_PARTICLES : 0);
+      for (let i = 0; i < n; i++) this.spawnParticle(pi);
+    }
+    this.updateParticles();
+    this.collide();
+
+    this.enemies = this.enemies.filter(e => e.hp > -900);
+    this.particles.compact();
+    this.projectiles = this.projectiles.filter(pr => pr.damage > 0);
+    for (const e of this.enemies) e.flash = Math.max(0, e.flash - 1);
+    if (this.waveAnnounceTimer > 0) this.waveAnnounceTimer--;
+  }
+
+  // Pulling the stream back: its sand breaks projectiles instead of pushing them.
+  isGuarding(player: number) {
+    return (this.players[player]?.lastPump ?? 0) < GUARD_PUMP;
+  }
+
+  // Timed power-up on a player (field-wide effects count for everyone).
+  hasEffect(kind: PowerUpKind, player: number) {
+    return this.effects.some(e => e.kind === kind && (e.player === player || e.player === -1));
+  }
+
+  private tickEffects() {
+    for (const e of this.effects) e.remaining--;
+    this.effects = this.effects.filter(e => e.remaining > 0);
+  }
+
+  private updatePickups() {
+    for (const u of this.pickups) {
+      u.z -= PICKUP_SPEED;
+      u.age++;
+    }
+    // missed ones are lost once they reach the player
+    this.pickups = this.pickups.filter(u => u.hits > 0 && u.z > this.enemyAttackZ);
+  }
+
+  private maybeDropPickup(e: Enemy) {
+    if (!this.rng.chance(POWER_UP_DROP_CHANCE)) return;
+    this.pickups.push({ kind: pickPowerUp(this.rng.next()), x: e.x, z: e.z, hits: PICKUP_HITS, age: 0 });
+  }
+
+  private collectPowerUp(kind: PowerUpKind, player: number) {
+    const def = POWER_UPS[kind];
+    if (kind === "burst") this.spawnBurst(player);
+    if (kind === "repair") this.playerHP = Math.min(100, this.playerHP + REPAIR_HP);
+    if (def.duration > 0) {
+      const owner = kind === "slow" ? -1 : player;
+      const running = this.effects.find(e => e.kind === kind && e.player === owner);
+      if (running) running.remaining = steps(def.duration);
+      else this.effects.push({ kind, player: owner, remaining: steps(def.duration) });
+    }
+    this.emit("powerUpCollected", { kind, player });
+  }
+
+  // sand vs pickups; true if grain i was used up
+  private hitPickup(i: number) {
+    const ps = this.particles;
+    for (const u of this.pickups) {
+      if (u.hits <= 0 || !within(ps.x[i] - u.x, ps.z[i] - u.z, PICKUP_RADIUS)) continue;
+      ps.life[i] = 0;
+      if (--u.hits === 0) this.collectPowerUp(u.kind, ps.owner[i]);
+      return true;
+    }
+    return false;
+  }
+
+  // Each grain hits at most one thing: pickups, then projectiles, the boss,
+  // and the first enemy (in spawn order) it's inside. Enemies are looked up
+  // through the lane grid rather than checked one by one.
+  private collide() {
+    const ps = this.particles;
+    const grid = this.enemyGrid;
+    grid.clear();
+    let indexed = 0;
+    for (let i = 0; i < ps.count; i++) {
+      if (ps.life[i] <= 0) continue;
+      if (this.pickups.length > 0 && this.hitPickup(i)) continue;
+      if (this.projectiles.length > 0 && this.hitProjectile(i)) continue;
+      if (this.boss && this.hitBoss(i)) continue;
+      // enemies spawned during the loop (death spawns) are filed as they appear
+      for (; indexed < this.enemies.length; indexed++) {
+        const e = this.enemies[indexed];
+        grid.insert(indexed, e.x, e.z, e.r);
+      }
+      const x = ps.x[i], z = ps.z[i];
+      for (const id of grid.query(x, z)) {
+        const e = this.enemies[id];
+        if (e.hp <= -900) continue; // already killed or removed this step
+        if (within(x - e.x, z - e.z, e.r)) {
+          ps.life[i] = 0;
+          this.stats.particlesHit++;
+          const owner = ps.owner[i];
+          const focused = this.players[owner].spread < FOCUS_SPREAD;
+          this.damageEnemy(e, { damage: this.grainDamage(owner), player: owner, focused });
+          break;
+        }
+      }
+    }
+  }
+
+  // Sand grains and reflected projectiles both land here.
+  private damageEnemy(e: Enemy, hit: EnemyHit) {
+    const type = enemyType(e.kind);
+    const dealt = type.onHit ? type.onHit(e, hit, this.enemyCtx) : hit.damage;
+    if (dealt <= 0) return;
+    e.hp -= dealt;
+    e.flash = steps(0.1);
+    if (e.hp > 0) return;
+    const pl = this.players[hit.player];
+    const points = this.pack.enemies[e.kind].score;
+    this.score += points;
+    pl.score += points;
+    pl.kills++;
+    this.stats.kills[e.kind] = (this.stats.kills[e.kind] ?? 0) + 1;
+    this.playerHP = Math.min(100, this.playerHP + 4);
+    this.emit("enemyKilled", { enemy: e, points, player: hit.player });
+    e.hp = -999;
+    type.onDeath?.(e, this.enemyCtx);
+    this.maybeDropPickup(e);
+  }
+
+  private grainDamage(owner: number) {
+    const pl = this.players[owner];
+    return Math.max(0.2, (0.3 + (1 - pl.spread) * 0.2)) *
+      (this.hasEffect("heavy", owner) ? HEAVY_DAMAGE : 1);
+  }
+
+  // sand vs projectiles: a pushing stream knocks the glyph back up the lane,
+  // a guarding one wears it down
+  private hitProjectile(i: number) {
+    const ps = this.particles;
+    const owner = ps.owner[i];
+    for (const pr of this.projectiles) {
+      if (pr.damage <= 0 || !within(ps.x[i] - pr.x, ps.z[i] - pr.z, PROJECTILE_RADIUS)) continue;
+      ps.life[i] = 0;
+      this.stats.particlesHit++;
+      const heavy = this.hasEffect("heavy", owner) ? HEAVY_DAMAGE : 1;
+      if (!pr.reflected && this.isGuarding(owner)) {
+        pr.hp -= heavy;
+        if (pr.hp <= 0) { pr.damage = 0; this.stats.deflected++; }
+        return true;
+      }
+      pr.vz = Math.min(PROJECTILE_MAX_SPEED, pr.vz + PROJECTILE_PUSH * heavy);
+      if (!pr.reflected && pr.vz > 0) {
+        pr.reflected = true;
+        pr.owner = owner;
+        pr.vz = Math.max(pr.vz, REFLECT_SPEED);
+        this.stats.deflected++;
+      }
+      return true;
+    }
+    return false;
+  }
+
+  private hitBoss(i: number) {
+    const b = this.boss!;
+    const ps = this.particles;
+    if (Math.abs(ps.x[i] - b.x) >= b.def.halfWidth || Math.abs(ps.z[i] - b.z) >= BOSS_DEPTH) return false;
+    ps.life[i] = 0;
+    this.stats.particlesHit++;
+    // like the shielded enemy: only a focused beam gets through the shield
+    const owner = ps.owner[i];
+    this.damageBoss(this.grainDamage(owner), owner, this.players[owner].spread < FOCUS_SPREAD);
+    return true;
+  }
+
+  private damageBoss(damage: number, player: number, breaksShield: boolean) {
+    const b = this.boss!;
+    if (b.shieldHP > 0) {
+      if (!breaksShield) return;
+      b.shieldHP -= damage;
+      b.shieldFlash = steps(0.13);
+      if (b.shieldHP <= 0) { b.shieldHP = 0; b.flash = steps(0.2); }
+      return;
+    }
+    b.hp -= damage;
+    b.flash = Math.max(b.flash, steps(0.1));
+    if (b.hp > 0) return;
+    const points = b.def.score;
+    this.score += points;
+    this.players[player].score += points;
+    this.players[player].kills++;
+    this.stats.bosses++;
+    this.playerHP = Math.min(100, this.playerHP + 20);
+    this.boss = null;
+    for (const pr of this.projectiles) pr.damage = 0;
+    this.emit("bossDefeated", { boss: b, points, player });
+  }
+
+  private spawnBoss() {
+    const hpScale = (this.currentWave.hpScale ?? 1) * DIFFICULTY[this.difficulty].hp;
+    const b = makeBoss(this.waveIndex, hpScale, this.rng);
+    this.boss = b;
+    this.waveBossSpawned = true;
+    this.waveAnnounceLabel = b.def.name;
+    this.waveAnnounceTimer = steps(2.5);
+    this.emit("bossSpawned", { boss: b });
+  }
+
+  private fireProjectile(x: number, z: number, speed: number, damage: number, glyph: string) {
+    this.projectiles.push({ x, z, vz: -speed, damage, glyph, hp: PROJECTILE_HP, reflected: false, owner: -1, age: 0 });
+  }
+
+  private updateProjectiles() {
+    const slow = this.hasEffect("slow", -1) ? SLOW_SPEED : 1;
+    for (const pr of this.projectiles) {
+      if (pr.damage <= 0) continue;
+      pr.z += pr.vz < 0 ? pr.vz * slow : pr.vz;
+      pr.age++;
+      if (pr.reflected) {
+        // reflected shots count as focused: they crack shields too
+        const b = this.boss;
+        if (b && Math.abs(pr.x - b.x) < b.def.halfWidth && Math.abs(pr.z - b.z) < BOSS_DEPTH) {
+          this.damageBoss(pr.damage * REFLECT_DAMAGE, pr.owner, true);
+          pr.damage = 0;
+          continue;
+        }
+        const e = this.enemies.find(e => e.hp > -900 && Math.hypot(pr.x - e.x, pr.z - e.z) < e.r);
+        if (e) {
+          this.damageEnemy(e, { damage: pr.damage * REFLECT_DAMAGE, player: pr.owner, focused: true });
+          pr.damage = 0;
+          continue;
+        }
+      }
+      if (pr.z <= this.enemyAttackZ) {
+        this.hurtPlayer(pr.damage, null);
+        pr.damage = 0;
+      } else if (pr.z > 60) {
+        pr.damage = 0;
+      }
+    }
+  }
+
+  private hurtPlayer(damage: number, enemy: Enemy | null) {
+    if (this.isOver()) return;
+    damage *= DIFFICULTY[this.difficulty].damage;
+    this.playerHP = Math.max(0, this.playerHP - damage);
+    this.emit("playerHit", { enemy, damage });
+    if (this.isOver()) this.emit("gameOver", { score: this.score, waveIndex: this.waveIndex });
+  }
+
+  private startWave(index: number) {
+    this.waveIndex = index;
+    this.waveTimer = 0;
+    this.waveBossSpawned = false;
+    this.enemies = [];
+    // past the authored waves: procedurally generated endless waves
+    const wave = index < this.waves.length ? this.waves[index] : generateWave(index, this.pack, this.rng);
+    this.currentWave = wave;
+    this.pendingSpawns = wave.enemies.map(e => ({ kind: e.kind, x: e.x, spawnAt: e.delay }));
+    this.waveAnnounceLabel = wave.label;
+    this.waveAnnounceTimer = steps(2);
+    this.emit("waveStarted", { index, label: this.waveAnnounceLabel });
+  }
+
+  private spawnPending() {
+    const toSpawn = this.pendingSpawns.filter(s => this.waveTimer >= s.spawnAt);
+    this.pendingSpawns = this.pendingSpawns.filter(s => this.waveTimer < s.spawnAt);
+    for (const s of toSpawn) {
+      const x = s.x !== undefined ? s.x : this.rng.range(-4, 4);
+      this.spawnEnemy(s.kind, x, this.rng.range(22, 34));
+    }
+  }
+
+  private spawnEnemy(kind: EnemyKind, x: number, z: number): Enemy {
+    const base = this.pack.enemies[kind];
+    const diff = DIFFICULTY[this.difficulty];
+    const def = {
+      ...base,
+      hp: base.hp * (this.currentWave.hpScale ?? 1) * diff.hp,
+      speed: base.speed * (this.currentWave.speedScale ?? 1) * diff.speed,
+    };
+    const e = makeEnemy(kind, def, x, z, this.rng);
+    e.flash = steps(0.17);
+    this.enemies.push(e);
+    return e;
+  }
+
+  private updateEnemy(e: Enemy) {
+    const type = enemyType(e.kind);
+    if (type.update) type.update(e, this.enemyCtx);
+    else e.z -= e.speed * this.enemyCtx.slow;
+    if (e.z <= this.enemyAttackZ && !this.isOver()) {
+      // deal a single burst of damage then remove — no more continuous draining
+      e.hp = -999; // mark for removal
+      this.hurtPlayer(this.pack.enemies[e.kind].contactDamage, e);
+    }
+  }
+
+  private updateParticles() {
+    const w = this.viewWidth;
+    const drag = 0.985;
+    const rng = this.rng;
+    const ps = this.particles;
+    const { x, z, vx, vz, life } = ps;
+    // per player / per step, not per grain
+    const guarding = this.players.map((_, i) => this.isGuarding(i));
+    const { fov, zNear, xScale } = VIEW;
+    const half = w * 0.5;
+    for (let i = 0; i < ps.count; i++) {
+      const owner = ps.owner[i];
+      const pl = this.players[owner];
+      ps.px[i] = x[i]; ps.pz[i] = z[i];
+      vx[i] += pl.windXZ.x; vz[i] += pl.windXZ.z; vz[i] += 0.002;
+      vx[i] *= drag; vz[i] *= drag;
+      x[i] += vx[i]; z[i] += vz[i];
+      // project(x, z, w, 1).screenX, without the allocation
+      const p = fov / (z[i] + zNear);
+      const screenX = half + x[i] * p * xScale;
+      const worldDelta = (pl.pointerX * w - screenX) / Math.max(1e-6, p * xScale);
+      if (pl.spread < 0.5) {
+        const desiredVx = worldDelta * (1 - pl.spread) * 0.5;
+        vx[i] = vx[i] * 0.78 + desiredVx * 0.22;
+      }
+      vx[i] = Math.max(-0.9, Math.min(0.9, vx[i]));
+      if (pl.spread < 0.18) vx[i] *= 0.08;
+      if (z[i] > this.zFar) { z[i] = rng.range(2, 6); x[i] = rng.range(-8, 8); vx[i] = rng.range(-0.04, 0.04); vz[i] = rng.range(0, 0.02); life[i] = rng.range(PARTICLE_LIFE_MIN, PARTICLE_LIFE_MAX); }
+      const floor = guarding[owner] ? GUARD_WALL_Z : 0.6;
+      if (z[i] < floor) z[i] = floor;
+      if (x[i] < -this.laneEdge) { x[i] = -this.laneEdge; vx[i] *= 0.05; }
+      if (x[i] > this.laneEdge)  { x[i] = this.laneEdge;  vx[i] *= 0.05; }
+      life[i] -= 1;
+    }
+  }
+
+  private fireBurst(player: number) {
+    this.players[player].burstCooldown = BURST_COOLDOWN;
+    this.spawnBurst(player);
+  }
+
+  // the volley itself; the burst pickup fires one without touching the cooldown
+  private spawnBurst(player: number) {
+    for (let i = 0; i < BURST_PARTICLES; i++) this.spawnParticle(player, true);
+    this.emit("burst", { player });
+  }
+
+  private spawnParticle(owner: number, burst = false) {
+    const rng = this.rng;
+    const pl = this.players[owner];
+    const wide = this.hasEffect("wide", owner) ? WIDE_SPREAD : 1;
+    const z0 = rng.range(2, 6), halfW = burst ? 1.5 : (1 + pl.spread * 5) * wide;
+    const w = this.viewWidth;
+    const pFactor = VIEW.fov / (z0 + VIEW.zNear);
+    const worldCenterX = (pl.pointerX * w - w * 0.5) / Math.max(1e-6, pFactor * VIEW.xScale);
+    const x0 = worldCenterX + rng.range(-halfW, halfW);
+    const vz0 = burst ? rng.range(0.5, 0.8) : rng.range(0.02, 0.06);
+    this.stats.particlesSpawned++;
+    const vx0 = rng.range(-0.04, 0.04);
+    const life = rng.range(PARTICLE_LIFE_MIN, PARTICLE_LIFE_MAX);
+    this.particles.add(x0, z0, vx0, vz0, life, rng.int(PARTICLE_CHARS.length), owner);
+  }
+}
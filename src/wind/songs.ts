@@ -0,0 +1,115 @@
+// The soundtrack, in the track format described in music.ts. Channel volume
+// 1 is the old melody level; the music bus and the sequencer level sit on top.
+//
+//   title     - the title screen
+//   combat1-3 - waves by tier: 1-5, 6-10, 11 onwards (see combatSong())
+//   boss      - while a boss is up
+//   gameOver  - plays once when the run ends
+
+import type { Channel, Song } from "./music";
+
+export type SongId = "title" | "combat1" | "combat2" | "combat3" | "boss" | "gameOver";
+
+// Shared layers: drums that kick in as enemies get close, and an alarm blip
+// at low HP. Both are one bar, so they fit any 4/4 song.
+const DANGER_DRUMS: Channel = { wave: "noise", volume: 1, when: "danger", notes: "k/8 h s h k h s h" };
+const LOW_HP_ALARM: Channel = {
+  wave: "square", volume: 0.35, when: "lowHP", gate: 0.4,
+  notes: "-/8 - A6 - - - A6 -",
+};
+
+export const SONGS: Record<SongId, Song> = {
+  title: {
+    title: "Drifting Dunes",
+    tempo: 96,
+    loop: true,
+    channels: [
+      { wave: "triangle", volume: 0.9, envelope: { attack: 0.02, release: 0.2 },
+        notes: "A3/8 C4 E4 A4 E4 C4 A3 C4 | F3 A3 C4 F4 C4 A3 F3 A3 | G3 B3 D4 G4 D4 B3 G3 B3 | E3 G#3 B3 E4 B3 G#3 E4/4" },
+      { wave: "square", volume: 0.45, gate: 0.9, envelope: { attack: 0.05, sustain: 0.6, release: 0.3 },
+        notes: "E5/2 C5 | A4/2. C5/4 | B4/2 D5 | B4/1" },
+      { wave: "triangle", volume: 0.8, notes: "A2/1 | F2/1 | G2/1 | E2/1" },
+    ],
+  },
+
+  combat1: {
+    title: "Sand Strike",
+    tempo: 140,
+    loop: true,
+    channels: [
+      { wave: "square", volume: 1, gate: 0.7,
+        notes: "E4/8 - G4 - A4 G4 E4 - | D4 - E4 - G4 - A4 - | E4 - G4 A4 B4 - A4 G4 | E4 D4 C4 - D4 E4 - -" },
+      { wave: "triangle", volume: 1, gate: 0.7, envelope: { attack: 0.02 },
+        notes: "A2/4 A2 C#3 C#3 | G2 G2 A2 A2 | A2 A2 C#3 D3 | G2 G2 A2 A2" },
+      DANGER_DRUMS,
+      LOW_HP_ALARM,
+    ],
+  },
+
+  combat2: {
+    title: "Dust Devils",
+    tempo: 150,
+    loop: true,
+    channels: [
+      { wave: "square", volume: 0.9, gate: 0.6,
+        notes: "D5/8 - A4 D5 F5 - E5 D5 | C5 - A4 - C5 D5 - - | D5 - A4 D5 F5 G5 A5 - | G5 F5 E5 C5 D5/4 - " },
+      { wave: "triangle", volume: 1, gate: 0.5,
+        notes: "D3/8 D3 D4 D3 D3 D3 D4 D3 | C3 C3 C4 C3 C3 C3 C4 C3 | Bb2 Bb2 Bb3 Bb2 Bb2 Bb2 Bb3 Bb2 | A2 A2 A3 A2 A2 A2 A3 A2" },
+      { wave: "noise", volume: 0.6, notes: "h/8 h h h h h h h" },
+      DANGER_DRUMS,
+      LOW_HP_ALARM,
+    ],
+  },
+
+  combat3: {
+    title: "Storm Front",
+    tempo: 160,
+    loop: true,
+    channels: [
+      { wave: "sawtooth", volume: 0.5, gate: 0.6, envelope: { attack: 0.005, decay: 0.08, sustain: 0.5 },
+        notes: "E5/16 E5 B4 E5 G5/8 F#5 E5 D5 B4/4 | C5/16 C5 G4 C5 E5/8 D5 C5 B4 A4/4 | E5/16 E5 B4 E5 G5/8 A5 B5 A5 G5/4 | F#5/8 G5 F#5 D#5 E5/2" },
+      { wave: "triangle", volume: 1, gate: 0.5,
+        notes: "E2/8 E3 E2 E3 E2 E3 E2 E3 | C2 C3 C2 C3 C2 C3 C2 C3 | E2 E3 E2 E3 E2 E3 E2 E3 | B1 B2 B1 B2 E2 E3 E2 E3" },
+      { wave: "noise", volume: 0.7, notes: "k/8 h h h k h h h" },
+      { wave: "noise", volume: 0.8, when: "danger", notes: "-/4 s - s" },
+      LOW_HP_ALARM,
+    ],
+  },
+
+  boss: {
+    title: "Colossus",
+    tempo: 150,
+    loop: true,
+    channels: [
+      { wave: "sawtooth", volume: 0.55, gate: 0.5, envelope: { attack: 0.005, decay: 0.1, sustain: 0.5 },
+        notes: "A2/16 A2 A3 A2 C3/8 A2 D#3/16 D3 C3 A2 G2/8 A2 | A2/16 A2 A3 A2 C3/8 A2 F3/16 E3 D#3 D3 C3/8 G2" },
+      { wave: "square", volume: 0.7, gate: 0.9, envelope: { attack: 0.03, sustain: 0.7 },
+        notes: "A4/2 C5/4 D#5 | E5/2. D5/8 C5 | A4/2 G4/4 F4 | E4/1" },
+      { wave: "noise", volume: 1, notes: "k/8 h s k k h s h" },
+      { wave: "noise", volume: 0.5, when: "danger", notes: "h/16 h h h h h h h h h h h h h h h" },
+      LOW_HP_ALARM,
+    ],
+  },
+
+  gameOver: {
+    title: "Buried",
+    tempo: 76,
+    loop: false,
+    channels: [
+      { wave: "triangle", volume: 1, gate: 0.95, envelope: { attack: 0.03, sustain: 0.7, release: 0.6 },
+        notes: "E4/4 D4 C4 B3 | A3/2. -/4" },
+      { wave: "square", volume: 0.3, gate: 0.95, envelope: { attack: 0.1, sustain: 0.6, release: 0.8 },
+        notes: "C4/2 G3 | E3/2. -/4" },
+      { wave: "triangle", volume: 0.8, gate: 0.95, envelope: { release: 0.8 },
+        notes: "A2/2 E2 | A1/2. -/4" },
+    ],
+  },
+};
+
+const COMBAT_SONGS: SongId[] = ["combat1", "combat2", "combat3"];
+const WAVES_PER_TIER = 5;
+
+// Combat theme for a wave (0-based); the last tier carries on forever.
+export function combatSong(waveIndex: number): SongId {
+  return COMBAT_SONGS[Math.min(COMBAT_SONGS.length - 1, Math.floor(waveIndex / WAVES_PER_TIER))];
+}
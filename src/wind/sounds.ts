@@ -1,5 +1,11 @@
 // Synthesized sound effects using Web Audio API — no files needed
 
+import { Sequencer } from "./music";
+import type { MusicMood } from "./music";
+import { SONGS } from "./songs";
+import type { SongId } from "./songs";
+import type { PowerUpKind } from "./powerups";
+
 let ctx: AudioContext | null = null;
 
 function getCtx(): AudioContext {
@@ -8,119 +14,208 @@ function getCtx(): AudioContext {
   return ctx;
 }
 
-function master(gain: number): GainNode {
-  const g = getCtx().createGain();
-  g.gain.value = gain;
-  g.connect(getCtx().destination);
+// ---------------------------------------------------------------------------
+// MIXER
+// ---------------------------------------------------------------------------
+// Buses: music and sfx each have their own gain and both feed master, which
+// is the only node connected to the speakers. Levels are 0..1; muting keeps
+// the level so unmuting restores it. Nothing here touches localStorage (see
+// audioPrefs.ts).
+
+export type Mix = {
+  master: number;
+  music: number;
+  sfx: number;
+  muted: boolean;      // everything
+  musicMuted: boolean;
+  sfxMuted: boolean;
+};
+
+export const DEFAULT_MIX: Mix = {
+  master: 0.8, music: 1, sfx: 1, muted: false, musicMuted: false, sfxMuted: false,
+};
+
+let mix: Mix = { ...DEFAULT_MIX };
+
+let masterOut: GainNode | null = null;
+let musicOut: GainNode | null = null;
+// All effects go through one bus so resetAudio() can cut any that are still
+// ringing (e.g. the game-over jingle when restarting).
+let sfxOut: GainNode | null = null;
+
+function masterLevel() { return mix.muted ? 0 : mix.master; }
+function musicLevel() { return mix.musicMuted ? 0 : mix.music; }
+function sfxLevel() { return mix.sfxMuted ? 0 : mix.sfx; }
+
+function masterBus(): GainNode {
+  if (!masterOut) {
+    masterOut = getCtx().createGain();
+    masterOut.gain.value = masterLevel();
+    masterOut.connect(getCtx().destination);
+  }
+  return masterOut;
+}
+
+function musicBus(): GainNode {
+  if (!musicOut) {
+    musicOut = getCtx().createGain();
+    musicOut.gain.value = musicLevel();
+    musicOut.connect(masterBus());
+  }
+  return musicOut;
+}
+
+function sfxBus(): GainNode {
+  if (!sfxOut) {
+    sfxOut = getCtx().createGain();
+    sfxOut.gain.value = sfxLevel();
+    sfxOut.connect(masterBus());
+  }
+  return sfxOut;
+}
+
+// Applies new levels, gliding over a few ms so sliders don't click. Safe to
+// call before any sound has played (the buses pick it up when created).
+export function setMix(m: Mix) {
+  mix = { ...m };
+  if (!ctx) return;
+  const t = ctx.currentTime;
+  masterOut?.gain.setTargetAtTime(masterLevel(), t, 0.02);
+  musicOut?.gain.setTargetAtTime(musicLevel(), t, 0.02);
+  sfxOut?.gain.setTargetAtTime(sfxLevel(), t, 0.02);
+}
+
+export function getMix(): Mix {
+  return { ...mix };
+}
+
+// Where an effect happens: pan -1 (left) .. 1 (right) from its screen x, and
+// distance 0 (at the player) .. 1 (far end of the lane); far sounds are quieter.
+export type SoundPos = { pan: number; distance: number };
+
+function master(gain: number, pos?: SoundPos): GainNode {
+  const ac = getCtx();
+  const g = ac.createGain();
+  if (!pos) {
+    g.gain.value = gain;
+    g.connect(sfxBus());
+    return g;
+  }
+  g.gain.value = gain * (1 - 0.7 * Math.max(0, Math.min(1, pos.distance)));
+  const panner = ac.createStereoPanner();
+  panner.pan.value = Math.max(-1, Math.min(1, pos.pan));
+  g.connect(panner);
+  panner.connect(sfxBus());
   return g;
 }
 
+// two seconds of white noise, shared by the drums and the wind layer
+let noiseBuf: AudioBuffer | null = null;
+
+function noiseBuffer(): AudioBuffer {
+  const ac = getCtx();
+  if (!noiseBuf) {
+    noiseBuf = ac.createBuffer(1, ac.sampleRate * 2, ac.sampleRate);
+    const data = noiseBuf.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  }
+  return noiseBuf;
+}
+
 // ---------------------------------------------------------------------------
 // CHIPTUNE MUSIC
 // ---------------------------------------------------------------------------
-// A simple looping melody + bass line using square/triangle oscillators.
-// Call startMusic() once when the game begins, stopMusic() on game over.
-
-const BPM = 140;
-const BEAT = 60 / BPM;         // seconds per beat
-
-
-// Melody: note frequencies (Hz), 0 = rest. Two bars that loop.
-const MELODY: number[] = [
-  330, 0,   392, 0,   440, 392, 330, 0,
-  294, 0,   330, 0,   392, 0,   440, 0,
-  330, 0,   392, 440, 494, 0,   440, 392,
-  330, 294, 262, 0,   294, 330, 0,   0,
-];
-
-// Bass line: one note per beat, two bars
-const BASS: number[] = [
-  110, 110, 138, 138,
-  98,  98,  110, 110,
-  110, 110, 138, 147,
-  98,  98,  110, 110,
-];
-
-let musicGain: GainNode | null = null;
-let musicRunning = false;
-let musicTimeout: ReturnType<typeof setTimeout> | null = null;
-
-function scheduleBar(startTime: number, loop: () => void) {
-  if (!musicRunning) return;
-  const ac = getCtx();
+// The songs in songs.ts, played by the sequencer in music.ts into the music
+// bus. playMusic() crossfades between them; setMusicMood() lets the current
+// song speed up and bring in its danger / low-HP layers.
 
-  const stepDur = BEAT / 2; // 8th notes for melody
+export type { MusicMood } from "./music";
 
-  // --- melody (square wave, quiet) ---
-  MELODY.forEach((freq, i) => {
-    if (freq === 0) return;
-    const t = startTime + i * stepDur;
-    const osc = ac.createOscillator();
-    osc.type = "square";
-    osc.frequency.value = freq;
-    const env = ac.createGain();
-    env.gain.setValueAtTime(0, t);
-    env.gain.linearRampToValueAtTime(1, t + 0.01);
-    env.gain.setValueAtTime(1, t + stepDur * 0.55);
-    env.gain.linearRampToValueAtTime(0, t + stepDur * 0.8);
-    osc.connect(env);
-    env.connect(musicGain!);
-    osc.start(t);
-    osc.stop(t + stepDur);
-  });
+const MUSIC_LEVEL = 0.07; // quiet background volume, under the music bus
 
-  // --- bass (triangle wave) ---
-  BASS.forEach((freq, i) => {
-    const t = startTime + i * BEAT;
-    const osc = ac.createOscillator();
-    osc.type = "triangle";
-    osc.frequency.value = freq;
-    const env = ac.createGain();
-    env.gain.setValueAtTime(0, t);
-    env.gain.linearRampToValueAtTime(1, t + 0.02);
-    env.gain.setValueAtTime(1, t + BEAT * 0.6);
-    env.gain.linearRampToValueAtTime(0, t + BEAT * 0.85);
-    osc.connect(env);
-    env.connect(musicGain!);
-    osc.start(t);
-    osc.stop(t + BEAT);
-  });
+let sequencer: Sequencer | null = null;
+let mood: MusicMood = { danger: 0, lowHP: false };
 
-  // schedule next bar slightly before this one ends
-  const barDuration = MELODY.length * stepDur;
-  const msUntilNext = (startTime + barDuration - ac.currentTime - 0.05) * 1000;
-  musicTimeout = setTimeout(() => {
-    scheduleBar(startTime + barDuration, loop);
-  }, Math.max(0, msUntilNext));
+function getSequencer(): Sequencer {
+  if (!sequencer) {
+    sequencer = new Sequencer(getCtx(), musicBus(), SONGS, noiseBuffer(), MUSIC_LEVEL);
+    sequencer.setMood(mood);
+  }
+  return sequencer;
 }
 
-export function startMusic() {
-  if (musicRunning) return;
-  musicRunning = true;
-  const ac = getCtx();
-  musicGain = ac.createGain();
-  musicGain.gain.value = 0.07; // quiet background volume
-  musicGain.connect(ac.destination);
-  scheduleBar(ac.currentTime + 0.1, () => {});
+// Crossfades to a song; asking for the one that's already on does nothing.
+export function playMusic(id: SongId) {
+  getSequencer().play(id);
 }
 
 export function stopMusic() {
-  musicRunning = false;
-  if (musicTimeout) clearTimeout(musicTimeout);
-  if (musicGain) {
-    musicGain.gain.setValueAtTime(musicGain.gain.value, getCtx().currentTime);
-    musicGain.gain.linearRampToValueAtTime(0, getCtx().currentTime + 0.3);
+  sequencer?.stop();
+}
+
+// Cheap to call every frame.
+export function setMusicMood(m: MusicMood) {
+  mood = m;
+  sequencer?.setMood(m);
+}
+
+// Hard stop for restarts: silences the music (including notes already
+// scheduled), the wind layer and any effects still playing, so the next
+// playMusic() begins from a clean slate.
+export function resetAudio() {
+  sequencer?.reset();
+  stopWindSound();
+  if (sfxOut) {
+    sfxOut.disconnect();
+    sfxOut = null;
   }
 }
 
+// ---------------------------------------------------------------------------
+// WIND LAYER
+// ---------------------------------------------------------------------------
+// Looping noise through a band-pass filter that follows the sand: louder and
+// brighter the harder it's pumped, narrower (more of a whistle) the more
+// focused the beam.
+
+let wind: { src: AudioBufferSourceNode; filter: BiquadFilterNode; gain: GainNode } | null = null;
+
+// intensity and focus 0..1; starts the layer on first use
+export function setWindSound(intensity: number, focus: number) {
+  const ac = getCtx();
+  if (!wind) {
+    const src = ac.createBufferSource();
+    src.buffer = noiseBuffer();
+    src.loop = true;
+    const filter = ac.createBiquadFilter();
+    filter.type = "bandpass";
+    const gain = ac.createGain();
+    gain.gain.value = 0;
+    src.connect(filter); filter.connect(gain); gain.connect(sfxBus());
+    src.start();
+    wind = { src, filter, gain };
+  }
+  const t = ac.currentTime;
+  wind.gain.gain.setTargetAtTime(0.12 * intensity, t, 0.08);
+  wind.filter.frequency.setTargetAtTime(300 + 2200 * intensity, t, 0.08);
+  wind.filter.Q.setTargetAtTime(0.7 + 6 * focus, t, 0.1);
+}
+
+export function stopWindSound() {
+  if (!wind) return;
+  wind.src.stop();
+  wind.gain.disconnect();
+  wind = null;
+}
+
 // ---------------------------------------------------------------------------
 // SOUND EFFECTS
 // ---------------------------------------------------------------------------
 
 // --- Enemy death: short descending blip ---
-export function playEnemyDeath() {
+export function playEnemyDeath(pos?: SoundPos) {
   const ac = getCtx();
-  const g = master(0.25);
+  const g = master(0.25, pos);
   const osc = ac.createOscillator();
   osc.type = "square";
   osc.frequency.setValueAtTime(520, ac.currentTime);
@@ -134,11 +229,56 @@ export function playEnemyDeath() {
   osc.stop(ac.currentTime + 0.2);
 }
 
+// Special attack: a rising whoosh.
+export function playBurst(pos?: SoundPos) {
+  const ac = getCtx();
+  const g = master(0.22, pos);
+  const osc = ac.createOscillator();
+  osc.type = "sawtooth";
+  osc.frequency.setValueAtTime(90, ac.currentTime);
+  osc.frequency.exponentialRampToValueAtTime(880, ac.currentTime + 0.25);
+  const env = ac.createGain();
+  env.gain.setValueAtTime(0.001, ac.currentTime);
+  env.gain.exponentialRampToValueAtTime(1, ac.currentTime + 0.05);
+  env.gain.exponentialRampToValueAtTime(0.001, ac.currentTime + 0.3);
+  osc.connect(env);
+  env.connect(g);
+  osc.start(ac.currentTime);
+  osc.stop(ac.currentTime + 0.3);
+}
+
+// Power-up pickups: a quick arpeggio each, told apart by direction, timbre
+// and speed. `gap` is between notes, `decay` is each note's length (s).
+const POWER_UP_CUES: Record<PowerUpKind, { notes: number[]; type: OscillatorType; gap: number; decay: number }> = {
+  heavy:  { notes: [131, 196, 262, 392], type: "sawtooth", gap: 0.06, decay: 0.16 }, // low and thick
+  burst:  { notes: [784, 1047, 1319, 1568], type: "square", gap: 0.03, decay: 0.08 }, // fast and bright
+  slow:   { notes: [784, 659, 523, 392], type: "triangle", gap: 0.09, decay: 0.2 },  // winding down
+  wide:   { notes: [523, 784, 1047, 1568], type: "triangle", gap: 0.05, decay: 0.14 }, // open fifths
+  repair: { notes: [523, 659, 784, 1047], type: "sine", gap: 0.07, decay: 0.22 },    // soft major chime
+};
+
+export function playPowerUp(kind: PowerUpKind, pos?: SoundPos) {
+  const ac = getCtx();
+  const cue = POWER_UP_CUES[kind];
+  cue.notes.forEach((freq, i) => {
+    const t = ac.currentTime + i * cue.gap;
+    const g = master(0.14, pos);
+    const osc = ac.createOscillator();
+    osc.type = cue.type;
+    osc.frequency.setValueAtTime(freq, t);
+    const env = ac.createGain();
+    env.gain.setValueAtTime(1, t);
+    env.gain.exponentialRampToValueAtTime(0.001, t + cue.decay);
+    osc.connect(env); env.connect(g);
+    osc.start(t); osc.stop(t + cue.decay + 0.01);
+  });
+}
+
 // --- Player hit: low thud + brief noise burst ---
-export function playPlayerHit() {
+export function playPlayerHit(pos?: SoundPos) {
   const ac = getCtx();
 
-  const g = master(0.3);
+  const g = master(0.3, pos);
   const osc = ac.createOscillator();
   osc.type = "sine";
   osc.frequency.setValueAtTime(140, ac.currentTime);
@@ -149,17 +289,87 @@ export function playPlayerHit() {
   osc.connect(env); env.connect(g);
   osc.start(ac.currentTime); osc.stop(ac.currentTime + 0.18);
 
-  const bufSize = ac.sampleRate * 0.08;
-  const buf = ac.createBuffer(1, bufSize, ac.sampleRate);
-  const data = buf.getChannelData(0);
-  for (let i = 0; i < bufSize; i++) data[i] = Math.random() * 2 - 1;
   const noise = ac.createBufferSource();
-  noise.buffer = buf;
+  noise.buffer = noiseBuffer();
   const nEnv = ac.createGain();
-  nEnv.gain.setValueAtTime(0.18, ac.currentTime);
+  nEnv.gain.setValueAtTime(0.6, ac.currentTime); // 0.18 overall after g
   nEnv.gain.exponentialRampToValueAtTime(0.001, ac.currentTime + 0.08);
-  noise.connect(nEnv); nEnv.connect(ac.destination);
-  noise.start(ac.currentTime);
+  noise.connect(nEnv); nEnv.connect(g);
+  noise.start(ac.currentTime, Math.random(), 0.08);
+}
+
+// Boss arrival / phase change: a low detuned growl.
+export function playBossRoar(pos?: SoundPos) {
+  const ac = getCtx();
+  const g = master(0.22, pos);
+  [55, 58].forEach(freq => {
+    const osc = ac.createOscillator();
+    osc.type = "sawtooth";
+    osc.frequency.setValueAtTime(freq * 2, ac.currentTime);
+    osc.frequency.exponentialRampToValueAtTime(freq, ac.currentTime + 0.6);
+    const env = ac.createGain();
+    env.gain.setValueAtTime(0.001, ac.currentTime);
+    env.gain.exponentialRampToValueAtTime(1, ac.currentTime + 0.08);
+    env.gain.exponentialRampToValueAtTime(0.001, ac.currentTime + 0.7);
+    osc.connect(env); env.connect(g);
+    osc.start(ac.currentTime); osc.stop(ac.currentTime + 0.7);
+  });
+}
+
+// Boss stinger: a swelling low minor chord over a drum hit, played once as
+// the boss music kicks in.
+export function playBossStinger() {
+  const ac = getCtx();
+  const t = ac.currentTime;
+  const g = master(0.18);
+  [110, 131, 156].forEach(freq => {
+    const osc = ac.createOscillator();
+    osc.type = "sawtooth";
+    osc.frequency.setValueAtTime(freq, t);
+    const env = ac.createGain();
+    env.gain.setValueAtTime(0.001, t);
+    env.gain.exponentialRampToValueAtTime(1, t + 0.4);
+    env.gain.exponentialRampToValueAtTime(0.001, t + 1.4);
+    osc.connect(env); env.connect(g);
+    osc.start(t); osc.stop(t + 1.4);
+  });
+  const boom = ac.createOscillator();
+  boom.type = "sine";
+  boom.frequency.setValueAtTime(90, t);
+  boom.frequency.exponentialRampToValueAtTime(30, t + 0.5);
+  const bEnv = ac.createGain();
+  bEnv.gain.setValueAtTime(2, t);
+  bEnv.gain.exponentialRampToValueAtTime(0.001, t + 0.6);
+  boom.connect(bEnv); bEnv.connect(g);
+  boom.start(t); boom.stop(t + 0.6);
+}
+
+// Boss defeated: a falling boom, then a victory arpeggio.
+export function playBossDefeated(pos?: SoundPos) {
+  const ac = getCtx();
+  const g = master(0.3, pos);
+  const osc = ac.createOscillator();
+  osc.type = "square";
+  osc.frequency.setValueAtTime(300, ac.currentTime);
+  osc.frequency.exponentialRampToValueAtTime(30, ac.currentTime + 0.5);
+  const env = ac.createGain();
+  env.gain.setValueAtTime(1, ac.currentTime);
+  env.gain.exponentialRampToValueAtTime(0.001, ac.currentTime + 0.55);
+  osc.connect(env); env.connect(g);
+  osc.start(ac.currentTime); osc.stop(ac.currentTime + 0.55);
+
+  [392, 523, 659, 784, 1047].forEach((freq, i) => {
+    const t = ac.currentTime + 0.45 + i * 0.09;
+    const ng = master(0.15, pos);
+    const n = ac.createOscillator();
+    n.type = "triangle";
+    n.frequency.setValueAtTime(freq, t);
+    const nEnv = ac.createGain();
+    nEnv.gain.setValueAtTime(1, t);
+    nEnv.gain.exponentialRampToValueAtTime(0.001, t + 0.25);
+    n.connect(nEnv); nEnv.connect(ng);
+    n.start(t); n.stop(t + 0.26);
+  });
 }
 
 // --- Wave start: ascending arpeggio ---
@@ -182,7 +392,6 @@ export function playWaveStart() {
 
 // --- Game over: descending sad tones ---
 export function playGameOver() {
-  stopMusic();
   const ac = getCtx();
   const notes = [330, 277, 220, 165];
   notes.forEach((freq, i) => {
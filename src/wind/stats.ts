@@ -0,0 +1,69 @@
+// Per-run statistics. The counters live on the Simulation (so replays and
+// headless runs produce the same numbers); summarizeRun() turns them into the
+// figures shown on the results screen and stored in the leaderboard.
+
+import { seconds } from "./clock";
+import { enemyKinds } from "./enemies";
+import type { Difficulty, EnemyKind, PlayMode, PlayerState } from "./sim";
+
+export type RunStats = {
+  focusedSteps: number;     // steps spent with spread below FOCUS_SPREAD
+  particlesSpawned: number;
+  particlesHit: number;     // particles that struck an enemy, boss or projectile (or a shield)
+  kills: Record<EnemyKind, number>;
+  bosses: number;           // bosses defeated
+  deflected: number;        // projectiles reflected or broken
+};
+
+export type RunSummary = {
+  score: number;
+  wave: number;             // 1-based wave reached
+  durationSec: number;
+  focusedSec: number;
+  accuracy: number;         // 0..1
+  kills: Record<EnemyKind, number>;
+  bosses?: number;          // missing on entries saved before bosses existed
+  deflected?: number;
+  // two-player runs only (missing on entries saved before two-player existed)
+  mode?: PlayMode;
+  playerScores?: number[];
+  difficulty?: Difficulty;  // left out for normal
+};
+
+export function emptyStats(): RunStats {
+  const kills: Record<EnemyKind, number> = {};
+  for (const k of enemyKinds()) kills[k] = 0;
+  return { focusedSteps: 0, particlesSpawned: 0, particlesHit: 0, kills, bosses: 0, deflected: 0 };
+}
+
+export function summarizeRun(
+  stats: RunStats, score: number, waveIndex: number, steps: number,
+  mode: PlayMode = "solo", players: PlayerState[] = [], difficulty: Difficulty = "normal",
+): RunSummary {
+  const summary: RunSummary = {
+    score,
+    wave: waveIndex + 1,
+    durationSec: seconds(steps),
+    focusedSec: seconds(stats.focusedSteps),
+    accuracy: stats.particlesSpawned > 0 ? stats.particlesHit / stats.particlesSpawned : 0,
+    kills: { ...stats.kills },
+    bosses: stats.bosses,
+    deflected: stats.deflected,
+  };
+  if (mode !== "solo") {
+    summary.mode = mode;
+    summary.playerScores = players.map(p => p.score);
+  }
+  if (difficulty !== "normal") summary.difficulty = difficulty;
+  return summary;
+}
+
+export function totalKills(kills: Record<EnemyKind, number>) {
+  return Object.values(kills).reduce((a, b) => a + b, 0);
+}
+
+export function formatDuration(sec: number) {
+  const m = Math.floor(sec / 60);
+  const s = Math.floor(sec % 60);
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
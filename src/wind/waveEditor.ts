@@ -0,0 +1,419 @@
+// In-browser wave editor. Enemies are placed on a timeline canvas
+// (horizontal = lane x, vertical = spawn delay) and the selected wave is
+// previewed by a second, muted Game looping a one-wave copy of the pack.
+
+import { Game } from "./game";
+import { STEP_HZ } from "./clock";
+import { LANE_X_LIMIT, loadLevelPackFile } from "./levelPack";
+import { enemyKinds } from "./enemies";
+import type { LevelPack } from "./levelPack";
+import type { EnemyKind, Wave, WaveEntry } from "./sim";
+
+const GUTTER = 44;      // time labels
+const RANDOM_COL = 44;  // entries without a fixed lane
+const PAD = 12;
+const DOT_R = 9;
+const DELAY_SNAP = 5;
+const X_SNAP = 0.5;
+
+export type WaveEditorOptions = {
+  onPlay: (pack: LevelPack) => void;
+  onError: (msg: string) => void;
+};
+
+function q<T extends Element>(root: ParentNode, sel: string): T {
+  const el = root.querySelector<T>(sel);
+  if (!el) throw new Error(`Wave editor markup is missing ${sel}`);
+  return el;
+}
+
+function clonePack(p: LevelPack): LevelPack {
+  return JSON.parse(JSON.stringify(p)) as LevelPack;
+}
+
+// Timeline dot labels: a kind's first letter, or two letters where kinds
+// share one (small / shielded / spitter -> Sm / Sh / Sp).
+function kindLabels(kinds: EnemyKind[]): Map<EnemyKind, string> {
+  const labels = new Map<EnemyKind, string>();
+  kinds.forEach((kind, i) => {
+    const first = kind[0].toUpperCase();
+    if (!kinds.some(k => k !== kind && k[0].toUpperCase() === first)) {
+      labels.set(kind, first);
+      return;
+    }
+    const taken = new Set(labels.values());
+    const two = [...kind.slice(1)].map(c => first + c.toLowerCase()).find(l => !taken.has(l));
+    labels.set(kind, two ?? `${first}${i}`);
+  });
+  return labels;
+}
+
+export class WaveEditor {
+  private root: HTMLElement;
+  private opts: WaveEditorOptions;
+
+  private waveSelect: HTMLSelectElement;
+  private labelInput: HTMLInputElement;
+  private palette: HTMLDivElement;
+  private timeline: HTMLCanvasElement;
+  private tctx: CanvasRenderingContext2D;
+  private importFile: HTMLInputElement;
+
+  private preview: Game;
+  private pack!: LevelPack;
+  private waveIndex = 0;
+  private kind: EnemyKind = "normal";
+  private kindLabels = kindLabels(enemyKinds());
+  private open = false;
+
+  // entry being dragged (index into the current wave)
+  private dragging: number | null = null;
+  private dragMoved = false;
+
+  constructor(root: HTMLElement, pack: LevelPack, opts: WaveEditorOptions) {
+    this.root = root;
+    this.opts = opts;
+    this.waveSelect = q(root, "#edWave");
+    this.labelInput = q(root, "#edLabel");
+    this.palette = q(root, "#edPalette");
+    this.timeline = q(root, "#edTimeline");
+    this.importFile = q(root, "#edImportFile");
+    const ctx = this.timeline.getContext("2d");
+    if (!ctx) throw new Error("No 2D context for #edTimeline");
+    this.tctx = ctx;
+
+    this.preview = new Game(q<HTMLCanvasElement>(root, "#edPreview"));
+    this.preview.setMuted(true);
+    this.preview.setLooping(true);
+    this.preview.start();
+
+    this.buildPalette();
+    this.bindControls();
+    this.load(pack);
+  }
+
+  isOpen() {
+    return this.open;
+  }
+
+  show(pack: LevelPack) {
+    this.load(pack);
+    this.open = true;
+    this.root.hidden = false;
+  }
+
+  hide() {
+    this.open = false;
+    this.root.hidden = true;
+  }
+
+  getPack(): LevelPack {
+    return clonePack(this.pack);
+  }
+
+  // Called once per frame by main.ts while the editor is open.
+  tick(wx: number, wz: number, spread: number, pointerX: number) {
+    resizeToDisplay(this.timeline);
+    resizeToDisplay(this.preview.getCanvas());
+    this.preview.setWind(wx, wz, spread, pointerX);
+    this.preview.tick();
+    this.drawTimeline();
+  }
+
+  // --- state ---
+
+  private load(pack: LevelPack) {
+    this.pack = clonePack(pack);
+    this.waveIndex = Math.min(this.waveIndex, this.pack.waves.length - 1);
+    this.syncWaveList();
+    this.restartPreview();
+  }
+
+  private wave(): Wave {
+    return this.pack.waves[this.waveIndex];
+  }
+
+  private restartPreview() {
+    const w = this.wave();
+    this.preview.setLevelPack({ ...this.pack, name: `${this.pack.name} (preview)`, waves: [w] });
+  }
+
+  private changed() {
+    this.wave().enemies.sort((a, b) => a.delay - b.delay);
+    this.restartPreview();
+  }
+
+  private syncWaveList() {
+    this.waveSelect.innerHTML = "";
+    this.pack.waves.forEach((w, i) => {
+      const opt = document.createElement("option");
+      opt.value = String(i);
+      opt.textContent = `${i + 1}. ${w.label}`;
+      this.waveSelect.appendChild(opt);
+    });
+    this.waveSelect.value = String(this.waveIndex);
+    this.labelInput.value = this.wave().label;
+  }
+
+  // --- DOM ---
+
+  private buildPalette() {
+    for (const kind of enemyKinds()) {
+      const b = document.createElement("button");
+      b.type = "button";
+      b.dataset.kind = kind;
+      b.textContent = kind.toUpperCase();
+      b.onclick = () => {
+        this.kind = kind;
+        this.syncPalette();
+      };
+      this.palette.appendChild(b);
+    }
+  }
+
+  private syncPalette() {
+    this.palette.querySelectorAll<HTMLButtonElement>("button").forEach(b => {
+      const kind = b.dataset.kind as EnemyKind;
+      b.classList.toggle("active", kind === this.kind);
+      b.style.color = this.pack.enemies[kind].color;
+    });
+  }
+
+  private bindControls() {
+    const root = this.root;
+    this.waveSelect.onchange = () => {
+      this.waveIndex = Number(this.waveSelect.value);
+      this.syncWaveList();
+      this.restartPreview();
+    };
+    this.labelInput.oninput = () => {
+      this.wave().label = this.labelInput.value || `WAVE ${this.waveIndex + 1}`;
+      this.waveSelect.options[this.waveIndex].textContent = `${this.waveIndex + 1}. ${this.wave().label}`;
+    };
+    q<HTMLButtonElement>(root, "#edAddWave").onclick = () => {
+      this.pack.waves.splice(this.waveIndex + 1, 0, {
+        label: `WAVE ${this.pack.waves.length + 1}`,
+        enemies: [{ kind: this.kind, delay: 0, x: 0 }],
+      });
+      this.waveIndex++;
+      this.syncWaveList();
+      this.restartPreview();
+    };
+    q<HTMLButtonElement>(root, "#edDelWave").onclick = () => {
+      if (this.pack.waves.length <= 1) return;
+      this.pack.waves.splice(this.waveIndex, 1);
+      this.waveIndex = Math.max(0, this.waveIndex - 1);
+      this.syncWaveList();
+      this.restartPreview();
+    };
+    q<HTMLButtonElement>(root, "#edRestart").onclick = () => this.restartPreview();
+    q<HTMLButtonElement>(root, "#edExport").onclick = () => this.exportPack();
+    q<HTMLButtonElement>(root, "#edImport").onclick = () => this.importFile.click();
+    this.importFile.onchange = () => this.importPack();
+    q<HTMLButtonElement>(root, "#edPlay").onclick = () => this.opts.onPlay(this.getPack());
+    q<HTMLButtonElement>(root, "#edClose").onclick = () => this.hide();
+
+    this.timeline.addEventListener("pointerdown", this.onDown);
+    this.timeline.addEventListener("pointermove", this.onMove);
+    this.timeline.addEventListener("pointerup", this.onUp);
+    this.timeline.addEventListener("contextmenu", this.onContextMenu);
+    this.syncPalette();
+  }
+
+  private exportPack() {
+    const blob = new Blob([JSON.stringify(this.pack, null, 2)], { type: "application/json" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `${this.pack.name.replace(/[^\w-]+/g, "_") || "level"}.json`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  }
+
+  private async importPack() {
+    const file = this.importFile.files?.[0];
+    this.importFile.value = "";
+    if (!file) return;
+    try {
+      this.waveIndex = 0;
+      this.load(await loadLevelPackFile(file));
+      this.syncPalette();
+    } catch (e) {
+      this.opts.onError((e as Error).message);
+    }
+  }
+
+  // --- timeline geometry (CSS pixels) ---
+
+  private maxDelay() {
+    const last = Math.max(0, ...this.wave().enemies.map(e => e.delay));
+    return Math.max(10 * STEP_HZ, Math.ceil((last + 2 * STEP_HZ) / STEP_HZ) * STEP_HZ);
+  }
+
+  private size() {
+    const r = this.timeline.getBoundingClientRect();
+    return { w: r.width, h: r.height };
+  }
+
+  private laneLeft() {
+    return GUTTER + RANDOM_COL;
+  }
+
+  private toScreen(e: WaveEntry) {
+    const { w, h } = this.size();
+    const y = PAD + (e.delay / this.maxDelay()) * (h - 2 * PAD);
+    if (e.x === undefined) return { x: GUTTER + RANDOM_COL / 2, y };
+    const left = this.laneLeft() + PAD, right = w - PAD;
+    return { x: left + ((e.x + LANE_X_LIMIT) / (2 * LANE_X_LIMIT)) * (right - left), y };
+  }
+
+  private fromScreen(px: number, py: number): { delay: number; x?: number } {
+    const { w, h } = this.size();
+    const t = Math.max(0, Math.min(1, (py - PAD) / (h - 2 * PAD)));
+    const delay = Math.round((t * this.maxDelay()) / DELAY_SNAP) * DELAY_SNAP;
+    if (px < this.laneLeft()) return { delay };
+    const left = this.laneLeft() + PAD, right = w - PAD;
+    const u = Math.max(0, Math.min(1, (px - left) / (right - left)));
+    const x = Math.round((u * 2 * LANE_X_LIMIT - LANE_X_LIMIT) / X_SNAP) * X_SNAP;
+    return { delay, x };
+  }
+
+  private hit(px: number, py: number): number | null {
+    const entries = this.wave().enemies;
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const s = this.toScreen(entries[i]);
+      if (Math.hypot(s.x - px, s.y - py) <= DOT_R + 2) return i;
+    }
+    return null;
+  }
+
+  private local(e: PointerEvent | MouseEvent) {
+    const r = this.timeline.getBoundingClientRect();
+    return { x: e.clientX - r.left, y: e.clientY - r.top };
+  }
+
+  private onDown = (e: PointerEvent) => {
+    if (e.button !== 0) return;
+    const p = this.local(e);
+    const i = this.hit(p.x, p.y);
+    if (i !== null) {
+      this.dragging = i;
+      this.dragMoved = false;
+      this.timeline.setPointerCapture(e.pointerId);
+      return;
+    }
+    const at = this.fromScreen(p.x, p.y);
+    this.wave().enemies.push({ kind: this.kind, ...at });
+    this.changed();
+  };
+
+  private onMove = (e: PointerEvent) => {
+    if (this.dragging === null) return;
+    const p = this.local(e);
+    const at = this.fromScreen(p.x, p.y);
+    const entry = this.wave().enemies[this.dragging];
+    entry.delay = at.delay;
+    if (at.x === undefined) delete entry.x;
+    else entry.x = at.x;
+    this.dragMoved = true;
+  };
+
+  private onUp = () => {
+    if (this.dragging === null) return;
+    this.dragging = null;
+    // re-sorting reorders indices, so only do it once the drag ends
+    if (this.dragMoved) this.changed();
+  };
+
+  private onContextMenu = (e: MouseEvent) => {
+    e.preventDefault();
+    const p = this.local(e);
+    const i = this.hit(p.x, p.y);
+    if (i === null) return;
+    const entries = this.wave().enemies;
+    if (entries.length <= 1) return; // a wave needs at least one enemy
+    entries.splice(i, 1);
+    this.changed();
+  };
+
+  // --- drawing ---
+
+  private drawTimeline() {
+    const c = this.timeline;
+    const ctx = this.tctx;
+    const dpr = c.width / Math.max(1, c.getBoundingClientRect().width);
+    const { w, h } = this.size();
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, w, h);
+    ctx.fillStyle = "#0b0f14";
+    ctx.fillRect(0, 0, w, h);
+
+    const MONO = "ui-monospace, monospace";
+    ctx.font = `10px ${MONO}`;
+    ctx.textBaseline = "middle";
+
+    // random-lane column
+    ctx.globalAlpha = 0.06;
+    ctx.fillStyle = "#e8eef5";
+    ctx.fillRect(GUTTER, 0, RANDOM_COL, h);
+    ctx.globalAlpha = 0.45;
+    ctx.textAlign = "center";
+    ctx.fillText("RND", GUTTER + RANDOM_COL / 2, h - 8);
+
+    // second grid
+    const maxDelay = this.maxDelay();
+    ctx.strokeStyle = "#e8eef5";
+    ctx.lineWidth = 1;
+    for (let f = 0; f <= maxDelay; f += STEP_HZ) {
+      const y = PAD + (f / maxDelay) * (h - 2 * PAD);
+      ctx.globalAlpha = 0.12;
+      ctx.beginPath(); ctx.moveTo(GUTTER, y); ctx.lineTo(w, y); ctx.stroke();
+      ctx.globalAlpha = 0.45;
+      ctx.textAlign = "right";
+      ctx.fillText(`${f / STEP_HZ}s`, GUTTER - 6, y);
+    }
+
+    // lanes, labelled by x
+    const left = this.laneLeft() + PAD, right = w - PAD;
+    for (let x = -LANE_X_LIMIT; x <= LANE_X_LIMIT; x += 3) {
+      const sx = left + ((x + LANE_X_LIMIT) / (2 * LANE_X_LIMIT)) * (right - left);
+      ctx.globalAlpha = x === 0 ? 0.25 : 0.1;
+      ctx.beginPath(); ctx.moveTo(sx, 0); ctx.lineTo(sx, h); ctx.stroke();
+      ctx.globalAlpha = 0.45;
+      ctx.textAlign = "center";
+      ctx.fillText(`${x}`, sx, h - 8);
+    }
+
+    // preview playhead
+    const sim = this.preview.getSimulation();
+    if (!sim.betweenWaves) {
+      const y = PAD + (Math.min(sim.waveTimer, maxDelay) / maxDelay) * (h - 2 * PAD);
+      ctx.globalAlpha = 0.6;
+      ctx.strokeStyle = "#ffe066";
+      ctx.beginPath(); ctx.moveTo(GUTTER, y); ctx.lineTo(w, y); ctx.stroke();
+    }
+
+    // entries
+    ctx.font = `bold 10px ${MONO}`;
+    ctx.textAlign = "center";
+    this.wave().enemies.forEach((e, i) => {
+      const s = this.toScreen(e);
+      ctx.globalAlpha = i === this.dragging ? 1 : 0.85;
+      ctx.fillStyle = this.pack.enemies[e.kind].color;
+      ctx.beginPath(); ctx.arc(s.x, s.y, DOT_R, 0, Math.PI * 2); ctx.fill();
+      ctx.fillStyle = "#0b0f14";
+      ctx.fillText(this.kindLabels.get(e.kind) ?? e.kind[0].toUpperCase(), s.x, s.y + 0.5);
+    });
+    ctx.globalAlpha = 1;
+  }
+}
+
+function resizeToDisplay(c: HTMLCanvasElement) {
+  const rect = c.getBoundingClientRect();
+  const dpr = Math.max(1, window.devicePixelRatio || 1);
+  const w = Math.floor(rect.width * dpr);
+  const h = Math.floor(rect.height * dpr);
+  if (c.width !== w || c.height !== h) {
+    c.width = w;
+    c.height = h;
+  }
+}
@@ -0,0 +1,35 @@
+export type Vec3 = { x: number; y: number; z: number };
+
+// One stream's worth of wind readings (a whole input, or one tracked hand).
+export type WindSource = {
+  getWind(): Vec3;
+  getSpread(): number;   // 0 = focused beam, 1 = wide
+  getPointerX(): number; // 0..1
+};
+
+// Anything that can drive Game.setWind(). HandWind (webcam), PointerWind
+// (mouse/touch) and KeyboardWind all implement this so main.ts can swap them.
+export type WindInput = WindSource & {
+  // true if getPointerX() is in camera space (mirrored relative to the screen)
+  readonly mirrored: boolean;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  isRunning(): boolean;
+};
+
+export type InputMode = "camera" | "mouse" | "keyboard";
+
+export function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t;
+}
+
+// lerp() for loops that don't run at 60 Hz: `t` is the factor per 1/60 s and
+// `dt` the time since the last update in seconds, so smoothing feels the same
+// at any frame or detection rate.
+export function damp(a: number, b: number, t: number, dt: number) {
+  return lerp(a, b, 1 - Math.pow(1 - t, dt * 60));
+}
+
+export function clamp(v: number, lo: number, hi: number) {
+  return Math.max(lo, Math.min(hi, v));
+}
@@ -0,0 +1,98 @@
+import { EventEmitter } from "node:events";
+import { describe, expect, it } from "vitest";
+import { TtyInput } from "./input";
+import type { TtyCommand } from "./input";
+
+const COLS = 101, ROWS = 40;
+
+// A stand-in for stdin that lets the test type and click.
+function setup() {
+  const stdin = Object.assign(new EventEmitter(), {
+    isTTY: true,
+    setRawMode() { return stdin; },
+    setEncoding() { return stdin; },
+    resume() { return stdin; },
+    pause() { return stdin; },
+  });
+  const input = new TtyInput(
+    { maxPump: 3, aimStep: 0.05, dragRange: 0.5, smooth: 0.2 },
+    () => ({ cols: COLS, rows: ROWS }),
+    stdin as unknown as NodeJS.ReadStream,
+  );
+  const commands: TtyCommand[] = [];
+  input.on(cmd => commands.push(cmd));
+  input.start();
+  const send = (data: string) => { stdin.emit("data", data); };
+  return { input, commands, send };
+}
+
+// SGR report: ESC [ < button ; col ; row, M (press / motion) or m (release)
+const mouse = (button: number, col: number, row: number, press = true) => `\x1b[<${button};${col};${row}${press ? "M" : "m"}`;
+
+describe("TtyInput mouse", () => {
+  it("aims at the cursor's column", () => {
+    const { input, send } = setup();
+    send(mouse(35, 1, 5)); // plain motion, no button
+    expect(input.state().pointerX).toBe(0);
+    send(mouse(35, 51, 5));
+    expect(input.state().pointerX).toBe(0.5);
+    send(mouse(35, 300, 5)); // past the edge
+    expect(input.state().pointerX).toBe(1);
+  });
+
+  it("pumps by dragging with the left button and stops on release", () => {
+    const { input, send } = setup();
+    send(mouse(0, 10, 30));
+    send(mouse(32, 10, 20)); // drag up 10 rows of a 20-row full drag
+    expect(input.state().pump).toBe(0.5);
+    send(mouse(32, 10, 40)); // down past the origin pulls back
+    expect(input.state().pump).toBe(-0.5);
+    send(mouse(32, 10, 0));
+    expect(input.state().pump).toBe(1);
+    send(mouse(0, 10, 0, false));
+    expect(input.state().pump).toBe(0);
+    send(mouse(35, 10, 30)); // moving without the button does nothing more
+    expect(input.state().pump).toBe(0);
+  });
+
+  it("sets the spread with the wheel", () => {
+    const { input, send } = setup();
+    send(mouse(64, 1, 1) + mouse(64, 1, 1)); // two reports in one read
+    expect(input.state().spread).toBeCloseTo(0.9);
+    send(mouse(65, 1, 1));
+    expect(input.state().spread).toBeCloseTo(0.95);
+  });
+
+  it("fires the burst on a right press only", () => {
+    const { commands, send } = setup();
+    send(mouse(2, 5, 5));
+    send(mouse(34, 6, 5)); // right-button drag
+    send(mouse(2, 6, 5, false));
+    expect(commands).toEqual(["burst"]);
+  });
+});
+
+describe("TtyInput keys", () => {
+  it("reads keys and arrows between mouse reports and skips other escapes", () => {
+    const { input, commands, send } = setup();
+    send(`w\x1b[A${mouse(35, 51, 1)}\x1b[15~ds\x1bOCp`);
+    expect(input.state().pump).toBe(0.25);
+    expect(input.state().pointerX).toBeCloseTo(0.6);
+    expect(commands).toEqual(["pause"]);
+  });
+
+  it("maps the command keys", () => {
+    const { commands, send } = setup();
+    send(" \x1brR\x03");
+    expect(commands).toEqual(["burst", "pause", "restart", "restart", "quit"]);
+  });
+
+  it("focuses the beam and goes back to defaults on reset()", () => {
+    const { input, send } = setup();
+    send("fqa");
+    expect(input.state()).toMatchObject({ pump: 0, spread: 0 });
+    expect(input.state().pointerX).toBeCloseTo(0.45);
+    input.reset();
+    expect(input.state()).toEqual({ pump: 0, pointerX: 0.5, spread: 1 });
+  });
+});
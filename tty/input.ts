@@ -0,0 +1,162 @@
+// Keyboard and xterm mouse input for the terminal front-end.
+//
+// Terminals report key presses but never releases, so the keyboard works
+// like a throttle instead of KeyboardWind's hold-to-pump:
+//   - W / Up  S / Down  -> pump up / down a notch (stays until changed)
+//   - A D / Left Right  -> move the aim         F -> focus on / off
+//   - Q / E             -> narrow / widen the beam
+// The mouse works like PointerWind: the cursor aims, dragging up with the
+// left button held pumps (down pulls back), the wheel sets the spread and
+// the right button fires the burst.
+
+import { clamp, damp } from "../src/wind/windInput";
+import type { WindSample } from "../src/wind/sim";
+
+export type TtyCommand = "burst" | "pause" | "restart" | "quit";
+
+export type TtyInputConfig = {
+  maxPump: number;   // wind z at full pump
+  aimStep: number;   // pointer travel per key press (0..1 units)
+  dragRange: number; // fraction of the screen height that counts as a full drag
+  smooth: number;    // lerp factor for smoothing, per 60 Hz frame
+};
+
+// SGR mouse report: ESC [ < button ; col ; row (M = press / motion, m = release)
+const MOUSE = /^\x1b\[<(\d+);(\d+);(\d+)([Mm])/;
+const ARROWS: Record<string, string> = { A: "up", B: "down", C: "right", D: "left" };
+const PUMP_NOTCH = 0.25;
+
+export class TtyInput {
+  private cfg: TtyInputConfig;
+  private input: NodeJS.ReadStream;
+  // terminal size in cells, for mapping mouse positions
+  private size: () => { cols: number; rows: number };
+  private handlers: Array<(cmd: TtyCommand) => void> = [];
+
+  private pump = 0; // -1..1
+  private pointerX = 0.5;
+  private spread = 1;
+  private focused = false;
+  private dragOriginRow: number | null = null;
+  private wind = { x: 0, z: 0 };
+  private lastPointerX = 0.5;
+
+  constructor(cfg: TtyInputConfig, size: () => { cols: number; rows: number }, input: NodeJS.ReadStream = process.stdin) {
+    this.cfg = cfg;
+    this.size = size;
+    this.input = input;
+  }
+
+  start() {
+    this.input.setRawMode(true);
+    this.input.setEncoding("utf8");
+    this.input.on("data", this.onData);
+    this.input.resume();
+  }
+
+  stop() {
+    this.input.off("data", this.onData);
+    if (this.input.isTTY) this.input.setRawMode(false);
+    this.input.pause();
+  }
+
+  on(fn: (cmd: TtyCommand) => void): () => void {
+    this.handlers.push(fn);
+    return () => { this.handlers = this.handlers.filter(h => h !== fn); };
+  }
+
+  // Back to no pump, centred aim, wide beam (new run).
+  reset() {
+    this.pump = 0;
+    this.pointerX = this.lastPointerX = 0.5;
+    this.spread = 1;
+    this.focused = false;
+    this.dragOriginRow = null;
+    this.wind = { x: 0, z: 0 };
+  }
+
+  // pump -1..1 and aim / spread, for the status line
+  state() {
+    return { pump: this.pump, pointerX: this.pointerX, spread: this.focused ? 0 : this.spread };
+  }
+
+  // The wind for the next simulation step; `dt` in seconds since the last call.
+  sample(dt: number): WindSample {
+    // moving the aim also pushes the sand sideways, as with KeyboardWind
+    const aimSpeed = dt > 0 ? (this.pointerX - this.lastPointerX) / dt : 0;
+    this.lastPointerX = this.pointerX;
+    this.wind = {
+      x: damp(this.wind.x, -clamp(aimSpeed, -1, 1), this.cfg.smooth, dt),
+      z: damp(this.wind.z, -this.pump * this.cfg.maxPump, this.cfg.smooth, dt),
+    };
+    return { wx: this.wind.x, wz: this.wind.z, spread: this.focused ? 0 : this.spread, pointerX: this.pointerX };
+  }
+
+  private emit(cmd: TtyCommand) {
+    for (const fn of this.handlers) fn(cmd);
+  }
+
+  private onData = (data: string) => {
+    let s = data;
+    while (s.length > 0) {
+      const mouse = MOUSE.exec(s);
+      if (mouse) {
+        this.onMouse(Number(mouse[1]), Number(mouse[2]), Number(mouse[3]), mouse[4] === "M");
+        s = s.slice(mouse[0].length);
+        continue;
+      }
+      const arrow = /^\x1b[[O]([ABCD])/.exec(s);
+      if (arrow) {
+        this.onKey(ARROWS[arrow[1]]);
+        s = s.slice(arrow[0].length);
+        continue;
+      }
+      if (s.startsWith("\x1b[") || s.startsWith("\x1bO")) {
+        // some other escape sequence: skip it whole
+        const end = s.slice(2).search(/[@-~]/);
+        s = end < 0 ? "" : s.slice(end + 3);
+        continue;
+      }
+      const ch = String.fromCodePoint(s.codePointAt(0) ?? 0);
+      this.onKey(ch === "\x1b" ? "escape" : ch.toLowerCase());
+      s = s.slice(ch.length);
+    }
+  };
+
+  private onKey(k: string) {
+    switch (k) {
+      case "w": case "up": this.pump = clamp(this.pump + PUMP_NOTCH, -1, 1); break;
+      case "s": case "down": this.pump = clamp(this.pump - PUMP_NOTCH, -1, 1); break;
+      case "a": case "left": this.pointerX = clamp(this.pointerX - this.cfg.aimStep, 0, 1); break;
+      case "d": case "right": this.pointerX = clamp(this.pointerX + this.cfg.aimStep, 0, 1); break;
+      case "q": this.spread = clamp(this.spread - 0.1, 0, 1); break;
+      case "e": this.spread = clamp(this.spread + 0.1, 0, 1); break;
+      case "f": this.focused = !this.focused; break;
+      case " ": this.emit("burst"); break;
+      case "p": case "escape": this.emit("pause"); break;
+      case "r": this.emit("restart"); break;
+      case "\x03": case "\x04": this.emit("quit"); break; // Ctrl-C, Ctrl-D
+    }
+  }
+
+  private onMouse(button: number, col: number, row: number, down: boolean) {
+    const { cols, rows } = this.size();
+    this.pointerX = clamp((col - 1) / Math.max(1, cols - 1), 0, 1);
+    if (button & 64) {
+      // wheel: up narrows the beam, down widens it
+      this.spread = clamp(this.spread + (button & 1 ? 0.05 : -0.05), 0, 1);
+      return;
+    }
+    const which = button & 3;
+    const motion = (button & 32) !== 0;
+    if (which === 0 && !motion) {
+      if (down) this.dragOriginRow = row;
+      else { this.dragOriginRow = null; this.pump = 0; }
+    } else if (which === 2 && down && !motion) {
+      this.emit("burst");
+    }
+    if (this.dragOriginRow !== null) {
+      this.pump = clamp((this.dragOriginRow - row) / (rows * this.cfg.dragRange), -1, 1);
+    }
+  }
+}
@@ -0,0 +1,172 @@
+// Terminal front-end: plays ASCII Windstrike in a TTY with ANSI colours,
+// driven by the keyboard or an xterm-compatible mouse (see input.ts). It runs
+// the same Simulation as the browser on the same fixed step and draws it
+// through CharGrid, with a status line underneath.
+//
+//   npm run tty -- [--seed N] [--difficulty easy|normal|hard]
+//   npm run tty -- --smoke 60   # no TTY needed: 60 s of steady pumping,
+//                               # then the last frame and the run summary
+
+import { Simulation, BURST_COOLDOWN } from "../src/wind/sim";
+import type { Difficulty, WindSample } from "../src/wind/sim";
+import { CharGrid, CELL_W } from "../src/wind/charGrid";
+import { STEP_SEC, seconds, steps } from "../src/wind/clock";
+import { randomSeed } from "../src/wind/rng";
+import { Terminal } from "./terminal";
+import type { StatusLine } from "./terminal";
+import { TtyInput } from "./input";
+
+const FRAME_MS = 1000 / 30; // terminals don't keep up with much more
+const MAX_FRAME_SEC = 0.25;
+const STATUS_ROWS = 2;
+const HINTS = "W/S pump  A/D aim  Q/E spread  F focus  Space burst  P pause  R restart  Ctrl-C quit  (or drag with the mouse)";
+
+type Options = { seed: number; difficulty: Difficulty; smoke: number | null };
+
+function parseArgs(argv: string[]): Options {
+  const opts: Options = { seed: randomSeed(), difficulty: "normal", smoke: null };
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case "--seed": opts.seed = Number(value) >>> 0; i++; break;
+      case "--difficulty":
+        if (value !== "easy" && value !== "normal" && value !== "hard") throw new Error(`Unknown difficulty "${value}"`);
+        opts.difficulty = value; i++; break;
+      case "--smoke": opts.smoke = Math.max(1, Number(value) || 60); i++; break;
+      default: throw new Error(`Unknown option "${argv[i]}"`);
+    }
+  }
+  return opts;
+}
+
+// Wave announcements, pause and game over, centred on the grid.
+function drawBanners(grid: CharGrid, sim: Simulation, paused: boolean) {
+  const mid = Math.floor(grid.rows / 2), centre = Math.floor(grid.cols / 2);
+  if (sim.isOver()) {
+    grid.centred(centre, mid - 1, " GAME OVER ", "#e8eef5");
+    grid.centred(centre, mid + 1, ` Final Score: ${sim.score} `, "#e8eef5");
+    grid.centred(centre, mid + 2, " press R to restart ", "#e8eef5");
+  } else if (paused) {
+    grid.centred(centre, mid, " PAUSED ", "#e8eef5");
+  } else if (sim.waveAnnounceTimer > 0) {
+    grid.centred(centre, Math.floor(grid.rows * 0.42), ` ${sim.waveAnnounceLabel} `, "#e8eef5");
+  } else if (sim.betweenWaves) {
+    grid.centred(centre, Math.floor(grid.rows * 0.54), " prepare... ", "#8a94a0");
+  }
+}
+
+function statusLines(sim: Simulation, input: TtyInput): StatusLine[] {
+  const pl = sim.players[0];
+  const filled = Math.round(5 * (1 - pl.burstCooldown / BURST_COOLDOWN));
+  const hp = Math.max(0, Math.ceil(sim.playerHP));
+  const { pump, pointerX, spread } = input.state();
+  const guard = sim.isGuarding(0) ? "  GUARD" : "";
+  const line = `WAVE ${sim.waveIndex + 1}  SCORE ${sim.score}  HP ${hp}  ` +
+    `BURST ${"▮".repeat(filled)}${"▯".repeat(5 - filled)}  ` +
+    `PUMP ${pump >= 0 ? "+" : ""}${pump.toFixed(2)}  AIM ${Math.round(pointerX * 100)}%  ` +
+    `SPREAD ${spread === 0 ? "focus" : spread.toFixed(1)}${guard}`;
+  return [
+    { text: line, color: hp <= 30 ? "#ff5555" : "#ffe066" },
+    { text: HINTS, color: "#8a94a0" },
+  ];
+}
+
+// Runs without a terminal: steady pumping with the aim sweeping across the
+// lane, then prints the last frame as plain text and the run summary.
+function smoke(opts: Options, secs: number) {
+  const grid = new CharGrid(100, 40);
+  const sim = new Simulation({ seed: opts.seed, difficulty: opts.difficulty, viewWidth: grid.cols * CELL_W });
+  const n = steps(secs);
+  for (let i = 0; i < n && !sim.isOver(); i++) {
+    const sample: WindSample = { wx: 0, wz: -2.5, spread: 0.6, pointerX: 0.5 + 0.3 * Math.sin(i / 90) };
+    sim.step(sample);
+  }
+  grid.render(sim);
+  drawBanners(grid, sim, false);
+  console.log(grid.toText());
+  console.log(JSON.stringify({ seed: opts.seed, seconds: seconds(sim.stepCount), ...sim.summary() }));
+}
+
+function play(opts: Options) {
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    console.error("The terminal front-end needs an interactive terminal (try --smoke to run without one).");
+    process.exit(1);
+  }
+  const term = new Terminal();
+  const gridSize = () => ({ cols: term.cols, rows: Math.max(1, term.rows - STATUS_ROWS) });
+  const input = new TtyInput({ maxPump: 3, aimStep: 0.04, dragRange: 0.35, smooth: 0.2 }, gridSize);
+
+  let seed = opts.seed;
+  let sim = new Simulation({ seed, difficulty: opts.difficulty });
+  let grid = new CharGrid(gridSize().cols, gridSize().rows);
+  let paused = false;
+  let burst = false;
+  let acc = 0;
+  let last = performance.now();
+  let lastScore = "";
+
+  const newRun = () => {
+    seed = randomSeed();
+    sim = new Simulation({ seed, difficulty: opts.difficulty });
+    input.reset();
+    paused = false;
+    acc = 0;
+  };
+
+  const frame = () => {
+    const now = performance.now();
+    const dt = Math.min(MAX_FRAME_SEC, (now - last) / 1000);
+    last = now;
+    const size = gridSize();
+    if (size.cols !== grid.cols || size.rows !== grid.rows) grid = new CharGrid(size.cols, size.rows);
+    sim.viewWidth = grid.cols * CELL_W;
+    if (!paused && !sim.isOver()) {
+      acc += dt;
+      while (acc >= STEP_SEC && !sim.isOver()) {
+        acc -= STEP_SEC;
+        const sample = input.sample(STEP_SEC);
+        sim.step(burst ? { ...sample, burst: true } : sample);
+        burst = false;
+      }
+    }
+    if (sim.isOver()) lastScore = `Final Score: ${sim.score} (wave ${sim.waveIndex + 1}, seed ${seed})`;
+    grid.render(sim);
+    drawBanners(grid, sim, paused);
+    term.draw(grid, statusLines(sim, input));
+  };
+
+  const timer = setInterval(frame, FRAME_MS);
+  const quit = () => {
+    clearInterval(timer);
+    input.stop();
+    term.leave();
+    if (lastScore) console.log(lastScore);
+    process.exit(0);
+  };
+
+  input.on((cmd) => {
+    switch (cmd) {
+      case "burst": if (!paused) burst = true; break;
+      case "pause": if (!sim.isOver()) paused = !paused; break;
+      case "restart": newRun(); break;
+      case "quit": quit(); break;
+    }
+  });
+  // a crash must not leave the terminal in raw mode on the alternate screen
+  process.on("exit", () => term.leave());
+  process.on("SIGTERM", quit);
+  process.stdout.on("resize", () => process.stdout.write("\x1b[2J"));
+
+  term.enter();
+  input.start();
+  frame();
+}
+
+try {
+  const opts = parseArgs(process.argv.slice(2));
+  if (opts.smoke !== null) smoke(opts, opts.smoke);
+  else play(opts);
+} catch (e) {
+  console.error((e as Error).message);
+  process.exit(1);
+}
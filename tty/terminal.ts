@@ -0,0 +1,90 @@
+// ANSI output for the terminal front-end: alternate screen, hidden cursor,
+// xterm mouse reporting, and CharGrid frames written as coloured text.
+
+import type { CharGrid } from "../src/wind/charGrid";
+
+const CSI = "\x1b[";
+
+// 24-bit colour where the terminal says it has it, else the 256-colour cube
+export type ColorDepth = "truecolor" | "256";
+
+export function colorDepth(env: NodeJS.ProcessEnv = process.env): ColorDepth {
+  return /truecolor|24bit/i.test(env.COLORTERM ?? "") ? "truecolor" : "256";
+}
+
+// A line under the grid: plain text in one colour ("" = default).
+export type StatusLine = { text: string; color?: string };
+
+export class Terminal {
+  private out: NodeJS.WriteStream;
+  private depth: ColorDepth;
+  private sgr = new Map<string, string>();
+  private active = false;
+
+  constructor(out: NodeJS.WriteStream = process.stdout, depth = colorDepth()) {
+    this.out = out;
+    this.depth = depth;
+  }
+
+  get cols() { return this.out.columns ?? 80; }
+  get rows() { return this.out.rows ?? 24; }
+
+  // Alternate screen, no cursor, mouse reporting on (any motion, SGR
+  // coordinates so wide terminals work).
+  enter() {
+    if (this.active) return;
+    this.active = true;
+    this.out.write(`${CSI}?1049h${CSI}?25l${CSI}?1003h${CSI}?1006h${CSI}2J`);
+  }
+
+  // Puts the terminal back the way it was. Safe to call more than once.
+  leave() {
+    if (!this.active) return;
+    this.active = false;
+    this.out.write(`${CSI}?1006l${CSI}?1003l${CSI}0m${CSI}?25h${CSI}?1049l`);
+  }
+
+  // One frame: the grid from the top-left corner, then the status lines.
+  // Colour codes are only written where the colour changes.
+  draw(grid: CharGrid, status: StatusLine[]) {
+    let s = `${CSI}H`;
+    let current = "";
+    for (let row = 0; row < grid.rows; row++) {
+      for (let col = 0; col < grid.cols; col++) {
+        const i = row * grid.cols + col;
+        const ch = grid.chars[i];
+        if (ch === "") continue; // covered by the wide glyph before it
+        const color = ch === " " ? current : grid.colors[i];
+        if (color !== current) { s += this.color(color); current = color; }
+        s += ch;
+      }
+      s += `${CSI}K\r\n`;
+    }
+    status.forEach((line, i) => {
+      const color = line.color ?? "";
+      if (color !== current) { s += this.color(color); current = color; }
+      s += line.text.slice(0, this.cols) + `${CSI}K`;
+      if (i < status.length - 1) s += "\r\n";
+    });
+    this.out.write(s + `${CSI}0m`);
+  }
+
+  private color(hex: string): string {
+    let code = this.sgr.get(hex);
+    if (code !== undefined) return code;
+    const m = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+    if (!m) {
+      code = `${CSI}39m`;
+    } else {
+      const [r, g, b] = m.slice(1).map(h => parseInt(h, 16));
+      if (this.depth === "truecolor") {
+        code = `${CSI}38;2;${r};${g};${b}m`;
+      } else {
+        const c = (v: number) => Math.round((v / 255) * 5);
+        code = `${CSI}38;5;${16 + 36 * c(r) + 6 * c(g) + c(b)}m`;
+      }
+    }
+    this.sgr.set(hex, code);
+    return code;
+  }
+}
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vite'
+
+// Bundles the terminal front-end for Node (npm run tty)
+export default defineConfig({
+  logLevel: 'warn',
+  build: {
+    ssr: 'tty/main.ts',
+    outDir: 'dist-tty',
+    emptyOutDir: true,
+    target: 'node20',
+    copyPublicDir: false,
+  },
+})
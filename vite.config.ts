@@ -1,5 +1,7 @@
 import { defineConfig } from 'vite'
+import { offline } from './scripts/viteOffline.mjs'
 
 export default defineConfig({
   base: '/ascii-sand/',
-})
\ No newline at end of file
+  plugins: [offline()],
+})